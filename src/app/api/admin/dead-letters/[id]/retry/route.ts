@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerPipeline } from '@/lib/directorstudio/bootstrap'
+import { requireAdmin } from '@/lib/adminAuth'
+import { traceRoute } from '@/lib/directorstudio/core/tracing'
+
+async function retryDeadLetter(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const denied = await requireAdmin(request)
+    if (denied) return denied
+
+    const { id } = await params
+    const pipeline = await getServerPipeline()
+
+    if (!(await pipeline.getDeadLetter(id))) {
+      return NextResponse.json(
+        { error: 'Dead letter not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await pipeline.retryDeadLetter(id)
+    const failedModules = Object.values(result.results)
+      .filter(moduleResult => moduleResult.status === 'failed')
+      .map(moduleResult => moduleResult.module)
+
+    return NextResponse.json({
+      success: failedModules.length === 0,
+      run_id: result.runId,
+      failed_modules: failedModules
+    })
+
+  } catch (error) {
+    console.error('Retry dead letter error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = traceRoute('POST /api/admin/dead-letters/[id]/retry', retryDeadLetter)
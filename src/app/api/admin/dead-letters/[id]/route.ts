@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerPipeline, getServerTelemetry } from '@/lib/directorstudio/bootstrap'
+import { requireAdmin } from '@/lib/adminAuth'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const denied = await requireAdmin(request)
+    if (denied) return denied
+
+    const { id } = await params
+    const pipeline = await getServerPipeline()
+    const telemetry = await getServerTelemetry()
+    const deadLetter = await pipeline.getDeadLetter(id)
+
+    if (!deadLetter) {
+      return NextResponse.json(
+        { error: 'Dead letter not found' },
+        { status: 404 }
+      )
+    }
+
+    // Payloads are stored unmasked for retries; never return them that way
+    return NextResponse.json({ dead_letter: telemetry.scrubData(deadLetter) })
+
+  } catch (error) {
+    console.error('Get dead letter error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const denied = await requireAdmin(request)
+    if (denied) return denied
+
+    const { id } = await params
+    const pipeline = await getServerPipeline()
+    const discarded = await pipeline.discardDeadLetter(id)
+
+    if (!discarded) {
+      return NextResponse.json(
+        { error: 'Dead letter not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Discard dead letter error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerPipeline, getServerTelemetry } from '@/lib/directorstudio/bootstrap'
+import { requireAdmin } from '@/lib/adminAuth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const denied = await requireAdmin(request)
+    if (denied) return denied
+
+    const { searchParams } = new URL(request.url)
+    const limit = searchParams.get('limit')
+
+    const pipeline = await getServerPipeline()
+    const telemetry = await getServerTelemetry()
+    const deadLetters = await pipeline.listDeadLetters({
+      module: searchParams.get('module') || undefined,
+      sessionId: searchParams.get('sessionId') || undefined,
+      userId: searchParams.get('userId') || undefined,
+      pipeline: searchParams.get('pipeline') || undefined,
+      limit: limit ? parseInt(limit, 10) : 50
+    })
+
+    // Payloads are stored unmasked for retries; never return them that way
+    return NextResponse.json({ dead_letters: deadLetters.map(entry => telemetry.scrubData(entry)) })
+
+  } catch (error) {
+    console.error('List dead letters error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerTelemetry } from '@/lib/directorstudio/bootstrap'
+import { requireAdmin } from '@/lib/adminAuth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const denied = await requireAdmin(request)
+    if (denied) return denied
+
+    const { searchParams } = new URL(request.url)
+    const start = searchParams.get('start')
+    const end = searchParams.get('end')
+    const limit = searchParams.get('limit')
+
+    const startDate = start ? new Date(start) : undefined
+    const endDate = end ? new Date(end) : undefined
+    if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+      return NextResponse.json(
+        { error: 'start and end must be ISO 8601 timestamps' },
+        { status: 400 }
+      )
+    }
+
+    const telemetry = await getServerTelemetry()
+    const events = await telemetry.queryEvents({
+      module: searchParams.get('module') || undefined,
+      type: searchParams.get('type') || undefined,
+      userId: searchParams.get('userId') || undefined,
+      sessionId: searchParams.get('sessionId') || undefined,
+      traceId: searchParams.get('traceId') || undefined,
+      startDate,
+      endDate,
+      limit: limit ? parseInt(limit, 10) : 100
+    })
+
+    return NextResponse.json({ events })
+
+  } catch (error) {
+    console.error('Query telemetry error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
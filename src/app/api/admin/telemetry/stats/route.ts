@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerTelemetry } from '@/lib/directorstudio/bootstrap'
+import { TelemetryGroupBy } from '@/lib/directorstudio/core/eventstore'
+import { requireAdmin } from '@/lib/adminAuth'
+
+const GROUP_BY: TelemetryGroupBy[] = ['module', 'type', 'userId', 'sessionId']
+
+export async function GET(request: NextRequest) {
+  try {
+    const denied = await requireAdmin(request)
+    if (denied) return denied
+
+    const { searchParams } = new URL(request.url)
+    const groupBy = searchParams.get('groupBy')
+    const start = searchParams.get('start')
+    const end = searchParams.get('end')
+
+    if (groupBy && !GROUP_BY.includes(groupBy as TelemetryGroupBy)) {
+      return NextResponse.json(
+        { error: `groupBy must be one of ${GROUP_BY.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const startDate = start ? new Date(start) : undefined
+    const endDate = end ? new Date(end) : undefined
+    if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+      return NextResponse.json(
+        { error: 'start and end must be ISO 8601 timestamps' },
+        { status: 400 }
+      )
+    }
+
+    const telemetry = await getServerTelemetry()
+    const stats = await telemetry.aggregateEvents({
+      module: searchParams.get('module') || undefined,
+      type: searchParams.get('type') || undefined,
+      userId: searchParams.get('userId') || undefined,
+      sessionId: searchParams.get('sessionId') || undefined,
+      traceId: searchParams.get('traceId') || undefined,
+      startDate,
+      endDate
+    }, (groupBy as TelemetryGroupBy) || undefined)
+
+    return NextResponse.json({ stats })
+
+  } catch (error) {
+    console.error('Telemetry stats error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
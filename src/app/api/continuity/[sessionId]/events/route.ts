@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerContinuity, getServerTelemetry } from '@/lib/directorstudio/bootstrap'
+
+// Initialize Supabase client with service role key
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Keeps proxies from closing idle streams
+const HEARTBEAT_INTERVAL = 15000
+
+// Supabase session cookie; EventSource cannot send headers but does send cookies
+const ACCESS_TOKEN_COOKIE = 'sb-access-token'
+
+// Stream a session's continuity events as Server-Sent Events, e.g. live
+// pipeline progress. Only the user the session belongs to may subscribe.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params
+    const { searchParams } = new URL(request.url)
+
+    const authorization = request.headers.get('Authorization')
+    const token = authorization?.startsWith('Bearer ')
+      ? authorization.slice('Bearer '.length)
+      : request.cookies.get(ACCESS_TOKEN_COOKIE)?.value
+
+    const { data: { user } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } }
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const engine = await getServerContinuity()
+    const telemetry = await getServerTelemetry()
+    const context = await engine.peekContext(sessionId)
+
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    if (context.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+    let close = () => {}
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            cleanup()
+          }
+        }
+
+        // Events from other instances are picked up from continuity storage
+        const unsubscribe = engine.watch(sessionId, {
+          type: searchParams.get('type') || undefined,
+          module: searchParams.get('module') || undefined
+        }, async event => {
+          // Stop streaming once the session is gone or recreated for another user
+          const current = await engine.peekContext(sessionId)
+          if (current?.userId !== user.id) {
+            close()
+            return
+          }
+
+          const payload = { ...event, data: telemetry.scrubData(event.data) }
+          send(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(payload)}\n\n`)
+        })
+        const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL)
+
+        cleanup = () => {
+          unsubscribe()
+          clearInterval(heartbeat)
+        }
+        close = () => {
+          cleanup()
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the runtime
+          }
+        }
+        request.signal.addEventListener('abort', close)
+
+        send(': connected\n\n')
+      },
+      cancel() {
+        cleanup()
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive'
+      }
+    })
+
+  } catch (error) {
+    console.error('Continuity event stream error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
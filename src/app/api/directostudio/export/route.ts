@@ -2,11 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import crypto from 'crypto'
 import { z } from 'zod'
+import { createTracedFetch, traceRoute } from '@/lib/directorstudio/core/tracing'
 
-// Initialize Supabase client with service role key
+// Initialize Supabase client with service role key; each call is traced as a child span
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { global: { fetch: createTracedFetch('supabase') } }
 )
 
 // Validation schemas
@@ -95,7 +97,7 @@ async function checkIdempotency(idempotencyKey: string): Promise<boolean> {
   return !!data
 }
 
-export async function POST(request: NextRequest) {
+async function handleExport(request: NextRequest) {
   try {
     // Verify required headers
     const idempotencyKey = request.headers.get('Idempotency-Key')
@@ -263,3 +265,4 @@ export async function POST(request: NextRequest) {
   }
 }
 
+export const POST = traceRoute('POST /api/directostudio/export', handleExport)
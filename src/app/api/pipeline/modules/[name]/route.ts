@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServerPipeline } from '@/lib/directorstudio/bootstrap'
+import { ModuleConfigError } from '@/lib/directorstudio/core/pipeline'
+import { requireAdmin } from '@/lib/adminAuth'
+
+const ModuleConfigUpdateSchema = z.object({
+  enabled: z.boolean().optional(),
+  priority: z.number().int().optional(),
+  timeout: z.number().int().min(1).optional(),
+  retries: z.number().int().min(0).optional(),
+  metadata: z.record(z.any()).optional()
+}).strict()
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const denied = await requireAdmin(request)
+    if (denied) return denied
+
+    const { name } = await params
+    const pipeline = await getServerPipeline()
+    const module = pipeline.getModule(name)
+
+    if (!module) {
+      return NextResponse.json(
+        { error: 'Module not found' },
+        { status: 404 }
+      )
+    }
+
+    const updates = ModuleConfigUpdateSchema.parse(await request.json())
+    await pipeline.updateConfig({
+      modules: {
+        [name]: { ...module.config, ...updates }
+      }
+    })
+
+    return NextResponse.json({
+      module: name,
+      config: pipeline.getModule(name)!.config
+    })
+
+  } catch (error) {
+    console.error('Update module config error:', error)
+
+    // request.json() rejects malformed bodies with a SyntaxError
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ModuleConfigError) {
+      return NextResponse.json(
+        { error: 'Invalid module config', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
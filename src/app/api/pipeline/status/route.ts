@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerPipeline } from '@/lib/directorstudio/bootstrap'
+import { requireAdmin } from '@/lib/adminAuth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const denied = await requireAdmin(request)
+    if (denied) return denied
+
+    const { searchParams } = new URL(request.url)
+    const window = searchParams.get('window')
+    const errorRateWindow = window ? parseInt(window, 10) : undefined
+
+    if (errorRateWindow !== undefined && (isNaN(errorRateWindow) || errorRateWindow <= 0)) {
+      return NextResponse.json(
+        { error: 'window must be a positive number of milliseconds' },
+        { status: 400 }
+      )
+    }
+
+    const pipeline = await getServerPipeline()
+    const status = await pipeline.getStatus(errorRateWindow)
+
+    return NextResponse.json({ status })
+
+  } catch (error) {
+    console.error('Pipeline status error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
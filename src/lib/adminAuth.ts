@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+
+// Initialize Supabase client with service role key
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Check the request's bearer token belongs to an admin; returns an error response when it doesn't
+export const requireAdmin = async (request: NextRequest): Promise<NextResponse | null> => {
+  const authorization = request.headers.get('Authorization')
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null
+
+  if (!token) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token)
+  if (error || !user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('is_admin')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile?.is_admin) {
+    return NextResponse.json(
+      { error: 'Admin privileges required' },
+      { status: 403 }
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,145 @@
+// MODULE: DirectorStudio Server Bootstrap
+// VERSION: 1.0.0
+// PURPOSE: Configure the shared engines from the environment and register the built-in modules for API routes
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { PipelineEngine } from './core/pipeline';
+import { Telemetry } from './core/telemetry';
+import { ContinuityEngine } from './core/continuity';
+import { DirectorStudioValidator } from './core/validator';
+import { ContinuityStorageAdapter, DatabaseContinuityStorage } from './core/storage';
+import { DatabaseDeadLetterStore } from './core/deadletter';
+import { DatabaseRunStore } from './core/runs';
+import { DatabaseTelemetryEventStore } from './core/eventstore';
+import { ContinuityConfig, DirectorStudioConfig } from './core/types';
+import { UserManagementModule } from './modules/user/UserManagementModule';
+import { ContentManagementModule } from './modules/content/ContentManagementModule';
+import { AnalyticsModule } from './modules/analytics/AnalyticsModule';
+import { VideoUploadModule } from './modules/video/VideoUploadModule';
+import { VideoProcessingModule } from './modules/video/VideoProcessingModule';
+import { ContentAnalysisModule } from './modules/ai/ContentAnalysisModule';
+
+let bootstrap: Promise<PipelineEngine> | undefined;
+
+/**
+ * Build the engine configuration from environment variables
+ */
+export const getServerConfig = (env: NodeJS.ProcessEnv = process.env): DirectorStudioConfig => {
+  const hasDatabase = Boolean(env.NEXT_PUBLIC_SUPABASE_URL && env.SUPABASE_SERVICE_ROLE_KEY);
+
+  return {
+    modules: {},
+    telemetry: {
+      enabled: env.DIRECTORSTUDIO_TELEMETRY_ENABLED !== 'false',
+      endpoint: env.DIRECTORSTUDIO_TELEMETRY_ENDPOINT || '',
+      batchSize: 100,
+      flushInterval: 10000,
+      retentionDays: parseInt(env.DIRECTORSTUDIO_TELEMETRY_RETENTION_DAYS || '30', 10)
+    },
+    continuity: {
+      enabled: true,
+      storage: (env.DIRECTORSTUDIO_CONTINUITY_STORAGE as ContinuityConfig['storage']) ||
+        (hasDatabase ? 'database' : 'memory'),
+      ttl: 24 * 60 * 60 * 1000,
+      maxEvents: 1000
+    },
+    validation: {
+      strictMode: env.DIRECTORSTUDIO_STRICT_MODE === 'true',
+      autoValidate: true,
+      timeout: 5000,
+      retries: 0
+    },
+    pipelinesFile: env.DIRECTORSTUDIO_PIPELINES_FILE || undefined
+  };
+};
+
+/**
+ * Configure the shared engines once per process and resolve the pipeline.
+ * Without Supabase credentials everything is kept in memory.
+ */
+export const getServerPipeline = (): Promise<PipelineEngine> => {
+  if (!bootstrap) {
+    bootstrap = bootstrapPipeline().catch(error => {
+      // Let the next request try again instead of caching the failure
+      bootstrap = undefined;
+      throw error;
+    });
+  }
+  return bootstrap;
+};
+
+/**
+ * Resolve the shared telemetry instance once the engines are configured
+ */
+export const getServerTelemetry = async (): Promise<Telemetry> => {
+  await getServerPipeline();
+  return Telemetry.getInstance();
+};
+
+/**
+ * Resolve the shared continuity engine once the engines are configured
+ */
+export const getServerContinuity = async (): Promise<ContinuityEngine> => {
+  await getServerPipeline();
+  return ContinuityEngine.getInstance();
+};
+
+async function bootstrapPipeline(): Promise<PipelineEngine> {
+  const config = getServerConfig();
+  const client = createServiceClient();
+
+  const telemetry = Telemetry.getInstance(config.telemetry);
+  if (client) {
+    telemetry.setEventStore(new DatabaseTelemetryEventStore(client));
+  }
+
+  ContinuityEngine.getInstance(
+    config.continuity,
+    createContinuityStorage(config.continuity, client)
+  );
+  DirectorStudioValidator.getInstance(config.validation);
+
+  const pipeline = PipelineEngine.getInstance(config);
+  if (client) {
+    pipeline.setRunStore(new DatabaseRunStore(client));
+    pipeline.setDeadLetterStore(new DatabaseDeadLetterStore(client));
+  }
+
+  // Dependencies first, so registration checks see them
+  await pipeline.registerModule(new UserManagementModule());
+  await pipeline.registerModule(new ContentManagementModule());
+  await pipeline.registerModule(new AnalyticsModule());
+  await pipeline.registerModule(new VideoUploadModule());
+  await pipeline.registerModule(new VideoProcessingModule());
+  await pipeline.registerModule(new ContentAnalysisModule());
+
+  await pipeline.initialize();
+  return pipeline;
+}
+
+/**
+ * Pick the continuity backend named by the config; memory needs none
+ */
+function createContinuityStorage(
+  config: ContinuityConfig,
+  client?: SupabaseClient
+): ContinuityStorageAdapter | undefined {
+  switch (config.storage) {
+    case 'database':
+      if (!client) {
+        throw new Error('Database continuity storage needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+      }
+      return new DatabaseContinuityStorage(client);
+    case 'redis':
+      // RedisContinuityStorage needs a client the server does not ship with
+      throw new Error('Redis continuity storage is not supported by the server bootstrap');
+    default:
+      return undefined;
+  }
+}
+
+function createServiceClient(): SupabaseClient | undefined {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  return url && key ? createClient(url, key) : undefined;
+}
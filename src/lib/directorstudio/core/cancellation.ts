@@ -0,0 +1,60 @@
+// MODULE: DirectorStudio Cancellation
+// VERSION: 1.0.0
+// PURPOSE: AbortSignal helpers shared by the pipeline engine and its modules
+
+import { ModuleExecutionResult } from './types';
+
+export class PipelineCancelledError extends Error {
+  constructor(
+    public readonly runId?: string,
+    public readonly results: Record<string, ModuleExecutionResult> = {}
+  ) {
+    super(runId ? `Pipeline run ${runId} was cancelled` : 'Pipeline run was cancelled');
+    this.name = 'PipelineCancelledError';
+  }
+}
+
+/**
+ * Throw a PipelineCancelledError if the signal has been aborted; modules call
+ * this between steps so a cancelled run stops at the next step boundary
+ */
+export const throwIfCancelled = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new PipelineCancelledError();
+  }
+};
+
+/**
+ * Race a promise against the signal, rejecting as soon as the run is cancelled
+ */
+export const raceCancellation = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new PipelineCancelledError());
+
+  let onAbort: (() => void) | undefined;
+  const cancelled = new Promise<never>((_, reject) => {
+    onAbort = () => reject(new PipelineCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  return Promise.race([promise, cancelled]).finally(() => {
+    signal.removeEventListener('abort', onAbort!);
+  });
+};
+
+/**
+ * Wait for the given time, resolving early if the run is cancelled
+ */
+export const cancellableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise<void>(resolve => {
+    if (signal?.aborted) return resolve();
+
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+};
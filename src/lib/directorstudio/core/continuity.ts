@@ -2,30 +2,152 @@
 // VERSION: 1.0.0
 // PURPOSE: State management and continuity system for DirectorStudio modules
 
-import { ContinuityContext, ContinuityEvent, ContinuityConfig } from './types';
-import { logEvent } from './telemetry';
+import {
+  ContinuityContext,
+  ContinuityEvent,
+  ContinuityConfig,
+  ContinuitySnapshot,
+  StateChange,
+  UserContext,
+  ContinuityEventFilter,
+  ContinuityEventHandler
+} from './types';
+import { Telemetry } from './telemetry';
+import { ContinuityStorageAdapter } from './storage';
+import { cloneState, diffStates } from './snapshots';
+
+// Watchers poll storage for other instances' events this often by default
+const DEFAULT_WATCH_INTERVAL = 2000;
+
+// Storage polls look this far back for events other instances wrote late
+const WATCH_OVERLAP = 60 * 1000;
 
 export class ContinuityEngine {
   private static instance: ContinuityEngine;
   private contexts: Map<string, ContinuityContext> = new Map();
   private config: ContinuityConfig;
   private cleanupTimer?: NodeJS.Timeout;
-
-  private constructor(config: ContinuityConfig) {
+  private storage?: ContinuityStorageAdapter;
+  private writeQueues: Map<string, Promise<void>> = new Map();
+  // Versioned copies of each session's state, oldest first
+  private snapshots: Map<string, ContinuitySnapshot[]> = new Map();
+  // Session IDs of locally cached contexts, keyed by user
+  private userSessions: Map<string, Set<string>> = new Map();
+  // Event subscriptions keyed by session ID, or '*' for every session
+  private subscriptions: Map<string, Set<{ filter: ContinuityEventFilter; handler: ContinuityEventHandler }>> = new Map();
+  private watchTimers: Set<ReturnType<typeof setInterval>> = new Set();
+
+  private scopedTelemetry?: Telemetry;
+
+  private constructor(config: ContinuityConfig, storage?: ContinuityStorageAdapter, telemetry?: Telemetry) {
     this.config = config;
+    this.scopedTelemetry = telemetry;
+    this.setStorage(storage);
     this.startCleanupTimer();
   }
 
-  public static getInstance(config?: ContinuityConfig): ContinuityEngine {
+  public static getInstance(
+    config?: ContinuityConfig,
+    storage?: ContinuityStorageAdapter
+  ): ContinuityEngine {
     if (!ContinuityEngine.instance) {
       if (!config) {
         throw new Error('ContinuityEngine must be initialized with configuration');
       }
-      ContinuityEngine.instance = new ContinuityEngine(config);
+      ContinuityEngine.instance = new ContinuityEngine(config, storage);
     }
     return ContinuityEngine.instance;
   }
 
+  /**
+   * Create an independent continuity engine; without a telemetry instance it
+   * reports to the default one
+   */
+  public static create(
+    config: ContinuityConfig,
+    storage?: ContinuityStorageAdapter,
+    telemetry?: Telemetry
+  ): ContinuityEngine {
+    return new ContinuityEngine(config, storage, telemetry);
+  }
+
+  /**
+   * Attach the persistent backend for the configured storage type
+   */
+  public setStorage(storage?: ContinuityStorageAdapter): void {
+    this.storage = this.config.storage === 'memory' ? undefined : storage;
+
+    if (this.config.storage !== 'memory' && !storage) {
+      this.telemetry.logEvent('continuity_storage_unavailable', 'ContinuityEngine', {
+        storage: this.config.storage
+      });
+    }
+  }
+
+  /**
+   * Load a context from persistent storage into the local cache
+   */
+  public async loadContext(sessionId: string, userId?: string): Promise<ContinuityContext> {
+    if (this.storage) {
+      // Let this instance's own writes land before reading back
+      await this.flush(sessionId);
+
+      try {
+        const stored = await this.storage.load(sessionId);
+        if (stored) {
+          stored.metadata.lastAccessed = new Date();
+          this.contexts.set(sessionId, stored);
+          this.indexSession(stored);
+          this.recordSnapshot(stored, 'ContinuityEngine', 'load', Object.keys(stored.state));
+
+          this.telemetry.logEvent('continuity_context_loaded', 'ContinuityEngine', {
+            sessionId,
+            storage: this.config.storage,
+            historyLength: stored.history.length
+          });
+        }
+      } catch (error) {
+        this.telemetry.logError('ContinuityEngine', error as Error, {
+          sessionId,
+          operation: 'load'
+        });
+      }
+    }
+
+    return this.getContext(sessionId, userId);
+  }
+
+  /**
+   * Read a context from the local cache or storage without creating, caching or touching it
+   */
+  public async peekContext(sessionId: string): Promise<ContinuityContext | undefined> {
+    const local = this.contexts.get(sessionId);
+    if (local || !this.storage) return local;
+
+    try {
+      await this.flush(sessionId);
+      return (await this.storage.load(sessionId)) || undefined;
+    } catch (error) {
+      this.telemetry.logError('ContinuityEngine', error as Error, {
+        sessionId,
+        operation: 'load'
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Wait for pending storage writes, for one session or all of them
+   */
+  public async flush(sessionId?: string): Promise<void> {
+    if (sessionId) {
+      await this.writeQueues.get(sessionId);
+      return;
+    }
+
+    await Promise.all(Array.from(this.writeQueues.values()));
+  }
+
   /**
    * Create or get a continuity context
    */
@@ -42,8 +164,11 @@ export class ContinuityEngine {
         }
       };
       this.contexts.set(sessionId, context);
+      this.indexSession(context);
+      this.persistContext(context);
+      this.recordSnapshot(context, 'ContinuityEngine', 'create', []);
       
-      logEvent('continuity_context_created', 'ContinuityEngine', {
+      this.telemetry.logEvent('continuity_context_created', 'ContinuityEngine', {
         sessionId,
         userId
       });
@@ -51,6 +176,13 @@ export class ContinuityEngine {
       // Update last accessed time
       const context = this.contexts.get(sessionId)!;
       context.metadata.lastAccessed = new Date();
+
+      // An anonymous session is claimed by the first user that accesses it
+      if (userId && !context.userId) {
+        context.userId = userId;
+        this.indexSession(context);
+        this.persistContext(context);
+      }
     }
 
     return this.contexts.get(sessionId)!;
@@ -68,6 +200,8 @@ export class ContinuityEngine {
     
     // Merge updates into state
     context.state = { ...context.state, ...updates };
+    this.persistContext(context);
+    this.recordSnapshot(context, module, 'update', Object.keys(updates));
     
     // Add to history
     this.addEvent(sessionId, 'state_update', {
@@ -76,7 +210,7 @@ export class ContinuityEngine {
       timestamp: new Date()
     }, module);
 
-    logEvent('continuity_state_updated', 'ContinuityEngine', {
+    this.telemetry.logEvent('continuity_state_updated', 'ContinuityEngine', {
       sessionId,
       module,
       updateCount: Object.keys(updates).length
@@ -96,6 +230,162 @@ export class ContinuityEngine {
     return { ...context.state };
   }
 
+  /**
+   * List a user's session IDs, from the local cache and persistent storage
+   */
+  public async listUserSessions(userId: string): Promise<string[]> {
+    const sessionIds = new Set(this.userSessions.get(userId) || []);
+
+    if (this.storage?.listSessions) {
+      try {
+        (await this.storage.listSessions(userId)).forEach(sessionId => sessionIds.add(sessionId));
+      } catch (error) {
+        this.telemetry.logError('ContinuityEngine', error as Error, {
+          userId,
+          operation: 'listSessions'
+        });
+      }
+    }
+
+    return Array.from(sessionIds);
+  }
+
+  /**
+   * Get a view of a user's recent sessions with their state merged, so a
+   * second device can pick up where the user left off
+   */
+  public async getUserContext(userId: string, options: { limit?: number } = {}): Promise<UserContext> {
+    const sessionIds = await this.listUserSessions(userId);
+    const contexts = (await Promise.all(sessionIds.map(sessionId => this.peekContext(sessionId))))
+      .filter((context): context is ContinuityContext => !!context && context.userId === userId)
+      .sort((a, b) => lastAccessed(b) - lastAccessed(a))
+      .slice(0, options.limit ?? 10);
+
+    const state: Record<string, any> = {};
+    const sources: Record<string, string> = {};
+
+    // Merge oldest first so the most recent session wins
+    [...contexts].reverse().forEach(context => {
+      Object.keys(context.state).forEach(key => {
+        state[key] = cloneState(context.state[key]);
+        sources[key] = context.sessionId;
+      });
+    });
+
+    this.telemetry.logEvent('continuity_user_context_loaded', 'ContinuityEngine', {
+      userId,
+      sessions: contexts.length,
+      stateKeys: Object.keys(state).length
+    });
+
+    return {
+      userId,
+      sessions: contexts.map(context => ({
+        sessionId: context.sessionId,
+        lastAccessed: new Date(lastAccessed(context))
+      })),
+      state,
+      sources
+    };
+  }
+
+  /**
+   * Move a session's state, history and snapshots to a new session ID and
+   * remove the old one. A run still writing to the old ID recreates it, so
+   * hand off between runs and resume on the new ID.
+   */
+  public async handoffSession(fromSessionId: string, toSessionId: string): Promise<ContinuityContext> {
+    if (fromSessionId === toSessionId) {
+      throw new Error('Cannot hand off a session to itself');
+    }
+
+    const source = await this.peekContext(fromSessionId);
+    if (!source) {
+      throw new Error(`Session ${fromSessionId} not found`);
+    }
+    if (await this.peekContext(toSessionId)) {
+      throw new Error(`Session ${toSessionId} already exists`);
+    }
+
+    const context: ContinuityContext = {
+      sessionId: toSessionId,
+      userId: source.userId,
+      state: cloneState(source.state),
+      // Event IDs are unique across sessions in storage, so the copies get new ones
+      history: source.history.map(event => ({ ...event, id: this.generateEventId() })),
+      metadata: {
+        ...source.metadata,
+        createdAt: new Date(),
+        lastAccessed: new Date(),
+        handoffFrom: fromSessionId
+      }
+    };
+
+    this.contexts.set(toSessionId, context);
+    this.indexSession(context);
+    this.persistContext(context);
+    context.history.forEach(event => {
+      this.enqueueWrite(toSessionId, 'appendEvent', storage =>
+        storage.appendEvent(toSessionId, event, this.config.maxEvents, this.config.ttl)
+      );
+    });
+
+    // The session's state versions move with it
+    this.snapshots.set(toSessionId, this.snapshots.get(fromSessionId) || []);
+    this.recordSnapshot(context, 'ContinuityEngine', 'handoff', Object.keys(context.state));
+    this.addEvent(toSessionId, 'session_handoff', { from: fromSessionId, to: toSessionId }, 'ContinuityEngine');
+
+    this.contexts.delete(fromSessionId);
+    this.snapshots.delete(fromSessionId);
+    this.unindexSession(source);
+    this.enqueueWrite(fromSessionId, 'delete', storage => storage.delete(fromSessionId));
+
+    this.telemetry.logEvent('continuity_session_handoff', 'ContinuityEngine', {
+      from: fromSessionId,
+      to: toSessionId,
+      userId: context.userId,
+      stateKeys: Object.keys(context.state).length
+    });
+
+    return context;
+  }
+
+  /**
+   * Get the recorded state versions for a session, oldest first
+   */
+  public getSnapshots(sessionId: string): ContinuitySnapshot[] {
+    return (this.snapshots.get(sessionId) || []).map(snapshot => ({
+      ...snapshot,
+      state: cloneState(snapshot.state)
+    }));
+  }
+
+  /**
+   * Get the state as it was at a version, or at a point in time; undefined if
+   * that version is no longer retained or predates the session
+   */
+  public getStateAt(sessionId: string, at: Date | number): Record<string, any> | undefined {
+    const snapshot = this.findSnapshot(sessionId, at);
+    return snapshot ? cloneState(snapshot.state) : undefined;
+  }
+
+  /**
+   * Structurally diff the state between two versions or points in time; the
+   * second defaults to the current state
+   */
+  public diffState(sessionId: string, from: Date | number, to?: Date | number): StateChange[] {
+    const before = this.findSnapshot(sessionId, from);
+    const after = to === undefined
+      ? this.snapshots.get(sessionId)?.slice(-1)[0]
+      : this.findSnapshot(sessionId, to);
+
+    if (!before || !after) {
+      throw new Error(`No state snapshot for session ${sessionId} at ${describePoint(before ? to! : from)}`);
+    }
+
+    return diffStates(before.state, after.state);
+  }
+
   /**
    * Add event to context history
    */
@@ -122,7 +412,12 @@ export class ContinuityEngine {
       context.history = context.history.slice(-this.config.maxEvents);
     }
 
-    logEvent('continuity_event_added', 'ContinuityEngine', {
+    this.enqueueWrite(sessionId, 'appendEvent', storage =>
+      storage.appendEvent(sessionId, event, this.config.maxEvents, this.config.ttl)
+    );
+    this.notifySubscribers(sessionId, event);
+
+    this.telemetry.logEvent('continuity_event_added', 'ContinuityEngine', {
       sessionId,
       eventType: type,
       module,
@@ -133,36 +428,127 @@ export class ContinuityEngine {
   /**
    * Get context history
    */
-  public getHistory(
-    sessionId: string,
-    filter?: {
-      type?: string;
-      module?: string;
-      startDate?: Date;
-      endDate?: Date;
-    }
-  ): ContinuityEvent[] {
+  public getHistory(sessionId: string, filter?: ContinuityEventFilter): ContinuityEvent[] {
     const context = this.getContext(sessionId);
     let filteredHistory = context.history;
 
     if (filter) {
-      filteredHistory = context.history.filter(event => {
-        if (filter.type && event.type !== filter.type) return false;
-        if (filter.module && event.module !== filter.module) return false;
-        if (filter.startDate && event.timestamp < filter.startDate) return false;
-        if (filter.endDate && event.timestamp > filter.endDate) return false;
-        return true;
-      });
+      filteredHistory = context.history.filter(event => matchesFilter(event, filter));
     }
 
     return filteredHistory;
   }
 
+  /**
+   * Call the handler for every event added to a session, or to any session
+   * with '*', that matches the filter. Events are only seen on the instance
+   * that adds them; watch also reads other instances' events from storage.
+   * Returns a function that removes the subscription.
+   */
+  public subscribe(
+    sessionId: string | '*',
+    filter: ContinuityEventFilter,
+    handler: ContinuityEventHandler
+  ): () => void {
+    const subscription = { filter, handler };
+    const subscriptions = this.subscriptions.get(sessionId) || new Set();
+    subscriptions.add(subscription);
+    this.subscriptions.set(sessionId, subscriptions);
+
+    this.telemetry.logEvent('continuity_subscription_added', 'ContinuityEngine', {
+      sessionId,
+      filter
+    });
+
+    return () => {
+      subscriptions.delete(subscription);
+      if (subscriptions.size === 0 && this.subscriptions.get(sessionId) === subscriptions) {
+        this.subscriptions.delete(sessionId);
+      }
+    };
+  }
+
+  /**
+   * Like subscribe, but also delivers events other instances add to the session
+   * by polling storage every interval. Each event is delivered once; events from
+   * other instances arrive up to an interval late and may be out of order.
+   * Without storage only this instance's events are seen.
+   */
+  public watch(
+    sessionId: string,
+    filter: ContinuityEventFilter,
+    handler: ContinuityEventHandler,
+    interval: number = DEFAULT_WATCH_INTERVAL
+  ): () => void {
+    const startedAt = Date.now();
+    let since = startedAt;
+    let polling = false;
+    // Delivered event IDs and their timestamps, kept while polls can return them again
+    const delivered = new Map<string, number>();
+
+    const deliver = (event: ContinuityEvent) => {
+      if (delivered.has(event.id)) return;
+      delivered.set(event.id, event.timestamp.getTime());
+      return handler(event, sessionId);
+    };
+    const unsubscribe = this.subscribe(sessionId, filter, deliver);
+
+    if (!this.storage?.loadEvents) return unsubscribe;
+
+    const poll = async () => {
+      const storage = this.storage;
+      if (polling || !storage?.loadEvents) return;
+      polling = true;
+
+      try {
+        const events = await storage.loadEvents(sessionId, new Date(since - WATCH_OVERLAP));
+        for (const event of events) {
+          const timestamp = event.timestamp.getTime();
+          since = Math.max(since, timestamp);
+          if (timestamp < startedAt || !matchesFilter(event, filter)) continue;
+
+          try {
+            await deliver(event);
+          } catch (error) {
+            this.telemetry.logError('ContinuityEngine', error as Error, {
+              sessionId,
+              eventType: event.type,
+              operation: 'notifySubscriber'
+            });
+          }
+        }
+
+        delivered.forEach((timestamp, id) => {
+          if (timestamp < since - WATCH_OVERLAP) delivered.delete(id);
+        });
+      } catch (error) {
+        this.telemetry.logError('ContinuityEngine', error as Error, {
+          sessionId,
+          operation: 'watch',
+          storage: this.config.storage
+        });
+      } finally {
+        polling = false;
+      }
+    };
+
+    const timer = setInterval(poll, interval);
+    this.watchTimers.add(timer);
+
+    return () => {
+      clearInterval(timer);
+      this.watchTimers.delete(timer);
+      unsubscribe();
+    };
+  }
+
   /**
    * Clear context state
    */
   public clearState(sessionId: string, module?: string): void {
     const context = this.getContext(sessionId);
+    const clearedKeys = Object.keys(context.state)
+      .filter(key => !module || key.startsWith(`${module}:`));
     
     if (module) {
       // Clear only module-specific state
@@ -175,10 +561,17 @@ export class ContinuityEngine {
       // Clear all state
       context.state = {};
     }
+    this.persistContext(context);
+    this.recordSnapshot(
+      context,
+      module || 'ContinuityEngine',
+      'clear',
+      clearedKeys
+    );
 
     this.addEvent(sessionId, 'state_cleared', { module }, module || 'ContinuityEngine');
 
-    logEvent('continuity_state_cleared', 'ContinuityEngine', {
+    this.telemetry.logEvent('continuity_state_cleared', 'ContinuityEngine', {
       sessionId,
       module
     });
@@ -189,9 +582,12 @@ export class ContinuityEngine {
    */
   public destroyContext(sessionId: string): void {
     if (this.contexts.has(sessionId)) {
+      this.unindexSession(this.contexts.get(sessionId)!);
       this.contexts.delete(sessionId);
+      this.snapshots.delete(sessionId);
+      this.enqueueWrite(sessionId, 'delete', storage => storage.delete(sessionId));
       
-      logEvent('continuity_context_destroyed', 'ContinuityEngine', {
+      this.telemetry.logEvent('continuity_context_destroyed', 'ContinuityEngine', {
         sessionId
       });
     }
@@ -223,10 +619,133 @@ export class ContinuityEngine {
     return { ...this.config };
   }
 
+  private persistContext(context: ContinuityContext): void {
+    this.enqueueWrite(context.sessionId, 'save', storage =>
+      storage.save(context, this.config.ttl)
+    );
+  }
+
+  private enqueueWrite(
+    sessionId: string,
+    operation: string,
+    write: (storage: ContinuityStorageAdapter) => Promise<void>
+  ): void {
+    const storage = this.storage;
+    if (!storage) return;
+
+    // Writes for a session are chained so they land in the order they were made
+    const previous = this.writeQueues.get(sessionId) || Promise.resolve();
+    const next = previous
+      .then(() => write(storage))
+      .catch(error => {
+        this.telemetry.logError('ContinuityEngine', error as Error, {
+          sessionId,
+          operation,
+          storage: this.config.storage
+        });
+      })
+      .then(() => {
+        if (this.writeQueues.get(sessionId) === next) {
+          this.writeQueues.delete(sessionId);
+        }
+      });
+
+    this.writeQueues.set(sessionId, next);
+  }
+
+  private notifySubscribers(sessionId: string, event: ContinuityEvent): void {
+    const subscriptions = [
+      ...Array.from(this.subscriptions.get(sessionId) || []),
+      ...Array.from(this.subscriptions.get('*') || [])
+    ];
+
+    subscriptions
+      .filter(subscription => matchesFilter(event, subscription.filter))
+      .forEach(({ handler }) => {
+        // A failing subscriber must not break the write that produced the event
+        const onError = (error: unknown) => {
+          this.telemetry.logError('ContinuityEngine', error as Error, {
+            sessionId,
+            eventType: event.type,
+            operation: 'notifySubscriber'
+          });
+        };
+
+        try {
+          Promise.resolve(handler(event, sessionId)).catch(onError);
+        } catch (error) {
+          onError(error);
+        }
+      });
+  }
+
+  private indexSession(context: ContinuityContext): void {
+    if (!context.userId) return;
+
+    const sessions = this.userSessions.get(context.userId) || new Set<string>();
+    sessions.add(context.sessionId);
+    this.userSessions.set(context.userId, sessions);
+  }
+
+  private unindexSession(context: ContinuityContext): void {
+    const sessions = context.userId ? this.userSessions.get(context.userId) : undefined;
+    if (!sessions) return;
+
+    sessions.delete(context.sessionId);
+    if (sessions.size === 0) {
+      this.userSessions.delete(context.userId!);
+    }
+  }
+
+  private recordSnapshot(
+    context: ContinuityContext,
+    module: string,
+    source: ContinuitySnapshot['source'],
+    keys: string[]
+  ): void {
+    const snapshots = this.snapshots.get(context.sessionId) || [];
+    const previous = snapshots[snapshots.length - 1];
+
+    snapshots.push({
+      version: previous ? previous.version + 1 : 0,
+      timestamp: new Date(),
+      module,
+      source,
+      keys,
+      state: cloneState(context.state)
+    });
+
+    const maxSnapshots = this.config.maxSnapshots ?? 100;
+    if (snapshots.length > maxSnapshots) {
+      snapshots.splice(0, snapshots.length - maxSnapshots);
+    }
+    this.snapshots.set(context.sessionId, snapshots);
+  }
+
+  private findSnapshot(sessionId: string, at: Date | number): ContinuitySnapshot | undefined {
+    const snapshots = this.snapshots.get(sessionId) || [];
+
+    if (typeof at === 'number') {
+      return snapshots.find(snapshot => snapshot.version === at);
+    }
+
+    // The newest version written at or before the requested time
+    for (let index = snapshots.length - 1; index >= 0; index--) {
+      if (snapshots[index].timestamp.getTime() <= at.getTime()) {
+        return snapshots[index];
+      }
+    }
+    return undefined;
+  }
+
   private generateEventId(): string {
     return `ctx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  private get telemetry(): Telemetry {
+    return this.scopedTelemetry || Telemetry.getInstance();
+  }
+
   private startCleanupTimer(): void {
     if (this.config.enabled && this.config.ttl > 0) {
       this.cleanupTimer = setInterval(() => {
@@ -248,15 +767,31 @@ export class ContinuityEngine {
       }
     });
 
+    // Expired contexts are only evicted from the local cache; the backend enforces its own TTL
     expiredSessions.forEach(sessionId => {
-      this.destroyContext(sessionId);
+      if (this.storage) {
+        this.unindexSession(this.contexts.get(sessionId)!);
+        this.contexts.delete(sessionId);
+        this.snapshots.delete(sessionId);
+      } else {
+        this.destroyContext(sessionId);
+      }
     });
 
     if (expiredSessions.length > 0) {
-      logEvent('continuity_cleanup', 'ContinuityEngine', {
+      this.telemetry.logEvent('continuity_cleanup', 'ContinuityEngine', {
         expiredSessions: expiredSessions.length
       });
     }
+
+    if (this.storage?.purgeExpired) {
+      this.storage.purgeExpired().catch(error => {
+        this.telemetry.logError('ContinuityEngine', error as Error, {
+          operation: 'purgeExpired',
+          storage: this.config.storage
+        });
+      });
+    }
   }
 
   /**
@@ -267,6 +802,11 @@ export class ContinuityEngine {
       clearInterval(this.cleanupTimer);
     }
     this.contexts.clear();
+    this.snapshots.clear();
+    this.userSessions.clear();
+    this.subscriptions.clear();
+    this.watchTimers.forEach(timer => clearInterval(timer));
+    this.watchTimers.clear();
   }
 }
 
@@ -287,6 +827,30 @@ export const getState = (sessionId: string, key?: string): any => {
   return ContinuityEngine.getInstance().getState(sessionId, key);
 };
 
+export const getStateAt = (sessionId: string, at: Date | number): Record<string, any> | undefined => {
+  return ContinuityEngine.getInstance().getStateAt(sessionId, at);
+};
+
+export const diffState = (sessionId: string, from: Date | number, to?: Date | number): StateChange[] => {
+  return ContinuityEngine.getInstance().diffState(sessionId, from, to);
+};
+
+export const getUserContext = (userId: string, options?: { limit?: number }): Promise<UserContext> => {
+  return ContinuityEngine.getInstance().getUserContext(userId, options);
+};
+
+export const handoffSession = (fromSessionId: string, toSessionId: string): Promise<ContinuityContext> => {
+  return ContinuityEngine.getInstance().handoffSession(fromSessionId, toSessionId);
+};
+
+export const subscribe = (
+  sessionId: string | '*',
+  filter: ContinuityEventFilter,
+  handler: ContinuityEventHandler
+): (() => void) => {
+  return ContinuityEngine.getInstance().subscribe(sessionId, filter, handler);
+};
+
 export const addEvent = (
   sessionId: string,
   type: string,
@@ -295,3 +859,21 @@ export const addEvent = (
 ): void => {
   ContinuityEngine.getInstance().addEvent(sessionId, type, data, module);
 };
+
+function matchesFilter(event: ContinuityEvent, filter: ContinuityEventFilter): boolean {
+  if (filter.type && event.type !== filter.type) return false;
+  if (filter.module && event.module !== filter.module) return false;
+  if (filter.startDate && event.timestamp < filter.startDate) return false;
+  if (filter.endDate && event.timestamp > filter.endDate) return false;
+  return true;
+}
+
+function lastAccessed(context: ContinuityContext): number {
+  const accessed = context.metadata.lastAccessed || context.metadata.createdAt;
+  return accessed ? new Date(accessed).getTime() : 0;
+}
+
+function describePoint(at: Date | number | undefined): string {
+  if (at === undefined) return 'the current version';
+  return typeof at === 'number' ? `version ${at}` : at.toISOString();
+}
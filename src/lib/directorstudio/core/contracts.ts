@@ -0,0 +1,146 @@
+// MODULE: DirectorStudio Module Contracts
+// VERSION: 1.0.0
+// PURPOSE: Runtime input/output contracts between pipeline modules
+
+import { ZodTypeAny, ZodFirstPartyTypeKind } from 'zod';
+import { DependencyInput } from './types';
+
+/**
+ * Check whether a module input is a dependency envelope built by the engine
+ */
+export const isDependencyInput = (input: any): input is DependencyInput => {
+  return !!input && typeof input === 'object' && 'input' in input && 'dependencies' in input;
+};
+
+/**
+ * Format schema issues as "path: message" strings
+ */
+export const describeIssues = (
+  issues: Array<{ path: Array<string | number>; message: string }>
+): string[] => {
+  return issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+};
+
+/**
+ * Structurally compare two schemas and list where the provided output cannot
+ * satisfy the expected input. An empty list means the schemas are compatible.
+ */
+export const checkSchemaCompatibility = (
+  provided: ZodTypeAny,
+  expected: ZodTypeAny,
+  path: string = '(root)'
+): string[] => {
+  const expectedKind = typeName(expected);
+  const providedKind = typeName(provided);
+
+  // Expected schemas that accept anything, or wrap an inner schema
+  if (expectedKind === ZodFirstPartyTypeKind.ZodAny || expectedKind === ZodFirstPartyTypeKind.ZodUnknown) {
+    return [];
+  }
+  if (expectedKind === ZodFirstPartyTypeKind.ZodOptional || expectedKind === ZodFirstPartyTypeKind.ZodNullable) {
+    return checkSchemaCompatibility(unwrap(provided), expected._def.innerType, path);
+  }
+  if (expectedKind === ZodFirstPartyTypeKind.ZodDefault || expectedKind === ZodFirstPartyTypeKind.ZodEffects) {
+    return checkSchemaCompatibility(provided, inner(expected), path);
+  }
+
+  // Provided schemas that can produce anything cannot be checked statically
+  if (providedKind === ZodFirstPartyTypeKind.ZodAny || providedKind === ZodFirstPartyTypeKind.ZodUnknown) {
+    return [];
+  }
+  if (providedKind === ZodFirstPartyTypeKind.ZodOptional || providedKind === ZodFirstPartyTypeKind.ZodNullable) {
+    return [`${path}: may be missing but is required`];
+  }
+  if (providedKind === ZodFirstPartyTypeKind.ZodDefault || providedKind === ZodFirstPartyTypeKind.ZodEffects) {
+    return checkSchemaCompatibility(inner(provided), expected, path);
+  }
+
+  if (expectedKind === ZodFirstPartyTypeKind.ZodUnion) {
+    const options: ZodTypeAny[] = expected._def.options;
+    return options.some(option => checkSchemaCompatibility(provided, option, path).length === 0)
+      ? []
+      : [`${path}: matches none of the accepted types`];
+  }
+  if (providedKind === ZodFirstPartyTypeKind.ZodUnion) {
+    const options: ZodTypeAny[] = provided._def.options;
+    return options.reduce<string[]>(
+      (problems, option) => problems.concat(checkSchemaCompatibility(option, expected, path)),
+      []
+    );
+  }
+
+  if (expectedKind !== providedKind) {
+    // Literals and enums narrow the primitive they are made of
+    if (expectedKind === ZodFirstPartyTypeKind.ZodString && providedKind === ZodFirstPartyTypeKind.ZodEnum) return [];
+    if (expectedKind === ZodFirstPartyTypeKind.ZodLiteral || expectedKind === ZodFirstPartyTypeKind.ZodEnum) {
+      return [`${path}: expected ${describeKind(expectedKind)}, got ${describeKind(providedKind)}`];
+    }
+    if (providedKind === ZodFirstPartyTypeKind.ZodLiteral && typeof provided._def.value === primitiveOf(expectedKind)) {
+      return [];
+    }
+    return [`${path}: expected ${describeKind(expectedKind)}, got ${describeKind(providedKind)}`];
+  }
+
+  switch (expectedKind) {
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const expectedShape: Record<string, ZodTypeAny> = expected._def.shape();
+      const providedShape: Record<string, ZodTypeAny> = provided._def.shape();
+
+      return Object.keys(expectedShape).reduce<string[]>((problems, key) => {
+        const childPath = path === '(root)' ? key : `${path}.${key}`;
+        const expectedChild = expectedShape[key];
+
+        if (!(key in providedShape)) {
+          return expectedChild.isOptional()
+            ? problems
+            : problems.concat(`${childPath}: missing from the provided output`);
+        }
+
+        return problems.concat(checkSchemaCompatibility(providedShape[key], expectedChild, childPath));
+      }, []);
+    }
+    case ZodFirstPartyTypeKind.ZodArray:
+      return checkSchemaCompatibility(provided._def.type, expected._def.type, `${path}[]`);
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return checkSchemaCompatibility(provided._def.valueType, expected._def.valueType, `${path}{}`);
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return provided._def.value === expected._def.value
+        ? []
+        : [`${path}: expected literal ${JSON.stringify(expected._def.value)}`];
+    case ZodFirstPartyTypeKind.ZodEnum: {
+      const accepted: string[] = expected._def.values;
+      const missing = (provided._def.values as string[]).filter(value => !accepted.includes(value));
+      return missing.length === 0 ? [] : [`${path}: values not accepted: ${missing.join(', ')}`];
+    }
+    default:
+      return [];
+  }
+};
+
+function typeName(schema: ZodTypeAny): ZodFirstPartyTypeKind {
+  return schema._def.typeName;
+}
+
+function unwrap(schema: ZodTypeAny): ZodTypeAny {
+  const kind = typeName(schema);
+  return kind === ZodFirstPartyTypeKind.ZodOptional || kind === ZodFirstPartyTypeKind.ZodNullable
+    ? unwrap(schema._def.innerType)
+    : schema;
+}
+
+function inner(schema: ZodTypeAny): ZodTypeAny {
+  return typeName(schema) === ZodFirstPartyTypeKind.ZodEffects ? schema._def.schema : schema._def.innerType;
+}
+
+function describeKind(kind: ZodFirstPartyTypeKind): string {
+  return kind.replace(/^Zod/, '').toLowerCase();
+}
+
+function primitiveOf(kind: ZodFirstPartyTypeKind): string | undefined {
+  switch (kind) {
+    case ZodFirstPartyTypeKind.ZodString: return 'string';
+    case ZodFirstPartyTypeKind.ZodNumber: return 'number';
+    case ZodFirstPartyTypeKind.ZodBoolean: return 'boolean';
+    default: return undefined;
+  }
+}
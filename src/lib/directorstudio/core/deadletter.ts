@@ -0,0 +1,148 @@
+// MODULE: DirectorStudio Dead-Letter Queue
+// VERSION: 1.0.0
+// PURPOSE: Storage for pipeline inputs whose modules failed, kept for inspection and retry
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DeadLetterEntry } from './types';
+
+export interface DeadLetterFilter {
+  module?: string;
+  sessionId?: string;
+  userId?: string;
+  pipeline?: string;
+  limit?: number;
+}
+
+export interface DeadLetterStore {
+  save(entry: DeadLetterEntry): Promise<void>;
+  get(id: string): Promise<DeadLetterEntry | undefined>;
+  list(filter?: DeadLetterFilter): Promise<DeadLetterEntry[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+export class MemoryDeadLetterStore implements DeadLetterStore {
+  private entries: Map<string, DeadLetterEntry> = new Map();
+
+  constructor(private readonly maxEntries: number = 500) {}
+
+  public async save(entry: DeadLetterEntry): Promise<void> {
+    this.entries.delete(entry.id);
+    this.entries.set(entry.id, entry);
+
+    // Oldest entries are dropped first once the queue is full
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  public async get(id: string): Promise<DeadLetterEntry | undefined> {
+    return this.entries.get(id);
+  }
+
+  public async list(filter: DeadLetterFilter = {}): Promise<DeadLetterEntry[]> {
+    const entries = Array.from(this.entries.values())
+      .filter(entry => {
+        if (filter.module && entry.module !== filter.module) return false;
+        if (filter.sessionId && entry.sessionId !== filter.sessionId) return false;
+        if (filter.userId && entry.userId !== filter.userId) return false;
+        if (filter.pipeline && entry.pipeline !== filter.pipeline) return false;
+        return true;
+      })
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return filter.limit ? entries.slice(0, filter.limit) : entries;
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    return this.entries.delete(id);
+  }
+}
+
+/**
+ * Store entries in a Supabase table (migration 005) so they outlive the
+ * process that recorded them
+ */
+export class DatabaseDeadLetterStore implements DeadLetterStore {
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly table: string = 'pipeline_dead_letters'
+  ) {}
+
+  public async save(entry: DeadLetterEntry): Promise<void> {
+    const { error } = await this.client
+      .from(this.table)
+      .upsert({
+        id: entry.id,
+        run_id: entry.runId,
+        session_id: entry.sessionId,
+        user_id: entry.userId ?? null,
+        pipeline: entry.pipeline ?? null,
+        module: entry.module,
+        module_version: entry.moduleVersion ?? null,
+        error: entry.error,
+        attempts: entry.attempts,
+        payload: entry.payload ?? null,
+        created_at: entry.createdAt.toISOString()
+      }, { onConflict: 'id' });
+
+    if (error) throw new Error(`Failed to save dead letter: ${error.message}`);
+  }
+
+  public async get(id: string): Promise<DeadLetterEntry | undefined> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load dead letter: ${error.message}`);
+
+    return data ? toDeadLetterEntry(data) : undefined;
+  }
+
+  public async list(filter: DeadLetterFilter = {}): Promise<DeadLetterEntry[]> {
+    let builder = this.client.from(this.table).select('*');
+
+    if (filter.module) builder = builder.eq('module', filter.module);
+    if (filter.sessionId) builder = builder.eq('session_id', filter.sessionId);
+    if (filter.userId) builder = builder.eq('user_id', filter.userId);
+    if (filter.pipeline) builder = builder.eq('pipeline', filter.pipeline);
+
+    const { data, error } = await builder
+      .order('created_at', { ascending: false })
+      .limit(filter.limit || 1000);
+
+    if (error) throw new Error(`Failed to list dead letters: ${error.message}`);
+
+    return (data || []).map(toDeadLetterEntry);
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) throw new Error(`Failed to delete dead letter: ${error.message}`);
+
+    return (data?.length || 0) > 0;
+  }
+}
+
+function toDeadLetterEntry(row: Record<string, any>): DeadLetterEntry {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    sessionId: row.session_id,
+    userId: row.user_id ?? undefined,
+    pipeline: row.pipeline ?? undefined,
+    module: row.module,
+    moduleVersion: row.module_version ?? undefined,
+    error: row.error,
+    attempts: row.attempts,
+    payload: row.payload,
+    createdAt: new Date(row.created_at)
+  };
+}
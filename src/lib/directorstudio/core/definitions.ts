@@ -0,0 +1,145 @@
+// MODULE: DirectorStudio Pipeline Definitions
+// VERSION: 1.0.0
+// PURPOSE: Load named pipeline definitions from JSON/YAML and apply them to registered modules
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { ModuleConfig, PipelineDefinition, PipelineModule } from './types';
+import { describeIssues } from './contracts';
+import { parseDependency } from './semver';
+
+export class PipelineDefinitionError extends Error {
+  constructor(public readonly pipeline: string, public readonly problems: string[]) {
+    super(`Invalid pipeline definition ${pipeline}: ${problems.join('; ')}`);
+    this.name = 'PipelineDefinitionError';
+  }
+}
+
+const moduleConfigOverrideSchema = z.object({
+  enabled: z.boolean(),
+  priority: z.number(),
+  timeout: z.number().nonnegative(),
+  retries: z.number().int().nonnegative(),
+  retryBackoff: z.object({
+    initialDelay: z.number().nonnegative(),
+    multiplier: z.number().positive(),
+    maxDelay: z.number().nonnegative()
+  }),
+  metadata: z.record(z.any())
+}).partial().strict();
+
+export const pipelineDefinitionSchema = z.object({
+  description: z.string().optional(),
+  modules: z.array(z.object({
+    name: z.string().min(1),
+    version: z.string().optional(),
+    config: moduleConfigOverrideSchema.optional()
+  }).strict()).min(1),
+  edges: z.array(z.object({
+    from: z.string().min(1),
+    to: z.string().min(1)
+  }).strict()).optional()
+}).strict();
+
+export const pipelineDefinitionsFileSchema = z.object({
+  pipelines: z.record(pipelineDefinitionSchema)
+});
+
+/**
+ * Parse pipeline definitions from JSON or YAML text of the form { pipelines: { <name>: ... } }
+ */
+export const parsePipelineDefinitions = (
+  text: string,
+  format: 'json' | 'yaml'
+): Record<string, PipelineDefinition> => {
+  const raw = format === 'json' ? JSON.parse(text) : parseYaml(text);
+  const parsed = pipelineDefinitionsFileSchema.safeParse(raw);
+
+  if (!parsed.success) {
+    throw new PipelineDefinitionError('file', describeIssues(parsed.error.issues));
+  }
+
+  return parsed.data.pipelines;
+};
+
+/**
+ * Load pipeline definitions from a .json, .yaml or .yml file
+ */
+export const loadPipelineDefinitions = (filePath: string): Record<string, PipelineDefinition> => {
+  const extension = extname(filePath).toLowerCase();
+  if (!['.json', '.yaml', '.yml'].includes(extension)) {
+    throw new Error(`Unsupported pipeline definition file: ${filePath}`);
+  }
+
+  return parsePipelineDefinitions(
+    readFileSync(filePath, 'utf8'),
+    extension === '.json' ? 'json' : 'yaml'
+  );
+};
+
+/**
+ * List problems with a definition's shape that do not depend on registered modules
+ */
+export const checkDefinitionShape = (definition: PipelineDefinition): string[] => {
+  const problems: string[] = [];
+  const names = definition.modules.map(entry => entry.name);
+
+  names
+    .filter((name, index) => names.indexOf(name) !== index)
+    .forEach(name => problems.push(`module ${name} is listed more than once`));
+
+  (definition.edges || []).forEach(edge => {
+    if (edge.from === edge.to) {
+      problems.push(`edge ${edge.from} -> ${edge.to} points at itself`);
+    }
+    [edge.from, edge.to]
+      .filter(name => !names.includes(name))
+      .forEach(name => problems.push(`edge ${edge.from} -> ${edge.to} references unlisted module ${name}`));
+  });
+
+  return problems;
+};
+
+/**
+ * Get the module config and dependencies a definition gives a module; declared
+ * dependencies on modules outside the definition are dropped
+ */
+export const getDefinitionOverrides = (
+  definition: PipelineDefinition,
+  module: PipelineModule
+): { config: ModuleConfig; dependencies: string[] } => {
+  const names = definition.modules.map(entry => entry.name);
+  const index = names.indexOf(module.name);
+  const override = definition.modules[index]?.config || {};
+
+  return {
+    config: {
+      ...module.config,
+      priority: index + 1,
+      ...override,
+      metadata: { ...module.config.metadata, ...override.metadata }
+    },
+    dependencies: definition.edges
+      ? definition.edges.filter(edge => edge.to === module.name).map(edge => edge.from)
+      : module.dependencies.filter(dependency => names.includes(parseDependency(dependency).name))
+  };
+};
+
+/**
+ * Wrap a module so it reports the given config and dependencies. Everything
+ * else, including state, is shared with the registered module.
+ */
+export const withOverrides = <T extends PipelineModule>(
+  module: T,
+  overrides: { config: ModuleConfig; dependencies: string[] }
+): T => {
+  return new Proxy(module, {
+    get(target, property, receiver) {
+      if (property === 'config') return overrides.config;
+      if (property === 'dependencies') return overrides.dependencies;
+      return Reflect.get(target, property, receiver);
+    }
+  });
+};
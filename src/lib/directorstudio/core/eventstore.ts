@@ -0,0 +1,232 @@
+// MODULE: DirectorStudio Telemetry Event Store
+// VERSION: 1.0.0
+// PURPOSE: Queryable, retention-bounded storage for flushed telemetry events
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { TelemetryEvent } from './types';
+
+export interface TelemetryQuery {
+  module?: string;
+  type?: string;
+  userId?: string;
+  sessionId?: string;
+  traceId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+}
+
+export type TelemetryGroupBy = 'module' | 'type' | 'userId' | 'sessionId';
+
+/**
+ * Event count and duration percentiles (ms) for one group; percentiles are
+ * omitted when no event in the group reports a duration
+ */
+export interface TelemetryAggregate {
+  key: string;
+  count: number;
+  p50?: number;
+  p95?: number;
+}
+
+export interface TelemetryEventStore {
+  append(events: TelemetryEvent[]): Promise<void>;
+  // Newest first
+  query(query?: TelemetryQuery): Promise<TelemetryEvent[]>;
+  aggregate(query?: TelemetryQuery, groupBy?: TelemetryGroupBy): Promise<TelemetryAggregate[]>;
+  // Delete events older than the cutoff, returning how many were removed
+  purge(before: Date): Promise<number>;
+}
+
+export class MemoryTelemetryEventStore implements TelemetryEventStore {
+  private events: TelemetryEvent[] = [];
+
+  constructor(private readonly maxEvents: number = 10000) {}
+
+  public async append(events: TelemetryEvent[]): Promise<void> {
+    this.events.push(...events);
+
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+  }
+
+  public async query(query: TelemetryQuery = {}): Promise<TelemetryEvent[]> {
+    const events = this.events
+      .filter(event => matchesTelemetryQuery(event, query))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    return query.limit ? events.slice(0, query.limit) : events;
+  }
+
+  public async aggregate(query: TelemetryQuery = {}, groupBy?: TelemetryGroupBy): Promise<TelemetryAggregate[]> {
+    return aggregateTelemetryEvents(
+      this.events.filter(event => matchesTelemetryQuery(event, query)),
+      groupBy
+    );
+  }
+
+  public async purge(before: Date): Promise<number> {
+    const count = this.events.length;
+    this.events = this.events.filter(event => event.timestamp >= before);
+    return count - this.events.length;
+  }
+}
+
+/**
+ * Store events in a Supabase table; aggregates are computed by the
+ * telemetry_event_stats function from migration 004
+ */
+export class DatabaseTelemetryEventStore implements TelemetryEventStore {
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly table: string = 'telemetry_events'
+  ) {}
+
+  public async append(events: TelemetryEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    // Events re-sent after a failed flush keep their id, so duplicates are skipped
+    const { error } = await this.client
+      .from(this.table)
+      .upsert(events.map(event => ({
+        id: event.id,
+        type: event.type,
+        module: event.module,
+        level: event.level ?? null,
+        data: event.data,
+        user_id: event.userId ?? null,
+        session_id: event.sessionId ?? null,
+        trace_id: event.traceId ?? null,
+        span_id: event.spanId ?? null,
+        parent_span_id: event.parentSpanId ?? null,
+        duration_ms: getEventDuration(event) ?? null,
+        created_at: new Date(event.timestamp).toISOString()
+      })), { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) throw new Error(`Failed to store telemetry events: ${error.message}`);
+  }
+
+  public async query(query: TelemetryQuery = {}): Promise<TelemetryEvent[]> {
+    let builder = this.client.from(this.table).select('*');
+
+    if (query.module) builder = builder.eq('module', query.module);
+    if (query.type) builder = builder.eq('type', query.type);
+    if (query.userId) builder = builder.eq('user_id', query.userId);
+    if (query.sessionId) builder = builder.eq('session_id', query.sessionId);
+    if (query.traceId) builder = builder.eq('trace_id', query.traceId);
+    if (query.startDate) builder = builder.gte('created_at', query.startDate.toISOString());
+    if (query.endDate) builder = builder.lte('created_at', query.endDate.toISOString());
+
+    const { data, error } = await builder
+      .order('created_at', { ascending: false })
+      .limit(query.limit || 1000);
+
+    if (error) throw new Error(`Failed to query telemetry events: ${error.message}`);
+
+    return (data || []).map(row => ({
+      id: row.id,
+      type: row.type,
+      module: row.module,
+      level: row.level ?? undefined,
+      data: row.data || {},
+      timestamp: new Date(row.created_at),
+      userId: row.user_id ?? undefined,
+      sessionId: row.session_id ?? undefined,
+      traceId: row.trace_id ?? undefined,
+      spanId: row.span_id ?? undefined,
+      parentSpanId: row.parent_span_id ?? undefined
+    }));
+  }
+
+  public async aggregate(query: TelemetryQuery = {}, groupBy?: TelemetryGroupBy): Promise<TelemetryAggregate[]> {
+    const { data, error } = await this.client.rpc('telemetry_event_stats', {
+      p_group_by: groupBy ?? null,
+      p_module: query.module ?? null,
+      p_type: query.type ?? null,
+      p_user_id: query.userId ?? null,
+      p_session_id: query.sessionId ?? null,
+      p_trace_id: query.traceId ?? null,
+      p_start: query.startDate?.toISOString() ?? null,
+      p_end: query.endDate?.toISOString() ?? null
+    });
+
+    if (error) throw new Error(`Failed to aggregate telemetry events: ${error.message}`);
+
+    return ((data || []) as any[]).map(row => ({
+      key: row.key,
+      count: Number(row.count),
+      ...(row.p50 !== null ? { p50: row.p50, p95: row.p95 } : {})
+    }));
+  }
+
+  public async purge(before: Date): Promise<number> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .delete()
+      .lt('created_at', before.toISOString())
+      .select('id');
+
+    if (error) throw new Error(`Failed to purge telemetry events: ${error.message}`);
+
+    return data?.length || 0;
+  }
+}
+
+export const matchesTelemetryQuery = (event: TelemetryEvent, query: TelemetryQuery): boolean => {
+  if (query.module && event.module !== query.module) return false;
+  if (query.type && event.type !== query.type) return false;
+  if (query.userId && event.userId !== query.userId) return false;
+  if (query.sessionId && event.sessionId !== query.sessionId) return false;
+  if (query.traceId && event.traceId !== query.traceId) return false;
+  if (query.startDate && event.timestamp < query.startDate) return false;
+  if (query.endDate && event.timestamp > query.endDate) return false;
+  return true;
+};
+
+/**
+ * Count events per group with p50/p95 durations, largest groups first
+ */
+export const aggregateTelemetryEvents = (
+  events: TelemetryEvent[],
+  groupBy?: TelemetryGroupBy
+): TelemetryAggregate[] => {
+  const groups = new Map<string, TelemetryEvent[]>();
+
+  events.forEach(event => {
+    const key = groupBy ? event[groupBy] || '(none)' : 'all';
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(event);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => {
+      const durations = group
+        .map(getEventDuration)
+        .filter((duration): duration is number => duration !== undefined)
+        .sort((a, b) => a - b);
+
+      return {
+        key,
+        count: group.length,
+        ...(durations.length > 0 ? { p50: percentile(durations, 0.5), p95: percentile(durations, 0.95) } : {})
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+};
+
+/**
+ * The duration an event reports: span duration, module execution time or run time
+ */
+export const getEventDuration = (event: TelemetryEvent): number | undefined => {
+  return [event.data?.duration, event.data?.executionTime, event.data?.totalExecutionTime]
+    .find(value => typeof value === 'number');
+};
+
+// Linear interpolation between closest ranks, matching SQL percentile_cont
+function percentile(sorted: number[], fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
@@ -0,0 +1,79 @@
+// MODULE: DirectorStudio Middleware
+// VERSION: 1.0.0
+// PURPOSE: Built-in middleware for cross-cutting concerns around module invocations
+
+import { PipelineMiddleware, ModuleInvocation, ValidationResult } from './types';
+import { Telemetry } from './telemetry';
+import { DirectorStudioValidator } from './validator';
+import { isDependencyInput } from './contracts';
+
+/**
+ * Log the start, completion and failure of every module invocation
+ */
+export const createLoggingMiddleware = (telemetry?: Telemetry): PipelineMiddleware => ({
+  name: 'logging',
+
+  before(invocation) {
+    (telemetry || Telemetry.getInstance()).logEvent('module_invocation_started', invocation.module.name, {
+      version: invocation.module.version,
+      runId: invocation.runId,
+      action: getAction(invocation)
+    }, invocation.userId, invocation.sessionId);
+  },
+
+  after(invocation) {
+    (telemetry || Telemetry.getInstance()).logEvent('module_invocation_completed', invocation.module.name, {
+      version: invocation.module.version,
+      runId: invocation.runId,
+      action: getAction(invocation),
+      executionTime: Date.now() - invocation.startedAt
+    }, invocation.userId, invocation.sessionId);
+  },
+
+  error(invocation, error) {
+    (telemetry || Telemetry.getInstance()).logError(invocation.module.name, error, {
+      runId: invocation.runId,
+      action: getAction(invocation),
+      userId: invocation.userId,
+      sessionId: invocation.sessionId
+    });
+  }
+});
+
+/**
+ * Validate the module before it runs, and its input and output against its declared schemas
+ */
+export const createValidationMiddleware = (
+  validator: DirectorStudioValidator = DirectorStudioValidator.getInstance()
+): PipelineMiddleware => ({
+  name: 'validation',
+
+  async before({ module, input }) {
+    const moduleResult = await validator.validateModule(module);
+    if (!moduleResult.isValid && validator.getConfig().strictMode) {
+      throw new Error(`Module ${module.name} validation failed`);
+    }
+
+    // Modules with declared schemas reject inputs and outputs that break their contract
+    if (module.schemas) {
+      assertValid(await validator.validateData(module, input));
+    }
+  },
+
+  async after({ module }, output) {
+    if (module.schemas) {
+      assertValid(await validator.validateOutput(module, output));
+    }
+  }
+});
+
+function assertValid(result: ValidationResult): void {
+  if (!result.isValid) {
+    throw new Error(result.errors.map(issue => issue.message).join('; '));
+  }
+}
+
+function getAction(invocation: ModuleInvocation): string | undefined {
+  const request = isDependencyInput(invocation.input) ? invocation.input.input : invocation.input;
+  return request && typeof request === 'object' ? request.action : undefined;
+}
@@ -2,23 +2,161 @@
 // VERSION: 1.0.0
 // PURPOSE: Core pipeline execution engine for DirectorStudio modules
 
-import { PipelineModule, DirectorStudioConfig, ValidationResult } from './types';
-import { logEvent, logMetrics, logError } from './telemetry';
+import { createHash } from 'crypto';
+import {
+  PipelineModule,
+  DirectorStudioConfig,
+  ValidationResult,
+  ValidationError,
+  DependencyInput,
+  PipelineRunOptions,
+  PipelineMiddleware,
+  ModuleInvocation,
+  PipelineDefinition,
+  ModuleExecutionResult,
+  PipelineResult,
+  RetryBackoffConfig,
+  ModuleCheckpoint,
+  PipelineRunRecord,
+  PipelineReplayResult,
+  ReplayDifference,
+  ValidationMetrics,
+  DeadLetterEntry,
+  ModuleRegistry,
+  ModuleConfig,
+  PipelineStatus,
+  PipelineModuleStatus
+} from './types';
+import { Telemetry } from './telemetry';
 import { DirectorStudioValidator } from './validator';
 import { ContinuityEngine } from './continuity';
+import { ContinuityStorageAdapter } from './storage';
+import { startResourceMeasurement } from './metrics';
+import { PipelineRunStore, PipelineRunFilter, MemoryRunStore } from './runs';
+import { DeadLetterStore, DeadLetterFilter, MemoryDeadLetterStore } from './deadletter';
+import { compareVersions, isValidRange, parseDependency, satisfies } from './semver';
+import { PipelineCancelledError, cancellableDelay, raceCancellation } from './cancellation';
+import { createLoggingMiddleware, createValidationMiddleware } from './middleware';
+import { Span, withSpan } from './tracing';
+import {
+  PipelineDefinitionError,
+  checkDefinitionShape,
+  getDefinitionOverrides,
+  loadPipelineDefinitions,
+  withOverrides
+} from './definitions';
 
-export class PipelineEngine {
+interface RunOptions {
+  resume?: boolean;
+  replayOf?: string;
+  pinnedVersions?: Record<string, string>;
+  signal?: AbortSignal;
+  pipeline?: string;
+  retryOf?: string;
+  // Run this module and its dependents again; the rest of the graph is restored from checkpoints
+  rerunModule?: string;
+}
+
+// Error rates reported by getStatus cover the last hour by default
+const ERROR_RATE_WINDOW = 60 * 60 * 1000;
+
+// Attempts are counted per module and minute, for up to a day
+const ATTEMPT_BUCKET = 60 * 1000;
+const ATTEMPT_HISTORY = 24 * 60 * 60 * 1000;
+
+const DEFAULT_RETRY_BACKOFF: RetryBackoffConfig = {
+  initialDelay: 1000,
+  multiplier: 2,
+  maxDelay: 30000
+};
+
+export class ModuleTimeoutError extends Error {
+  constructor(public readonly module: string, public readonly timeout: number) {
+    super(`Module ${module} timed out after ${timeout}ms`);
+    this.name = 'ModuleTimeoutError';
+  }
+}
+
+export class ModuleRegistrationError extends Error {
+  constructor(
+    public readonly module: string,
+    public readonly version: string,
+    public readonly result: ValidationResult
+  ) {
+    super(
+      `Module ${module}@${version} failed validation: ` +
+      result.errors.map(error => `${error.code}: ${error.message}`).join('; ')
+    );
+    this.name = 'ModuleRegistrationError';
+  }
+}
+
+export class ModuleConfigError extends Error {
+  constructor(
+    public readonly module: string,
+    public readonly errors: ValidationError[]
+  ) {
+    super(
+      `Config for module ${module} failed validation: ` +
+      errors.map(error => `${error.code}: ${error.message}`).join('; ')
+    );
+    this.name = 'ModuleConfigError';
+  }
+}
+
+/**
+ * Components an engine runs with; the factory creates any that are not supplied
+ */
+export interface PipelineEngineComponents {
+  telemetry: Telemetry;
+  validator: DirectorStudioValidator;
+  continuity: ContinuityEngine;
+  storage: ContinuityStorageAdapter;
+  runStore: PipelineRunStore;
+  deadLetterStore: DeadLetterStore;
+}
+
+export class PipelineEngine implements ModuleRegistry {
   private static instance: PipelineEngine;
-  private modules: Map<string, PipelineModule> = new Map();
+  // Registered modules keyed by name, then version
+  private modules: Map<string, Map<string, PipelineModule>> = new Map();
+  private initializedModules: Set<PipelineModule> = new Set();
+  private inFlight: Map<PipelineModule, number> = new Map();
+  private retiredModules: Set<PipelineModule> = new Set();
+  // Attempt and failure counts keyed by module, then minute
+  private attemptCounts: Map<string, Map<number, { attempts: number; failures: number }>> = new Map();
   private config: DirectorStudioConfig;
   private validator: DirectorStudioValidator;
   private continuity: ContinuityEngine;
+  private scopedTelemetry?: Telemetry;
+  // Components created by the factory for this engine, destroyed on shutdown
+  private ownedComponents: Array<{ destroy(): void }> = [];
+  private ownsTelemetry: boolean = false;
+  private runStore: PipelineRunStore = new MemoryRunStore();
+  private deadLetterStore: DeadLetterStore = new MemoryDeadLetterStore();
+  private retryingDeadLetters: Set<string> = new Set();
+  private middleware: PipelineMiddleware[] = [];
+  private pipelines: Record<string, PipelineDefinition> = {};
   private isInitialized: boolean = false;
 
-  private constructor(config: DirectorStudioConfig) {
+  private constructor(
+    config: DirectorStudioConfig,
+    components: Partial<PipelineEngineComponents> = {}
+  ) {
     this.config = config;
-    this.validator = DirectorStudioValidator.getInstance(config.validation);
-    this.continuity = ContinuityEngine.getInstance(config.continuity);
+    this.scopedTelemetry = components.telemetry;
+    this.validator = components.validator || DirectorStudioValidator.getInstance(config.validation);
+    this.continuity = components.continuity || ContinuityEngine.getInstance(config.continuity);
+    if (components.runStore) {
+      this.runStore = components.runStore;
+    }
+    if (components.deadLetterStore) {
+      this.deadLetterStore = components.deadLetterStore;
+    }
+    this.middleware = [
+      createLoggingMiddleware(components.telemetry),
+      createValidationMiddleware(this.validator)
+    ];
   }
 
   public static getInstance(config?: DirectorStudioConfig): PipelineEngine {
@@ -31,202 +169,548 @@ export class PipelineEngine {
     return PipelineEngine.instance;
   }
 
+  /**
+   * Create an independent engine with its own registry, config, validator,
+   * continuity and telemetry. Supplied components are shared, not owned.
+   */
+  public static create(
+    config: DirectorStudioConfig,
+    components: Partial<PipelineEngineComponents> = {}
+  ): PipelineEngine {
+    const telemetry = components.telemetry || Telemetry.create(config.telemetry);
+    const validator = components.validator || DirectorStudioValidator.create(config.validation, telemetry);
+    const continuity = components.continuity ||
+      ContinuityEngine.create(config.continuity, components.storage, telemetry);
+
+    const engine = new PipelineEngine(config, {
+      telemetry,
+      validator,
+      continuity,
+      runStore: components.runStore,
+      deadLetterStore: components.deadLetterStore
+    });
+
+    if (!components.continuity) engine.ownedComponents.push(continuity);
+    engine.ownsTelemetry = !components.telemetry;
+    return engine;
+  }
+
   /**
    * Initialize the pipeline engine
    */
   public async initialize(): Promise<void> {
     if (this.isInitialized) {
-      logEvent('pipeline_already_initialized', 'PipelineEngine', {});
+      this.telemetry.logEvent('pipeline_already_initialized', 'PipelineEngine', {});
       return;
     }
 
-    logEvent('pipeline_initialization_started', 'PipelineEngine', {
+    this.telemetry.logEvent('pipeline_initialization_started', 'PipelineEngine', {
       moduleCount: this.modules.size
     });
 
     try {
-      // Initialize all modules in dependency order
-      const sortedModules = this.sortModulesByDependencies();
+      await this.checkIntegration();
+      this.checkContracts();
+      this.loadPipelines();
+
+      // Initialize all modules in dependency order, including every registered version
+      const sortedModules = this.sortModulesByDependencies(this.getLatestModules());
       
-      for (const module of sortedModules) {
-        if (module.config.enabled) {
-          await this.initializeModule(module);
+      for (const latest of sortedModules) {
+        for (const module of this.getModuleVersions(latest.name)) {
+          if (module.config.enabled) {
+            await this.initializeModule(module);
+          }
         }
       }
 
       this.isInitialized = true;
       
-      logEvent('pipeline_initialization_completed', 'PipelineEngine', {
-        initializedModules: sortedModules.length
+      this.telemetry.logEvent('pipeline_initialization_completed', 'PipelineEngine', {
+        initializedModules: this.initializedModules.size
       });
     } catch (error) {
-      logError('PipelineEngine', error as Error, { operation: 'initialize' });
+      this.telemetry.logError('PipelineEngine', error as Error, { operation: 'initialize' });
       throw error;
     }
   }
 
   /**
    * Register a module with the pipeline
+   *
+   * Runs structural, integration and module config validation first and throws
+   * a ModuleRegistrationError for invalid modules. Once the engine is
+   * initialized, dependencies are also checked against the registered modules;
+   * outside strict mode those problems are returned as warnings. With dryRun
+   * the validation result is returned without registering anything.
    */
-  public registerModule(module: PipelineModule): void {
-    // Validate module structure before registration
-    this.validator.validateStructure(module).then(result => {
-      if (!result.isValid) {
-        logError('PipelineEngine', new Error('Module validation failed'), {
-          module: module.name,
-          errors: result.errors
-        });
-        throw new Error(`Module ${module.name} failed validation`);
-      }
-    });
+  public async registerModule(
+    module: PipelineModule,
+    options: { dryRun?: boolean } = {}
+  ): Promise<ValidationResult> {
+    // A re-registered module may have changed even if its version did not
+    this.validator.invalidateModule(module.name, module.version);
+    let result = await this.validator.validateModule(module);
 
-    this.modules.set(module.name, module);
+    // Before startup, dependencies may still be registered later
+    if (this.isInitialized) {
+      result = await this.addRegistryChecks(module, result, this.config.validation.strictMode);
+    }
+
+    if (options.dryRun) {
+      this.telemetry.logEvent('module_registration_dry_run', 'PipelineEngine', {
+        module: module.name,
+        version: module.version,
+        isValid: result.isValid,
+        errors: result.errors.length,
+        warnings: result.warnings.length
+      });
+      return result;
+    }
+
+    if (!result.isValid) {
+      const error = new ModuleRegistrationError(module.name, module.version, result);
+      this.telemetry.logError('PipelineEngine', error, {
+        module: module.name,
+        version: module.version,
+        errors: result.errors
+      });
+      throw error;
+    }
+
+    // Versions live side by side; only re-registering the same version replaces it
+    const versions = this.modules.get(module.name) || new Map<string, PipelineModule>();
+    const replaced = versions.get(module.version);
+    versions.set(module.version, module);
+    this.modules.set(module.name, versions);
+
+    if (replaced && replaced !== module) {
+      this.retireModule(replaced);
+    }
+
+    // Modules registered after startup are routed to once they finish initializing
+    if (this.isInitialized && module.config.enabled) {
+      this.initializeModule(module).catch(() => {
+        // Already logged by initializeModule; the previous version keeps serving
+      });
+    }
     
-    logEvent('module_registered', 'PipelineEngine', {
+    this.telemetry.logEvent('module_registered', 'PipelineEngine', {
       module: module.name,
       version: module.version,
-      dependencies: module.dependencies
+      dependencies: module.dependencies,
+      registeredVersions: Array.from(versions.keys())
     });
+
+    return result;
   }
 
   /**
    * Unregister a module from the pipeline
+   *
+   * Removes one version, or every version when none is given. Versions still
+   * used by in-flight runs are cleaned up once those runs finish.
    */
-  public unregisterModule(moduleName: string): void {
-    if (this.modules.has(moduleName)) {
-      const module = this.modules.get(moduleName)!;
-      
-      // Cleanup module before removal
-      module.cleanup().catch(error => {
-        logError('PipelineEngine', error as Error, {
-          module: moduleName,
-          operation: 'cleanup'
-        });
-      });
+  public unregisterModule(moduleName: string, version?: string): void {
+    const versions = this.modules.get(moduleName);
+    if (!versions) return;
+
+    const removed = version
+      ? [versions.get(version)].filter((module): module is PipelineModule => !!module)
+      : Array.from(versions.values());
+
+    removed.forEach(module => {
+      versions.delete(module.version);
+      this.validator.invalidateModule(module.name, module.version);
+      this.retireModule(module);
+    });
 
+    if (versions.size === 0) {
       this.modules.delete(moduleName);
-      
-      logEvent('module_unregistered', 'PipelineEngine', {
-        module: moduleName
+    }
+
+    if (removed.length > 0) {
+      this.telemetry.logEvent('module_unregistered', 'PipelineEngine', {
+        module: moduleName,
+        versions: removed.map(module => module.version)
       });
     }
   }
 
   /**
    * Process data through the pipeline
+   *
+   * Modules run as a dependency graph: a module starts once every module it
+   * depends on has completed, so independent modules run in parallel. Modules
+   * without dependencies receive the pipeline input; dependent modules receive
+   * the pipeline input together with the named outputs of their dependencies.
+   *
+   * Aborting options.signal stops the run: modules not yet started are
+   * cancelled, running modules receive the signal and have their partial work
+   * cleaned up, and the call rejects with a PipelineCancelledError.
+   *
+   * options.pipeline runs a named pipeline definition: only its modules run,
+   * with its config overrides and edges.
    */
   public async process(
     input: any,
     sessionId: string,
-    userId?: string
-  ): Promise<any> {
+    userId?: string,
+    options: PipelineRunOptions = {}
+  ): Promise<PipelineResult> {
+    if (!this.isInitialized) {
+      throw new Error('Pipeline not initialized');
+    }
+
+    return this.runPipeline(input, sessionId, userId, {
+      signal: options.signal,
+      pipeline: options.pipeline
+    });
+  }
+
+  /**
+   * Resume the last pipeline run of a session
+   *
+   * Re-runs the session's stored input, reusing the checkpointed output of every
+   * module whose input is unchanged since it last completed.
+   */
+  public async resume(sessionId: string, options: PipelineRunOptions = {}): Promise<PipelineResult> {
+    if (!this.isInitialized) {
+      throw new Error('Pipeline not initialized');
+    }
+
+    const context = await this.continuity.loadContext(sessionId);
+    if (!('pipeline:input' in context.state)) {
+      throw new Error(`No pipeline run to resume for session ${sessionId}`);
+    }
+
+    this.telemetry.logEvent('pipeline_resume_requested', 'PipelineEngine', {
+      sessionId,
+      userId: context.userId
+    });
+
+    // Finish on the module versions the interrupted run started with
+    return this.runPipeline(context.state['pipeline:input'], sessionId, context.userId, {
+      resume: true,
+      pinnedVersions: context.state['pipeline:moduleVersions'],
+      pipeline: context.state['pipeline:name'] || undefined,
+      signal: options.signal
+    });
+  }
+
+  /**
+   * Replay a stored run against the currently registered module versions
+   *
+   * The replay runs in its own session so the original session is untouched,
+   * and reports every module whose version, status or output changed.
+   */
+  public async replay(runId: string): Promise<PipelineReplayResult> {
+    if (!this.isInitialized) {
+      throw new Error('Pipeline not initialized');
+    }
+
+    const run = await this.runStore.get(runId);
+    if (!run) {
+      throw new Error(`Pipeline run ${runId} not found`);
+    }
+
+    const replaySessionId = `replay_${runId}_${Date.now()}`;
+    const result = await this.runPipeline(run.input, replaySessionId, run.userId, {
+      replayOf: runId,
+      pipeline: run.pipeline
+    });
+    const differences = this.diffRuns(run, result);
+
+    this.telemetry.logEvent('pipeline_replay_completed', 'PipelineEngine', {
+      runId,
+      replayRunId: result.runId,
+      differences: differences.length,
+      changedModules: differences.map(difference => difference.module)
+    });
+
+    return {
+      replayOf: runId,
+      result,
+      differences
+    };
+  }
+
+  /**
+   * List stored pipeline runs, newest first
+   */
+  public async listRuns(filter?: PipelineRunFilter): Promise<PipelineRunRecord[]> {
+    return this.runStore.list(filter);
+  }
+
+  /**
+   * Get a stored pipeline run
+   */
+  public async getRun(runId: string): Promise<PipelineRunRecord | undefined> {
+    return this.runStore.get(runId);
+  }
+
+  /**
+   * Add middleware around every module invocation
+   *
+   * before hooks run in registration order, after and error hooks in reverse,
+   * so the first middleware wraps all the others. The built-in "logging" and
+   * "validation" middleware are registered by default.
+   */
+  public use(middleware: PipelineMiddleware): void {
+    if (this.middleware.some(existing => existing.name === middleware.name)) {
+      throw new Error(`Middleware ${middleware.name} is already registered`);
+    }
+
+    this.middleware.push(middleware);
+    this.telemetry.logEvent('middleware_registered', 'PipelineEngine', {
+      middleware: middleware.name,
+      position: this.middleware.length - 1
+    });
+  }
+
+  /**
+   * Remove middleware by name
+   */
+  public removeMiddleware(name: string): boolean {
+    const index = this.middleware.findIndex(middleware => middleware.name === name);
+    if (index === -1) return false;
+
+    this.middleware.splice(index, 1);
+    this.telemetry.logEvent('middleware_removed', 'PipelineEngine', { middleware: name });
+    return true;
+  }
+
+  /**
+   * Get registered middleware in execution order
+   */
+  public getMiddleware(): PipelineMiddleware[] {
+    return [...this.middleware];
+  }
+
+  /**
+   * Replace the store used for pipeline run history
+   */
+  public setRunStore(store: PipelineRunStore): void {
+    this.runStore = store;
+  }
+
+  /**
+   * List inputs whose modules failed in non-strict mode, newest first
+   */
+  public async listDeadLetters(filter?: DeadLetterFilter): Promise<DeadLetterEntry[]> {
+    return this.deadLetterStore.list(filter);
+  }
+
+  /**
+   * Get a dead-lettered input
+   */
+  public async getDeadLetter(id: string): Promise<DeadLetterEntry | undefined> {
+    return this.deadLetterStore.get(id);
+  }
+
+  /**
+   * Retry a dead-lettered module in its original session
+   *
+   * The module and the modules that depend on it run again; everything upstream
+   * is restored from the session's checkpoints. The entry is removed once they
+   * complete, replaced by the new failure otherwise, and left untouched when the
+   * retry could not run, e.g. in strict mode or after cancellation.
+   */
+  public async retryDeadLetter(id: string, options: PipelineRunOptions = {}): Promise<PipelineResult> {
     if (!this.isInitialized) {
       throw new Error('Pipeline not initialized');
     }
 
+    const entry = await this.deadLetterStore.get(id);
+    if (!entry) {
+      throw new Error(`Dead letter ${id} not found`);
+    }
+
+    if (this.retryingDeadLetters.has(id)) {
+      throw new Error(`Dead letter ${id} is already being retried`);
+    }
+
+    this.retryingDeadLetters.add(id);
+    try {
+      const result = await this.runPipeline(entry.payload, entry.sessionId, entry.userId, {
+        resume: true,
+        pipeline: entry.pipeline,
+        signal: options.signal,
+        retryOf: id,
+        rerunModule: entry.module
+      });
+      await this.settleDeadLetter(entry, result);
+      return result;
+    } finally {
+      this.retryingDeadLetters.delete(id);
+    }
+  }
+
+  /**
+   * Drop a dead-lettered input without retrying it
+   */
+  public async discardDeadLetter(id: string): Promise<boolean> {
+    const discarded = await this.deadLetterStore.delete(id);
+    if (discarded) {
+      this.telemetry.logEvent('dead_letter_discarded', 'PipelineEngine', { id });
+    }
+    return discarded;
+  }
+
+  /**
+   * Replace the store used for the dead-letter queue
+   */
+  public setDeadLetterStore(store: DeadLetterStore): void {
+    this.deadLetterStore = store;
+  }
+
+  /**
+   * Execute a run inside a span that parents its module spans
+   */
+  private runPipeline(
+    input: any,
+    sessionId: string,
+    userId: string | undefined,
+    options: RunOptions
+  ): Promise<PipelineResult> {
+    return withSpan(`pipeline ${options.pipeline || 'default'}`, span =>
+      this.executeRun(input, sessionId, userId, options, span), {
+      attributes: {
+        module: 'PipelineEngine',
+        sessionId,
+        pipeline: options.pipeline,
+        resume: options.resume || false,
+        replayOf: options.replayOf,
+        retryOf: options.retryOf
+      },
+      telemetry: this.telemetry
+    });
+  }
+
+  private async executeRun(
+    input: any,
+    sessionId: string,
+    userId: string | undefined,
+    options: RunOptions,
+    span: Span
+  ): Promise<PipelineResult> {
     const startTime = Date.now();
-    let currentData = input;
+    const resume = options.resume || false;
+    const results: Record<string, ModuleExecutionResult> = {};
+    const definition = options.pipeline ? this.getPipelineDefinition(options.pipeline) : undefined;
+
+    if (options.pipeline && !definition) {
+      throw new Error(`Unknown pipeline: ${options.pipeline}`);
+    }
+
+    // Snapshot the module versions so registrations mid-run don't affect this run
+    const modules = this.resolveModules(options.pinnedVersions, definition);
+    const moduleVersions = this.describeVersions(modules);
+    const fullGraph = definition ? this.applyDefinition(modules, definition) : modules;
+    const { graph, rerun } = options.rerunModule
+      ? this.selectRerunGraph(fullGraph, options.rerunModule)
+      : { graph: fullGraph, rerun: new Set<string>() };
+    this.acquireModules(modules);
+
+    const run: PipelineRunRecord = {
+      runId: this.generateRunId(),
+      sessionId,
+      userId,
+      status: 'running',
+      input,
+      results,
+      moduleVersions,
+      startedAt: new Date(startTime),
+      resumed: resume,
+      replayOf: options.replayOf,
+      pipeline: options.pipeline,
+      traceId: span.traceId
+    };
+    span.setAttributes({ runId: run.runId });
 
-    logEvent('pipeline_processing_started', 'PipelineEngine', {
+    this.telemetry.logEvent('pipeline_processing_started', 'PipelineEngine', {
+      runId: run.runId,
       sessionId,
       userId,
-      inputType: typeof input
+      inputType: typeof input,
+      pipeline: options.pipeline,
+      resume
     });
 
     try {
-      // Get continuity context
-      const context = this.continuity.getContext(sessionId, userId);
+      await this.saveRun(run);
+
+      // Get continuity context, picking up state persisted by other instances
+      await this.continuity.loadContext(sessionId, userId);
       
       // Update context with processing start
       this.continuity.updateState(sessionId, {
         'pipeline:processing': true,
+        'pipeline:completed': false,
+        'pipeline:cancelled': false,
         'pipeline:startTime': startTime,
+        'pipeline:runId': run.runId,
+        'pipeline:name': options.pipeline || null,
+        'pipeline:moduleVersions': moduleVersions,
         'pipeline:input': input
       }, 'PipelineEngine');
 
-      // Process through modules in priority order
-      const sortedModules = this.getModulesByPriority();
-      
-      for (const module of sortedModules) {
-        if (!module.config.enabled) continue;
-
-        const moduleStartTime = Date.now();
-        
-        try {
-          // Validate module before processing
-          const validationResult = await this.validator.validateModule(module);
-          if (!validationResult.isValid && this.config.validation.strictMode) {
-            throw new Error(`Module ${module.name} validation failed`);
-          }
-
-          // Process data through module
-          currentData = await module.process(currentData);
-          
-          const moduleExecutionTime = Date.now() - moduleStartTime;
-          
-          // Log metrics
-          logMetrics(module.name, {
-            executionTime: moduleExecutionTime,
-            memoryUsage: 0, // Would be calculated in real implementation
-            cpuUsage: 0,    // Would be calculated in real implementation
-            throughput: 1   // Would be calculated based on data size
-          });
+      await this.executeGraph(graph, input, run.runId, sessionId, userId, resume, results, options.signal, rerun);
 
-          // Update continuity context
-          this.continuity.updateState(sessionId, {
-            [`${module.name}:lastProcessed`]: new Date(),
-            [`${module.name}:executionTime`]: moduleExecutionTime
-          }, module.name);
-
-          // Add event to history
-          this.continuity.addEvent(sessionId, 'module_processed', {
-            module: module.name,
-            executionTime: moduleExecutionTime,
-            dataSize: JSON.stringify(currentData).length
-          }, module.name);
-
-        } catch (error) {
-          logError('PipelineEngine', error as Error, {
-            module: module.name,
-            sessionId,
-            userId
-          });
-          
-          // Update context with error
-          this.continuity.updateState(sessionId, {
-            [`${module.name}:error`]: error instanceof Error ? error.message : 'Unknown error',
-            [`${module.name}:errorTime`]: new Date()
-          }, module.name);
-
-          if (this.config.validation.strictMode) {
-            throw error;
-          }
-        }
+      if (options.signal?.aborted) {
+        throw new PipelineCancelledError(run.runId, results);
       }
 
       const totalExecutionTime = Date.now() - startTime;
+      // A retry settles its own entry instead of queueing new ones
+      if (!options.retryOf) {
+        await this.deadLetterFailures(run, modules);
+      }
       
       // Update final context state
       this.continuity.updateState(sessionId, {
         'pipeline:processing': false,
         'pipeline:completed': true,
         'pipeline:totalTime': totalExecutionTime,
-        'pipeline:output': currentData
+        'pipeline:output': results
       }, 'PipelineEngine');
 
-      logEvent('pipeline_processing_completed', 'PipelineEngine', {
+      this.telemetry.logEvent('pipeline_processing_completed', 'PipelineEngine', {
+        runId: run.runId,
         sessionId,
         userId,
         totalExecutionTime,
-        outputType: typeof currentData
+        completedModules: Object.values(results).filter(r => r.status === 'completed').length,
+        restoredModules: Object.values(results).filter(r => r.fromCheckpoint).length,
+        failedModules: Object.values(results).filter(r => r.status === 'failed').length
+      });
+
+      await this.continuity.flush(sessionId);
+      await this.saveRun({
+        ...run,
+        status: 'completed',
+        completedAt: new Date(),
+        totalExecutionTime
       });
 
-      return currentData;
+      return {
+        runId: run.runId,
+        sessionId,
+        results,
+        moduleVersions,
+        totalExecutionTime
+      };
 
     } catch (error) {
       const totalExecutionTime = Date.now() - startTime;
+
+      if (error instanceof PipelineCancelledError) {
+        await this.cancelRun(run, results, totalExecutionTime);
+        throw error.runId ? error : new PipelineCancelledError(run.runId, results);
+      }
       
-      logError('PipelineEngine', error as Error, {
+      this.telemetry.logError('PipelineEngine', error as Error, {
+        runId: run.runId,
         sessionId,
         userId,
         totalExecutionTime
@@ -239,47 +723,118 @@ export class PipelineEngine {
         'pipeline:processing': false
       }, 'PipelineEngine');
 
+      await this.continuity.flush(sessionId);
+      await this.saveRun({
+        ...run,
+        status: 'failed',
+        completedAt: new Date(),
+        totalExecutionTime,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
       throw error;
+    } finally {
+      this.releaseModules(modules);
     }
   }
 
   /**
-   * Get all registered modules
+   * Get the newest registered version of every module
    */
   public getModules(): PipelineModule[] {
-    return Array.from(this.modules.values());
+    return Array.from(this.getLatestModules().values());
+  }
+
+  /**
+   * Get module by name, optionally at a specific version
+   */
+  public getModule(name: string, version?: string): PipelineModule | undefined {
+    if (version) {
+      return this.modules.get(name)?.get(version);
+    }
+    return this.getModuleVersions(name)[0];
+  }
+
+  /**
+   * Get every registered version of a module, newest first
+   */
+  public getModuleVersions(name: string): PipelineModule[] {
+    return Array.from(this.modules.get(name)?.values() || [])
+      .sort((a, b) => compareVersions(b.version, a.version));
   }
 
   /**
-   * Get module by name
+   * Get every loaded pipeline definition by name
    */
-  public getModule(name: string): PipelineModule | undefined {
-    return this.modules.get(name);
+  public getPipelineDefinitions(): Record<string, PipelineDefinition> {
+    return { ...this.pipelines };
   }
 
   /**
-   * Validate all modules
+   * Get a pipeline definition by name
+   */
+  public getPipelineDefinition(name: string): PipelineDefinition | undefined {
+    return this.pipelines[name];
+  }
+
+  /**
+   * Validate all modules, including their dependencies on each other
    */
   public async validateAllModules(): Promise<Map<string, ValidationResult>> {
     const results = new Map<string, ValidationResult>();
     
-    for (const [name, module] of this.modules) {
+    for (const [name, module] of this.getLatestModules()) {
       const result = await this.validator.validateModule(module);
-      results.set(name, result);
+      results.set(name, await this.addRegistryChecks(module, result, true));
     }
 
     return results;
   }
 
+  /**
+   * Snapshot of registered modules, their last validation and error rates,
+   * and the number of active continuity contexts
+   */
+  public async getStatus(errorRateWindow: number = ERROR_RATE_WINDOW): Promise<PipelineStatus> {
+    errorRateWindow = Math.min(errorRateWindow, ATTEMPT_HISTORY);
+    const since = Date.now() - errorRateWindow;
+    const modules = Array.from(this.getLatestModules().values())
+      .map(module => this.getModuleStatus(module, since));
+
+    return {
+      initialized: this.isInitialized,
+      modules,
+      activeContexts: this.continuity.getActiveContexts().length,
+      errorRateWindow,
+      timestamp: new Date()
+    };
+  }
+
   /**
    * Update configuration
+   *
+   * Module entries are applied to every registered version of the module at
+   * runtime; enabling a module after startup initializes it. The new config is
+   * checked against the registry first and rejected with a ModuleConfigError
+   * if it breaks the module or its dependents. Registered modules are replaced
+   * by copies, so runs already in progress keep the config they started with.
    */
-  public updateConfig(config: Partial<DirectorStudioConfig>): void {
-    this.config = { ...this.config, ...config };
+  public async updateConfig(config: Partial<DirectorStudioConfig>): Promise<void> {
+    const replacements = await this.prepareModuleConfigs(config.modules || {});
+
+    this.config = {
+      ...this.config,
+      ...config,
+      modules: { ...this.config.modules, ...config.modules }
+    };
     
     // Update sub-components
     this.validator.updateConfig(config.validation || {});
     this.continuity.updateConfig(config.continuity || {});
+
+    Object.entries(config.modules || {}).forEach(([name, moduleConfig]) => {
+      this.applyModuleConfig(name, moduleConfig, replacements);
+    });
   }
 
   /**
@@ -293,16 +848,23 @@ export class PipelineEngine {
    * Shutdown the pipeline engine
    */
   public async shutdown(): Promise<void> {
-    logEvent('pipeline_shutdown_started', 'PipelineEngine', {});
+    this.telemetry.logEvent('pipeline_shutdown_started', 'PipelineEngine', {});
 
-    // Cleanup all modules
-    for (const [name, module] of this.modules) {
+    // Cleanup all modules, every version
+    const allModules = Array.from(this.modules.values())
+      .reduce<PipelineModule[]>((all, versions) => all.concat(Array.from(versions.values())), []);
+
+    for (const module of allModules) {
       try {
         await module.cleanup();
-        logEvent('module_cleanup_completed', 'PipelineEngine', { module: name });
+        this.telemetry.logEvent('module_cleanup_completed', 'PipelineEngine', {
+          module: module.name,
+          version: module.version
+        });
       } catch (error) {
-        logError('PipelineEngine', error as Error, {
-          module: name,
+        this.telemetry.logError('PipelineEngine', error as Error, {
+          module: module.name,
+          version: module.version,
           operation: 'cleanup'
         });
       }
@@ -310,57 +872,1216 @@ export class PipelineEngine {
 
     // Clear modules
     this.modules.clear();
+    this.initializedModules.clear();
+    this.retiredModules.clear();
     this.isInitialized = false;
 
-    logEvent('pipeline_shutdown_completed', 'PipelineEngine', {});
-  }
+    this.telemetry.logEvent('pipeline_shutdown_completed', 'PipelineEngine', {});
 
-  private async initializeModule(module: PipelineModule): Promise<void> {
-    try {
-      await module.initialize();
-      logEvent('module_initialized', 'PipelineEngine', {
-        module: module.name,
-        version: module.version
-      });
-    } catch (error) {
-      logError('PipelineEngine', error as Error, {
-        module: module.name,
-        operation: 'initialize'
-      });
-      throw error;
+    this.ownedComponents.forEach(component => component.destroy());
+    this.ownedComponents = [];
+
+    // Deliver buffered telemetry last so the shutdown is still reported; shared
+    // telemetry is flushed but left running for other engines
+    if (this.ownsTelemetry) {
+      await this.telemetry.shutdown();
+    } else {
+      await this.telemetry.flush();
     }
   }
 
-  private sortModulesByDependencies(): PipelineModule[] {
-    const modules = Array.from(this.modules.values());
-    const sorted: PipelineModule[] = [];
-    const visited = new Set<string>();
-    const visiting = new Set<string>();
+  private get telemetry(): Telemetry {
+    return this.scopedTelemetry || Telemetry.getInstance();
+  }
 
-    const visit = (module: PipelineModule) => {
-      if (visiting.has(module.name)) {
-        throw new Error(`Circular dependency detected involving module: ${module.name}`);
-      }
-      if (visited.has(module.name)) {
-        return;
-      }
+  private async executeGraph(
+    modules: Map<string, PipelineModule>,
+    input: any,
+    runId: string,
+    sessionId: string,
+    userId: string | undefined,
+    resume: boolean,
+    results: Record<string, ModuleExecutionResult>,
+    signal?: AbortSignal,
+    rerun: Set<string> = new Set()
+  ): Promise<void> {
+    // Fails fast on circular dependencies before anything runs
+    this.sortModulesByDependencies(modules);
 
-      visiting.add(module.name);
+    const enabledModules = this.getModulesByPriority(modules);
+    const enabledNames = new Set(enabledModules.map(module => module.name));
+    const runs = new Map<string, Promise<ModuleExecutionResult>>();
 
-      // Visit dependencies first
-      for (const depName of module.dependencies) {
-        const depModule = this.modules.get(depName);
-        if (depModule) {
-          visit(depModule);
-        }
-      }
+    const run = (module: PipelineModule): Promise<ModuleExecutionResult> => {
+      if (!runs.has(module.name)) {
+        runs.set(module.name, (async () => {
+          const dependencies = module.dependencies
+            .map(parseDependency)
+            .filter(dep => enabledNames.has(dep.name));
+          const dependencyResults = await Promise.all(
+            dependencies.map(dep => run(modules.get(dep.name)!))
+          );
+          const incompatible = dependencies
+            .filter(dep => !satisfies(modules.get(dep.name)!.version, dep.range))
+            .map(dep => `${dep.name}@${dep.range} (active: ${modules.get(dep.name)!.version})`);
 
-      visiting.delete(module.name);
-      visited.add(module.name);
-      sorted.push(module);
-    };
+          let result: ModuleExecutionResult;
 
-    for (const module of modules) {
+          if (incompatible.length > 0) {
+            result = this.rejectIncompatibleModule(module, incompatible, sessionId);
+            this.saveCheckpoint(module, null, result, sessionId);
+          } else if (signal?.aborted) {
+            // Keep any earlier checkpoint so a resumed run can still reuse it
+            result = this.cancelModule(module, sessionId, 0, 0);
+          } else if (dependencyResults.every(r => r.status === 'completed')) {
+            // Root modules get the pipeline input, dependent modules get their dependencies' outputs
+            const moduleInput = module.dependencies.length === 0
+              ? input
+              : this.buildDependencyInput(input, dependencyResults);
+            const inputHash = this.hashInput(moduleInput);
+
+            result = (resume && !rerun.has(module.name) && this.restoreCheckpoint(module, inputHash, sessionId))
+              || await this.executeModule(module, moduleInput, runId, sessionId, userId, signal);
+            this.saveCheckpoint(module, inputHash, result, sessionId);
+          } else {
+            result = this.skipModule(module, dependencyResults, sessionId);
+            this.saveCheckpoint(module, null, result, sessionId);
+          }
+
+          results[module.name] = result;
+          return result;
+        })());
+      }
+      return runs.get(module.name)!;
+    };
+
+    await Promise.all(enabledModules.map(module => run(module)));
+  }
+
+  private async executeModule(
+    module: PipelineModule,
+    moduleInput: any,
+    runId: string,
+    sessionId: string,
+    userId?: string,
+    signal?: AbortSignal
+  ): Promise<ModuleExecutionResult> {
+    const measurement = startResourceMeasurement();
+    const invocation: ModuleInvocation = {
+      module,
+      input: moduleInput,
+      sessionId,
+      userId,
+      runId,
+      signal,
+      startedAt: Date.now(),
+      state: {}
+    };
+    let attempts = 0;
+
+    try {
+      const output = await withSpan(`module ${module.name}`, () =>
+        this.runMiddleware(invocation, () =>
+          this.invokeWithRetries(module, invocation.input, sessionId, signal, attempt => {
+            attempts = attempt;
+          })
+        ), {
+        attributes: { module: module.name, version: module.version, runId, sessionId },
+        telemetry: this.telemetry
+      });
+      
+      const metrics = measurement.stop(moduleInput, output);
+      const moduleExecutionTime = metrics.executionTime;
+      
+      // Log metrics
+      this.telemetry.logMetrics(module.name, metrics);
+
+      // Update continuity context
+      this.continuity.updateState(sessionId, {
+        [`${module.name}:lastProcessed`]: new Date(),
+        [`${module.name}:executionTime`]: moduleExecutionTime,
+        [`${module.name}:metrics`]: metrics
+      }, module.name);
+
+      // Add event to history
+      this.continuity.addEvent(sessionId, 'module_processed', {
+        module: module.name,
+        executionTime: moduleExecutionTime,
+        attempts,
+        dataSize: metrics.bytesOut
+      }, module.name);
+
+      return {
+        module: module.name,
+        status: 'completed',
+        output,
+        executionTime: moduleExecutionTime,
+        attempts,
+        metrics
+      };
+
+    } catch (error) {
+      const metrics = measurement.stop(moduleInput);
+      this.telemetry.logMetrics(module.name, metrics);
+
+      if (signal?.aborted) {
+        return this.cancelModule(module, sessionId, attempts, metrics.executionTime, metrics);
+      }
+
+      this.telemetry.logError('PipelineEngine', error as Error, {
+        module: module.name,
+        sessionId,
+        userId
+      });
+      
+      // Update context with error
+      this.continuity.updateState(sessionId, {
+        [`${module.name}:error`]: error instanceof Error ? error.message : 'Unknown error',
+        [`${module.name}:errorTime`]: new Date()
+      }, module.name);
+
+      if (this.config.validation.strictMode) {
+        throw error;
+      }
+
+      return {
+        module: module.name,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        executionTime: metrics.executionTime,
+        attempts,
+        metrics
+      };
+    }
+  }
+
+  /**
+   * Run the middleware chain around a module invocation
+   */
+  private async runMiddleware(invocation: ModuleInvocation, invoke: () => Promise<any>): Promise<any> {
+    const chain = [...this.middleware];
+    // Number of middleware whose before hook has run and that still wrap the invocation
+    let entered = 0;
+    let output: any;
+
+    try {
+      let shortCircuited = false;
+
+      for (const middleware of chain) {
+        const result = middleware.before ? await middleware.before(invocation) : undefined;
+        if (result) {
+          output = result.output;
+          shortCircuited = true;
+          break;
+        }
+        entered++;
+      }
+
+      if (!shortCircuited) {
+        output = await invoke();
+      }
+
+      while (entered > 0) {
+        const middleware = chain[--entered];
+        const result = middleware.after ? await middleware.after(invocation, output) : undefined;
+        if (result) {
+          output = result.output;
+        }
+      }
+
+      return output;
+    } catch (error) {
+      while (entered > 0) {
+        const middleware = chain[--entered];
+        if (!middleware.error) continue;
+
+        try {
+          await middleware.error(invocation, error as Error);
+        } catch (hookError) {
+          this.telemetry.logError('PipelineEngine', hookError as Error, {
+            module: invocation.module.name,
+            middleware: middleware.name,
+            operation: 'middleware_error_hook'
+          });
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a module with its configured timeout, retrying failed attempts with backoff
+   */
+  private async invokeWithRetries(
+    module: PipelineModule,
+    moduleInput: any,
+    sessionId: string,
+    signal: AbortSignal | undefined,
+    onAttempt: (attempt: number) => void
+  ): Promise<any> {
+    const maxAttempts = Math.max(0, module.config.retries) + 1;
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const attemptStartTime = Date.now();
+      onAttempt(attempt);
+
+      // Each attempt gets its own signal, aborted when it times out or the run is cancelled,
+      // so a hung attempt stops instead of running alongside its retry
+      const attemptController = new AbortController();
+      const abortAttempt = () => attemptController.abort();
+      if (signal?.aborted) attemptController.abort();
+      signal?.addEventListener('abort', abortAttempt, { once: true });
+
+      try {
+        const output = await this.withTimeout(
+          raceCancellation(module.process(moduleInput, attemptController.signal), signal),
+          module.config.timeout,
+          module.name,
+          attemptController
+        );
+        this.recordAttempt(module.name, sessionId, attempt, 'succeeded', Date.now() - attemptStartTime);
+        return output;
+      } catch (error) {
+        lastError = error;
+        this.recordAttempt(
+          module.name,
+          sessionId,
+          attempt,
+          signal?.aborted ? 'cancelled' : error instanceof ModuleTimeoutError ? 'timed_out' : 'failed',
+          Date.now() - attemptStartTime,
+          error
+        );
+
+        // Whether it failed, timed out or was cancelled, the attempt's partial work
+        // is removed before the next attempt or the failure is reported
+        await this.cleanupPartialModule(module, moduleInput, sessionId);
+
+        // A cancelled run is never retried
+        if (signal?.aborted) {
+          throw error;
+        }
+
+        if (attempt < maxAttempts) {
+          await cancellableDelay(this.getRetryDelay(module, attempt), signal);
+          if (signal?.aborted) {
+            throw new PipelineCancelledError();
+          }
+        }
+      } finally {
+        signal?.removeEventListener('abort', abortAttempt);
+      }
+    }
+
+    throw lastError;
+  }
+
+  private withTimeout<T>(
+    promise: Promise<T>,
+    timeout: number,
+    moduleName: string,
+    controller?: AbortController
+  ): Promise<T> {
+    if (!timeout || timeout <= 0) {
+      return promise;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new ModuleTimeoutError(moduleName, timeout));
+        controller?.abort();
+      }, timeout);
+    });
+
+    return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+  }
+
+  private getRetryDelay(module: PipelineModule, attempt: number): number {
+    const backoff = { ...DEFAULT_RETRY_BACKOFF, ...module.config.retryBackoff };
+    const delay = backoff.initialDelay * Math.pow(backoff.multiplier, attempt - 1);
+    return Math.min(delay, backoff.maxDelay);
+  }
+
+  private recordAttempt(
+    moduleName: string,
+    sessionId: string,
+    attempt: number,
+    status: 'succeeded' | 'failed' | 'timed_out' | 'cancelled',
+    executionTime: number,
+    error?: unknown
+  ): void {
+    const errorMessage = error instanceof Error ? error.message : error ? 'Unknown error' : undefined;
+
+    this.continuity.addEvent(sessionId, 'module_attempt', {
+      module: moduleName,
+      attempt,
+      status,
+      executionTime,
+      error: errorMessage
+    }, moduleName);
+
+    this.telemetry.logEvent('module_attempt', moduleName, {
+      attempt,
+      status,
+      executionTime,
+      error: errorMessage
+    }, undefined, sessionId);
+
+    this.countAttempt(moduleName, status !== 'succeeded');
+  }
+
+  private countAttempt(moduleName: string, failed: boolean): void {
+    const now = Date.now();
+    const buckets = this.attemptCounts.get(moduleName) || new Map<number, { attempts: number; failures: number }>();
+    const bucket = Math.floor(now / ATTEMPT_BUCKET);
+    const counts = buckets.get(bucket) || { attempts: 0, failures: 0 };
+
+    counts.attempts++;
+    if (failed) counts.failures++;
+    buckets.set(bucket, counts);
+    this.attemptCounts.set(moduleName, buckets);
+
+    // Buckets are added in time order, so expired ones come first
+    const oldest = Math.floor((now - ATTEMPT_HISTORY) / ATTEMPT_BUCKET);
+    for (const key of Array.from(buckets.keys())) {
+      if (key >= oldest) break;
+      buckets.delete(key);
+    }
+  }
+
+  private restoreCheckpoint(
+    module: PipelineModule,
+    inputHash: string,
+    sessionId: string
+  ): ModuleExecutionResult | undefined {
+    const checkpoint: ModuleCheckpoint | null | undefined =
+      this.continuity.getState(sessionId, `${module.name}:checkpoint`);
+
+    if (!checkpoint || checkpoint.inputHash !== inputHash || checkpoint.version !== module.version) {
+      return undefined;
+    }
+
+    this.continuity.addEvent(sessionId, 'module_checkpoint_restored', {
+      module: module.name,
+      completedAt: checkpoint.completedAt
+    }, module.name);
+
+    return {
+      module: module.name,
+      status: 'completed',
+      output: checkpoint.output,
+      executionTime: 0,
+      attempts: 0,
+      fromCheckpoint: true
+    };
+  }
+
+  private saveCheckpoint(
+    module: PipelineModule,
+    inputHash: string | null,
+    result: ModuleExecutionResult,
+    sessionId: string
+  ): void {
+    if (result.fromCheckpoint) return;
+
+    // Only completed modules keep a checkpoint; anything else must run again on resume
+    const checkpoint: ModuleCheckpoint | null = result.status === 'completed' && inputHash
+      ? {
+          module: module.name,
+          version: module.version,
+          inputHash,
+          output: result.output,
+          completedAt: new Date()
+        }
+      : null;
+
+    this.continuity.updateState(sessionId, {
+      [`${module.name}:checkpoint`]: checkpoint
+    }, module.name);
+  }
+
+  private hashInput(input: any): string {
+    return createHash('sha256')
+      .update(JSON.stringify(input ?? null))
+      .digest('hex');
+  }
+
+  private buildDependencyInput(
+    input: any,
+    dependencyResults: ModuleExecutionResult[]
+  ): DependencyInput {
+    const dependencies: Record<string, any> = {};
+    for (const result of dependencyResults) {
+      dependencies[result.module] = result.output;
+    }
+    return { input, dependencies };
+  }
+
+  private skipModule(
+    module: PipelineModule,
+    dependencyResults: ModuleExecutionResult[],
+    sessionId: string
+  ): ModuleExecutionResult {
+    const blockedBy = dependencyResults
+      .filter(r => r.status !== 'completed')
+      .map(r => r.module);
+
+    this.continuity.addEvent(sessionId, 'module_skipped', {
+      module: module.name,
+      blockedBy
+    }, module.name);
+
+    return {
+      module: module.name,
+      status: 'skipped',
+      error: `Skipped because dependencies did not complete: ${blockedBy.join(', ')}`,
+      executionTime: 0,
+      attempts: 0
+    };
+  }
+
+  private cancelModule(
+    module: PipelineModule,
+    sessionId: string,
+    attempts: number,
+    executionTime: number,
+    metrics?: ValidationMetrics
+  ): ModuleExecutionResult {
+    const started = attempts > 0;
+
+    this.continuity.addEvent(sessionId, 'module_cancelled', {
+      module: module.name,
+      started
+    }, module.name);
+
+    return {
+      module: module.name,
+      status: 'cancelled',
+      error: started ? 'Cancelled while running' : 'Cancelled before starting',
+      executionTime,
+      attempts,
+      metrics
+    };
+  }
+
+  private async cleanupPartialModule(
+    module: PipelineModule,
+    moduleInput: any,
+    sessionId: string
+  ): Promise<void> {
+    if (!module.cleanupPartial) return;
+
+    try {
+      await module.cleanupPartial(moduleInput);
+      this.telemetry.logEvent('module_partial_cleanup_completed', 'PipelineEngine', {
+        module: module.name,
+        version: module.version
+      }, undefined, sessionId);
+    } catch (error) {
+      this.telemetry.logError('PipelineEngine', error as Error, {
+        module: module.name,
+        version: module.version,
+        sessionId,
+        operation: 'cleanupPartial'
+      });
+    }
+  }
+
+  private async cancelRun(
+    run: PipelineRunRecord,
+    results: Record<string, ModuleExecutionResult>,
+    totalExecutionTime: number
+  ): Promise<void> {
+    const cancelledModules = Object.values(results)
+      .filter(result => result.status === 'cancelled')
+      .map(result => result.module);
+
+    this.telemetry.logEvent('pipeline_processing_cancelled', 'PipelineEngine', {
+      runId: run.runId,
+      sessionId: run.sessionId,
+      userId: run.userId,
+      totalExecutionTime,
+      cancelledModules
+    });
+
+    this.continuity.updateState(run.sessionId, {
+      'pipeline:processing': false,
+      'pipeline:cancelled': true,
+      'pipeline:cancelledAt': new Date(),
+      'pipeline:output': results
+    }, 'PipelineEngine');
+
+    await this.continuity.flush(run.sessionId);
+    await this.saveRun({
+      ...run,
+      status: 'cancelled',
+      completedAt: new Date(),
+      totalExecutionTime
+    });
+  }
+
+  /**
+   * Capture the input of every module that failed in this run; in strict mode
+   * failures reject the run instead and never reach the queue
+   */
+  private async deadLetterFailures(
+    run: PipelineRunRecord,
+    modules: Map<string, PipelineModule>
+  ): Promise<void> {
+    const failures = Object.values(run.results)
+      .filter(result => result.status === 'failed' && !result.fromCheckpoint);
+
+    for (const result of failures) {
+      const entry: DeadLetterEntry = {
+        id: `dlq_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        runId: run.runId,
+        sessionId: run.sessionId,
+        userId: run.userId,
+        pipeline: run.pipeline,
+        module: result.module,
+        moduleVersion: modules.get(result.module)?.version,
+        error: result.error || 'Unknown error',
+        attempts: result.attempts,
+        payload: run.input,
+        createdAt: new Date()
+      };
+
+      try {
+        await this.deadLetterStore.save(entry);
+        this.telemetry.logEvent('dead_letter_recorded', 'PipelineEngine', {
+          id: entry.id,
+          module: entry.module,
+          runId: run.runId,
+          sessionId: run.sessionId,
+          attempts: entry.attempts
+        });
+      } catch (error) {
+        this.telemetry.logError('PipelineEngine', error as Error, {
+          runId: run.runId,
+          module: result.module,
+          operation: 'deadLetter'
+        });
+      }
+    }
+  }
+
+  /**
+   * Remove a retried entry once its modules completed, or replace it in place
+   * with the failure of the retry
+   */
+  private async settleDeadLetter(entry: DeadLetterEntry, result: PipelineResult): Promise<void> {
+    const failures = Object.values(result.results).filter(moduleResult => moduleResult.status === 'failed');
+    const failure = failures.find(moduleResult => moduleResult.module === entry.module) || failures[0];
+
+    try {
+      if (failure) {
+        await this.deadLetterStore.save({
+          ...entry,
+          runId: result.runId,
+          module: failure.module,
+          moduleVersion: result.moduleVersions[failure.module],
+          error: failure.error || 'Unknown error',
+          attempts: entry.attempts + failure.attempts
+        });
+      } else {
+        await this.deadLetterStore.delete(entry.id);
+      }
+
+      this.telemetry.logEvent('dead_letter_retried', 'PipelineEngine', {
+        id: entry.id,
+        module: entry.module,
+        runId: result.runId,
+        sessionId: entry.sessionId,
+        resolved: !failure
+      });
+    } catch (error) {
+      this.telemetry.logError('PipelineEngine', error as Error, {
+        runId: result.runId,
+        module: entry.module,
+        operation: 'retryDeadLetter'
+      });
+    }
+  }
+
+  private async saveRun(run: PipelineRunRecord): Promise<void> {
+    try {
+      await this.runStore.save({ ...run, results: { ...run.results } });
+    } catch (error) {
+      // Run history is diagnostic; a storage failure must not fail the pipeline
+      this.telemetry.logError('PipelineEngine', error as Error, {
+        runId: run.runId,
+        operation: 'saveRun'
+      });
+    }
+  }
+
+  private diffRuns(previous: PipelineRunRecord, current: PipelineResult): ReplayDifference[] {
+    const currentVersions = current.moduleVersions;
+    const moduleNames = new Set([
+      ...Object.keys(previous.results),
+      ...Object.keys(current.results)
+    ]);
+    const differences: ReplayDifference[] = [];
+
+    moduleNames.forEach(name => {
+      const before = previous.results[name];
+      const after = current.results[name];
+      const outputChanged = this.hashInput(before?.output) !== this.hashInput(after?.output);
+
+      if (
+        outputChanged ||
+        before?.status !== after?.status ||
+        previous.moduleVersions[name] !== currentVersions[name]
+      ) {
+        differences.push({
+          module: name,
+          previousVersion: previous.moduleVersions[name],
+          currentVersion: currentVersions[name],
+          previousStatus: before?.status,
+          currentStatus: after?.status,
+          outputChanged
+        });
+      }
+    });
+
+    return differences;
+  }
+
+  private describeVersions(modules: Map<string, PipelineModule>): Record<string, string> {
+    const versions: Record<string, string> = {};
+    modules.forEach((module, name) => {
+      versions[name] = module.version;
+    });
+    return versions;
+  }
+
+  /**
+   * Newest version of each module, preferring versions that finished initializing
+   */
+  private getLatestModules(): Map<string, PipelineModule> {
+    const latest = new Map<string, PipelineModule>();
+
+    this.modules.forEach((_, name) => {
+      const versions = this.getModuleVersions(name);
+      const ready = versions.find(module => this.initializedModules.has(module));
+      latest.set(name, ready || versions[0]);
+    });
+
+    return latest;
+  }
+
+  /**
+   * Pick the module version set for a run
+   *
+   * Pinned versions win while they are still registered. Otherwise each module
+   * resolves to its newest ready version that satisfies the ranges declared by
+   * the modules depending on it.
+   */
+  private resolveModules(
+    pinnedVersions?: Record<string, string>,
+    definition?: PipelineDefinition
+  ): Map<string, PipelineModule> {
+    const resolved = this.getLatestModules();
+
+    // A pipeline definition runs only its own modules
+    if (definition) {
+      const listed = new Set(definition.modules.map(entry => entry.name));
+      for (const entry of definition.modules) {
+        if (!resolved.has(entry.name)) {
+          throw new Error(`Pipeline module ${entry.name} is not registered`);
+        }
+      }
+      Array.from(resolved.keys())
+        .filter(name => !listed.has(name))
+        .forEach(name => resolved.delete(name));
+    }
+
+    if (pinnedVersions) {
+      Object.keys(pinnedVersions).forEach(name => {
+        const pinned = this.modules.get(name)?.get(pinnedVersions[name]);
+        if (pinned) {
+          resolved.set(name, pinned);
+        }
+      });
+    }
+
+    const ranges = new Map<string, string[]>();
+    definition?.modules
+      .filter(entry => entry.version)
+      .forEach(entry => ranges.set(entry.name, [entry.version!]));
+    resolved.forEach(module => {
+      module.dependencies.map(parseDependency).forEach(dep => {
+        if (dep.range) {
+          ranges.set(dep.name, [...(ranges.get(dep.name) || []), dep.range]);
+        }
+      });
+    });
+
+    ranges.forEach((depRanges, name) => {
+      const active = resolved.get(name);
+      if (!active || pinnedVersions?.[name] === active.version) return;
+      if (depRanges.every(range => satisfies(active.version, range))) return;
+
+      const compatible = this.getModuleVersions(name).find(module =>
+        (this.initializedModules.has(module) || !this.isInitialized) &&
+        depRanges.every(range => satisfies(module.version, range))
+      );
+      if (compatible) {
+        resolved.set(name, compatible);
+      }
+    });
+
+    // Unlike dependency ranges, which fail only the dependent module, a definition's range must hold
+    for (const entry of definition?.modules || []) {
+      const active = resolved.get(entry.name)!;
+      if (entry.version && pinnedVersions?.[entry.name] !== active.version && !satisfies(active.version, entry.version)) {
+        throw new Error(`No available version of ${entry.name} satisfies ${entry.version}`);
+      }
+    }
+
+    return resolved;
+  }
+
+  private acquireModules(modules: Map<string, PipelineModule>): void {
+    modules.forEach(module => {
+      this.inFlight.set(module, (this.inFlight.get(module) || 0) + 1);
+    });
+  }
+
+  private releaseModules(modules: Map<string, PipelineModule>): void {
+    modules.forEach(module => {
+      const remaining = (this.inFlight.get(module) || 1) - 1;
+      if (remaining > 0) {
+        this.inFlight.set(module, remaining);
+        return;
+      }
+
+      this.inFlight.delete(module);
+      if (this.retiredModules.has(module)) {
+        this.retiredModules.delete(module);
+        this.cleanupModule(module);
+      }
+    });
+  }
+
+  private retireModule(module: PipelineModule): void {
+    this.initializedModules.delete(module);
+
+    // In-flight runs keep using the module; it is cleaned up when the last one releases it
+    if (this.inFlight.has(module)) {
+      this.retiredModules.add(module);
+      return;
+    }
+
+    this.cleanupModule(module);
+  }
+
+  private cleanupModule(module: PipelineModule): void {
+    module.cleanup().catch(error => {
+      this.telemetry.logError('PipelineEngine', error as Error, {
+        module: module.name,
+        version: module.version,
+        operation: 'cleanup'
+      });
+    });
+  }
+
+  private rejectIncompatibleModule(
+    module: PipelineModule,
+    incompatible: string[],
+    sessionId: string
+  ): ModuleExecutionResult {
+    const message = `Module ${module.name} requires incompatible dependency versions: ${incompatible.join(', ')}`;
+
+    this.telemetry.logError('PipelineEngine', new Error(message), {
+      module: module.name,
+      version: module.version,
+      sessionId
+    });
+
+    this.continuity.updateState(sessionId, {
+      [`${module.name}:error`]: message,
+      [`${module.name}:errorTime`]: new Date()
+    }, module.name);
+
+    if (this.config.validation.strictMode) {
+      throw new Error(message);
+    }
+
+    return {
+      module: module.name,
+      status: 'failed',
+      error: message,
+      executionTime: 0,
+      attempts: 0
+    };
+  }
+
+  /**
+   * Check every module's dependencies against the registry; strict mode refuses to start
+   */
+  private async checkIntegration(): Promise<void> {
+    const errors: ValidationError[] = [];
+
+    for (const module of this.getLatestModules().values()) {
+      const result = await this.validator.validateIntegration(module, this);
+      errors.push(...result.errors);
+    }
+    if (errors.length === 0) return;
+
+    const error = new Error(
+      `Invalid module integration: ${errors.map(issue => `${issue.code}: ${issue.message}`).join(' | ')}`
+    );
+    this.telemetry.logError('PipelineEngine', error, { operation: 'validateIntegration', errors });
+
+    if (this.config.validation.strictMode) {
+      throw error;
+    }
+  }
+
+  /**
+   * Add problems found by checking a module against the registry to its
+   * validation result, as errors or, so they do not block, as warnings
+   */
+  private async addRegistryChecks(
+    module: PipelineModule,
+    result: ValidationResult,
+    asErrors: boolean
+  ): Promise<ValidationResult> {
+    const integration = await this.validator.validateIntegration(module, this);
+    const isNew = (issue: { code: string; message: string }) =>
+      ![...result.errors, ...result.warnings].some(existing => existing.code === issue.code && existing.message === issue.message);
+    const found = integration.errors.filter(isNew);
+    const warnings = integration.warnings.filter(isNew);
+    if (found.length === 0 && warnings.length === 0) return result;
+
+    return asErrors
+      ? {
+        ...result,
+        isValid: result.isValid && found.length === 0,
+        errors: [...result.errors, ...found],
+        warnings: [...result.warnings, ...warnings]
+      }
+      : {
+        ...result,
+        warnings: [
+          ...result.warnings,
+          ...found.map(error => ({ code: error.code, message: error.message, module: error.module, timestamp: error.timestamp })),
+          ...warnings
+        ]
+      };
+  }
+
+  /**
+   * Check schema compatibility between connected modules; strict mode refuses to start
+   */
+  private checkContracts(): void {
+    const result = this.validator.validateContracts(Array.from(this.getLatestModules().values()));
+    if (result.isValid) return;
+
+    const error = new Error(
+      `Incompatible module contracts: ${result.errors.map(issue => issue.message).join(' | ')}`
+    );
+    this.telemetry.logError('PipelineEngine', error, { operation: 'validateContracts', errors: result.errors });
+
+    if (this.config.validation.strictMode) {
+      throw error;
+    }
+  }
+
+  /**
+   * Limit a graph to a module, the modules that depend on it and the modules
+   * they take input from; returns the first two as the modules to run again
+   */
+  private selectRerunGraph(
+    graph: Map<string, PipelineModule>,
+    moduleName: string
+  ): { graph: Map<string, PipelineModule>; rerun: Set<string> } {
+    if (!graph.has(moduleName)) {
+      throw new Error(`Module ${moduleName} is not part of this pipeline`);
+    }
+
+    const dependenciesOf = (module: PipelineModule): string[] => module.dependencies
+      .map(dependency => parseDependency(dependency).name)
+      .filter(name => graph.has(name));
+
+    const rerun = new Set([moduleName]);
+    let added = true;
+    while (added) {
+      added = false;
+      graph.forEach((module, name) => {
+        if (!rerun.has(name) && dependenciesOf(module).some(dependency => rerun.has(dependency))) {
+          rerun.add(name);
+          added = true;
+        }
+      });
+    }
+
+    const selected = new Map<string, PipelineModule>();
+    const select = (name: string): void => {
+      if (selected.has(name)) return;
+      const module = graph.get(name)!;
+      selected.set(name, module);
+      dependenciesOf(module).forEach(select);
+    };
+    rerun.forEach(select);
+
+    return { graph: selected, rerun };
+  }
+
+  /**
+   * Wrap the resolved modules with a definition's config overrides and edges
+   */
+  private applyDefinition(
+    modules: Map<string, PipelineModule>,
+    definition: PipelineDefinition
+  ): Map<string, PipelineModule> {
+    const graph = new Map<string, PipelineModule>();
+
+    modules.forEach((module, name) => {
+      graph.set(name, withOverrides(module, getDefinitionOverrides(definition, module)));
+    });
+
+    return graph;
+  }
+
+  /**
+   * Load pipeline definitions from config and the definitions file, failing startup on invalid ones
+   */
+  private loadPipelines(): void {
+    const pipelines = {
+      ...(this.config.pipelinesFile ? loadPipelineDefinitions(this.config.pipelinesFile) : {}),
+      ...this.config.pipelines
+    };
+
+    Object.keys(pipelines).forEach(name => {
+      const problems = this.checkDefinition(pipelines[name]);
+      if (problems.length > 0) {
+        throw new PipelineDefinitionError(name, problems);
+      }
+    });
+
+    this.pipelines = pipelines;
+
+    this.telemetry.logEvent('pipeline_definitions_loaded', 'PipelineEngine', {
+      pipelines: Object.keys(pipelines),
+      source: this.config.pipelinesFile
+    });
+  }
+
+  private checkDefinition(definition: PipelineDefinition): string[] {
+    const problems = checkDefinitionShape(definition);
+
+    definition.modules.forEach(entry => {
+      const versions = this.getModuleVersions(entry.name);
+
+      if (versions.length === 0) {
+        problems.push(`module ${entry.name} is not registered`);
+      } else if (entry.version && !isValidRange(entry.version)) {
+        problems.push(`module ${entry.name} has an invalid version range: ${entry.version}`);
+      } else if (entry.version && !versions.some(module => satisfies(module.version, entry.version))) {
+        problems.push(`no registered version of ${entry.name} satisfies ${entry.version}`);
+      }
+    });
+
+    if (problems.length > 0) {
+      return problems;
+    }
+
+    // Build the graph once to catch cycles and incompatible contracts along its edges
+    const graph = this.applyDefinition(this.resolveModules(undefined, definition), definition);
+    try {
+      this.sortModulesByDependencies(graph);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : 'Invalid dependency graph');
+    }
+
+    const contracts = this.validator.validateContracts(Array.from(graph.values()));
+    contracts.errors.forEach(error => problems.push(error.message));
+
+    return problems;
+  }
+
+  private generateRunId(): string {
+    return `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private getModuleStatus(module: PipelineModule, since: number): PipelineModuleStatus {
+    const first = Math.floor(since / ATTEMPT_BUCKET);
+    let attempts = 0;
+    let failures = 0;
+
+    this.attemptCounts.get(module.name)?.forEach((counts, bucket) => {
+      if (bucket < first) return;
+      attempts += counts.attempts;
+      failures += counts.failures;
+    });
+
+    return {
+      name: module.name,
+      version: module.version,
+      versions: this.getModuleVersions(module.name).map(version => version.version),
+      enabled: module.config.enabled,
+      priority: module.config.priority,
+      initialized: this.initializedModules.has(module),
+      lastValidation: this.validator.getLastResult(module.name, module.version),
+      attempts,
+      failures,
+      errorRate: attempts > 0 ? failures / attempts : 0
+    };
+  }
+
+  /**
+   * Build a copy of every version of each updated module with its new config and
+   * validate the copies, and the modules depending on them, against the registry
+   * as it would be after the update
+   */
+  private async prepareModuleConfigs(
+    modules: Record<string, ModuleConfig>
+  ): Promise<Map<PipelineModule, PipelineModule>> {
+    const replacements = new Map<PipelineModule, PipelineModule>();
+
+    Object.entries(modules).forEach(([name, moduleConfig]) => {
+      this.getModuleVersions(name).forEach(module => {
+        replacements.set(module, withOverrides(module, {
+          config: { ...moduleConfig },
+          dependencies: module.dependencies
+        }));
+      });
+    });
+    if (replacements.size === 0) return replacements;
+
+    const replace = (module: PipelineModule) => replacements.get(module) || module;
+    const registry: ModuleRegistry = {
+      getModules: () => this.getModules().map(replace),
+      getModuleVersions: name => this.getModuleVersions(name).map(replace)
+    };
+    const updated = Object.keys(modules);
+
+    for (const name of updated) {
+      const dependents = registry.getModules().filter(module =>
+        !updated.includes(module.name) &&
+        module.dependencies.some(dependency => parseDependency(dependency).name === name)
+      );
+      const errors: ValidationError[] = [];
+
+      for (const module of this.getModuleVersions(name)) {
+        const candidate = replace(module);
+        errors.push(...(await this.validator.validateModule(candidate)).errors);
+        errors.push(...await this.getNewRegistryErrors(module, candidate, registry));
+      }
+      for (const dependent of dependents) {
+        errors.push(...await this.getNewRegistryErrors(dependent, dependent, registry));
+      }
+
+      if (errors.length > 0) {
+        // Drop results cached for the rejected config
+        this.validator.invalidateModule(name);
+        const error = new ModuleConfigError(name, errors);
+        this.telemetry.logError('PipelineEngine', error, { module: name, operation: 'updateConfig' });
+        throw error;
+      }
+    }
+
+    return replacements;
+  }
+
+  /**
+   * Registry errors a module has after an update but not before; problems it
+   * already had do not block the update
+   */
+  private async getNewRegistryErrors(
+    current: PipelineModule,
+    updated: PipelineModule,
+    registry: ModuleRegistry
+  ): Promise<ValidationError[]> {
+    const before = await this.validator.validateIntegration(current, this);
+    const after = await this.validator.validateIntegration(updated, registry);
+
+    return after.errors.filter(error => !before.errors.some(existing =>
+      existing.code === error.code && existing.message === error.message
+    ));
+  }
+
+  private applyModuleConfig(
+    name: string,
+    moduleConfig: ModuleConfig,
+    replacements: Map<PipelineModule, PipelineModule>
+  ): void {
+    const versions = this.getModuleVersions(name);
+
+    versions.forEach(module => {
+      const updated = replacements.get(module)!;
+      // Runs already holding the module keep using it with its previous config
+      this.modules.get(name)!.set(module.version, updated);
+      if (this.initializedModules.delete(module)) {
+        this.initializedModules.add(updated);
+      }
+
+      if (this.isInitialized && updated.config.enabled && !this.initializedModules.has(updated)) {
+        this.initializeModule(updated).catch(() => {
+          // Already logged by initializeModule
+        });
+      }
+    });
+    if (versions.length === 0) return;
+
+    this.validator.invalidateModule(name);
+    this.telemetry.logEvent('module_config_updated', 'PipelineEngine', {
+      module: name,
+      enabled: moduleConfig.enabled,
+      priority: moduleConfig.priority
+    });
+  }
+
+  private async initializeModule(module: PipelineModule): Promise<void> {
+    try {
+      await module.initialize();
+      this.initializedModules.add(module);
+      this.telemetry.logEvent('module_initialized', 'PipelineEngine', {
+        module: module.name,
+        version: module.version
+      });
+    } catch (error) {
+      this.telemetry.logError('PipelineEngine', error as Error, {
+        module: module.name,
+        operation: 'initialize'
+      });
+      throw error;
+    }
+  }
+
+  private sortModulesByDependencies(moduleMap: Map<string, PipelineModule>): PipelineModule[] {
+    const modules = Array.from(moduleMap.values());
+    const sorted: PipelineModule[] = [];
+    const visited = new Set<string>();
+    const visiting = new Set<string>();
+
+    const visit = (module: PipelineModule) => {
+      if (visiting.has(module.name)) {
+        throw new Error(`Circular dependency detected involving module: ${module.name}`);
+      }
+      if (visited.has(module.name)) {
+        return;
+      }
+
+      visiting.add(module.name);
+
+      // Visit dependencies first
+      for (const dependency of module.dependencies) {
+        const depModule = moduleMap.get(parseDependency(dependency).name);
+        if (depModule) {
+          visit(depModule);
+        }
+      }
+
+      visiting.delete(module.name);
+      visited.add(module.name);
+      sorted.push(module);
+    };
+
+    for (const module of modules) {
       if (!visited.has(module.name)) {
         visit(module);
       }
@@ -369,8 +2090,8 @@ export class PipelineEngine {
     return sorted;
   }
 
-  private getModulesByPriority(): PipelineModule[] {
-    return Array.from(this.modules.values())
+  private getModulesByPriority(moduleMap: Map<string, PipelineModule>): PipelineModule[] {
+    return Array.from(moduleMap.values())
       .filter(module => module.config.enabled)
       .sort((a, b) => a.config.priority - b.config.priority);
   }
@@ -381,10 +2102,49 @@ export const getPipeline = (): PipelineEngine => {
   return PipelineEngine.getInstance();
 };
 
-export const registerModule = (module: PipelineModule): void => {
-  PipelineEngine.getInstance().registerModule(module);
+export const createPipelineEngine = (
+  config: DirectorStudioConfig,
+  components?: Partial<PipelineEngineComponents>
+): PipelineEngine => {
+  return PipelineEngine.create(config, components);
+};
+
+export const registerModule = (
+  module: PipelineModule,
+  options?: { dryRun?: boolean }
+): Promise<ValidationResult> => {
+  return PipelineEngine.getInstance().registerModule(module, options);
+};
+
+export const getPipelineStatus = (): Promise<PipelineStatus> => {
+  return PipelineEngine.getInstance().getStatus();
+};
+
+export const getPipelineDefinitions = (): Record<string, PipelineDefinition> => {
+  return PipelineEngine.getInstance().getPipelineDefinitions();
+};
+
+export const processData = (
+  input: any,
+  sessionId: string,
+  userId?: string,
+  options?: PipelineRunOptions
+): Promise<PipelineResult> => {
+  return PipelineEngine.getInstance().process(input, sessionId, userId, options);
+};
+
+export const resumeProcessing = (sessionId: string, options?: PipelineRunOptions): Promise<PipelineResult> => {
+  return PipelineEngine.getInstance().resume(sessionId, options);
+};
+
+export const replayRun = (runId: string): Promise<PipelineReplayResult> => {
+  return PipelineEngine.getInstance().replay(runId);
+};
+
+export const listDeadLetters = (filter?: DeadLetterFilter): Promise<DeadLetterEntry[]> => {
+  return PipelineEngine.getInstance().listDeadLetters(filter);
 };
 
-export const processData = (input: any, sessionId: string, userId?: string): Promise<any> => {
-  return PipelineEngine.getInstance().process(input, sessionId, userId);
+export const retryDeadLetter = (id: string): Promise<PipelineResult> => {
+  return PipelineEngine.getInstance().retryDeadLetter(id);
 };
@@ -0,0 +1,222 @@
+// MODULE: DirectorStudio Validation Rules
+// VERSION: 1.0.0
+// PURPOSE: Built-in structure, data and integration rules for DirectorStudioValidator
+
+import type { ZodTypeAny } from 'zod';
+import {
+  ModuleRegistry,
+  PipelineModule,
+  ValidationError,
+  ValidationRule,
+  ValidationRuleIssue
+} from './types';
+import { describeIssues, isDependencyInput } from './contracts';
+import { isValidRange, parseDependency, satisfies } from './semver';
+
+// ==============================================
+// STRUCTURE RULES
+// ==============================================
+
+const structureRules: ValidationRule[] = [
+  {
+    name: 'MISSING_NAME',
+    scope: 'structure',
+    severity: 'critical',
+    check: ({ module }) => module.name ? [] : [{ message: 'Module must have a name property' }]
+  },
+  {
+    name: 'MISSING_VERSION',
+    scope: 'structure',
+    severity: 'critical',
+    check: ({ module }) => module.version ? [] : [{ message: 'Module must have a version property' }]
+  },
+  requireMethod('MISSING_INITIALIZE', 'initialize', 'critical'),
+  requireMethod('MISSING_PROCESS', 'process', 'critical'),
+  requireMethod('MISSING_VALIDATE', 'validate', 'critical'),
+  requireMethod('MISSING_CLEANUP', 'cleanup', 'error'),
+  {
+    name: 'INVALID_VERSION_FORMAT',
+    scope: 'structure',
+    severity: 'warning',
+    check: ({ module }) => module.version && !/^\d+\.\d+\.\d+$/.test(module.version)
+      ? [{ message: 'Version should follow semantic versioning (e.g., 1.0.0)' }]
+      : []
+  }
+];
+
+// ==============================================
+// DATA RULES
+// ==============================================
+
+const dataRules: ValidationRule[] = [
+  {
+    name: 'NULL_DATA',
+    scope: 'data',
+    severity: 'error',
+    check: ({ data }) => data === null || data === undefined
+      ? [{ message: 'Data cannot be null or undefined' }]
+      : []
+  },
+  {
+    name: 'SCHEMA_MISMATCH',
+    scope: 'data',
+    severity: 'error',
+    description: "Checks data against the module's declared input contract",
+    check: ({ module, data }) => {
+      if (!module.schemas || data === null || data === undefined) return [];
+      if (!isDependencyInput(data)) {
+        return checkSchema(module.schemas.input, data, 'input');
+      }
+
+      const dependencySchemas = module.schemas.dependencies || {};
+      return checkSchema(module.schemas.pipelineInput || module.schemas.input, data.input, 'pipeline input')
+        .concat(...Object.keys(dependencySchemas)
+          .filter(name => name in data.dependencies)
+          .map(name => checkSchema(dependencySchemas[name], data.dependencies[name], `output of ${name}`)));
+    }
+  }
+];
+
+// ==============================================
+// INTEGRATION RULES
+// ==============================================
+
+const integrationRules: ValidationRule[] = [
+  {
+    name: 'INVALID_DEPENDENCY',
+    scope: 'integration',
+    severity: 'error',
+    check: ({ module }) => (Array.isArray(module.dependencies) ? module.dependencies : [])
+      .reduce<ValidationRuleIssue[]>((issues, dependency) => {
+        if (typeof dependency !== 'string') {
+          return issues.concat({ message: `Dependency must be a string: ${dependency}` });
+        }
+
+        const { name, range } = parseDependency(dependency);
+        return range !== undefined && !isValidRange(range)
+          ? issues.concat({
+            code: 'INVALID_DEPENDENCY_RANGE',
+            message: `Dependency ${name} has an invalid version range: ${range}`
+          })
+          : issues;
+      }, [])
+  },
+  {
+    name: 'MISSING_ENABLED_CONFIG',
+    scope: 'integration',
+    severity: 'warning',
+    check: ({ module }) => module.config && typeof module.config.enabled !== 'boolean'
+      ? [{ message: 'Config should have enabled property' }]
+      : []
+  },
+  {
+    name: 'MISSING_PRIORITY_CONFIG',
+    scope: 'integration',
+    severity: 'warning',
+    check: ({ module }) => module.config && typeof module.config.priority !== 'number'
+      ? [{ message: 'Config should have priority property' }]
+      : []
+  },
+  {
+    name: 'REGISTRY_DEPENDENCIES',
+    scope: 'integration',
+    severity: 'error',
+    description: 'Resolves dependencies against the registry: missing, incompatible and ' +
+      'disabled dependencies, cycles and priorities that contradict dependency order',
+    check: ({ module, registry }) => registry ? checkRegistryDependencies(module, registry) : []
+  }
+];
+
+export const BUILT_IN_RULES: ValidationRule[] = [...structureRules, ...dataRules, ...integrationRules];
+
+function requireMethod(
+  name: string,
+  method: 'initialize' | 'process' | 'validate' | 'cleanup',
+  severity: ValidationError['severity']
+): ValidationRule {
+  return {
+    name,
+    scope: 'structure',
+    severity,
+    check: ({ module }) => typeof module[method] === 'function'
+      ? []
+      : [{ message: `Module must implement ${method}() method` }]
+  };
+}
+
+function checkSchema(schema: ZodTypeAny, value: any, label: string): ValidationRuleIssue[] {
+  const parsed = schema.safeParse(value);
+  return parsed.success
+    ? []
+    : [{ message: `Invalid ${label}: ${describeIssues(parsed.error.issues).join('; ')}` }];
+}
+
+function checkRegistryDependencies(module: PipelineModule, registry: ModuleRegistry): ValidationRuleIssue[] {
+  const issues: ValidationRuleIssue[] = [];
+
+  module.dependencies
+    .filter(dependency => typeof dependency === 'string')
+    .map(parseDependency)
+    .filter(({ name }) => name !== module.name)
+    .forEach(({ name, range }) => {
+      const versions = registry.getModuleVersions(name);
+      if (versions.length === 0) {
+        issues.push({ code: 'MISSING_DEPENDENCY', message: `Dependency ${name} is not registered` });
+        return;
+      }
+
+      const dependency = resolveDependency(versions, range);
+      if (!dependency) {
+        issues.push({
+          code: 'INCOMPATIBLE_DEPENDENCY',
+          message: `No registered version of ${name} satisfies ${range} (registered: ${versions.map(version => version.version).join(', ')})`
+        });
+        return;
+      }
+
+      if (!module.config.enabled) return;
+
+      if (!dependency.config.enabled) {
+        issues.push({ code: 'DISABLED_DEPENDENCY', message: `Dependency ${name}@${dependency.version} is disabled` });
+      } else if (module.config.priority < dependency.config.priority) {
+        issues.push({
+          code: 'PRIORITY_ORDER_CONFLICT',
+          message: `Priority ${module.config.priority} orders ${module.name} before its dependency ${name} (priority ${dependency.config.priority})`,
+          severity: 'warning'
+        });
+      }
+    });
+
+  const cycle = findDependencyCycle(module, registry);
+  if (cycle) {
+    issues.push({ code: 'CIRCULAR_DEPENDENCY', message: `Circular dependency: ${cycle.join(' -> ')}`, severity: 'critical' });
+  }
+
+  return issues;
+}
+
+// The version a dependency resolves to: the newest one satisfying its range
+function resolveDependency(versions: PipelineModule[], range?: string): PipelineModule | undefined {
+  if (range === undefined || !isValidRange(range)) return versions[0];
+  return versions.find(version => satisfies(version.version, range));
+}
+
+// Follow resolved dependencies from the module; returns the path back to it, if any
+function findDependencyCycle(module: PipelineModule, registry: ModuleRegistry): string[] | undefined {
+  const visited = new Set<string>();
+
+  const visit = (current: PipelineModule, path: string[]): string[] | undefined => {
+    for (const { name, range } of current.dependencies.filter(dep => typeof dep === 'string').map(parseDependency)) {
+      if (name === module.name) return [...path, name];
+      if (visited.has(name)) continue;
+      visited.add(name);
+
+      const dependency = resolveDependency(registry.getModuleVersions(name), range);
+      const cycle = dependency && visit(dependency, [...path, name]);
+      if (cycle) return cycle;
+    }
+    return undefined;
+  };
+
+  return visit(module, [module.name]);
+}
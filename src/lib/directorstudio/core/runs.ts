@@ -0,0 +1,142 @@
+// MODULE: DirectorStudio Pipeline Run History
+// VERSION: 1.0.0
+// PURPOSE: Storage for pipeline run records used for inspection and replay
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PipelineRunRecord } from './types';
+
+export interface PipelineRunFilter {
+  sessionId?: string;
+  userId?: string;
+  status?: PipelineRunRecord['status'];
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+}
+
+export interface PipelineRunStore {
+  save(run: PipelineRunRecord): Promise<void>;
+  get(runId: string): Promise<PipelineRunRecord | undefined>;
+  list(filter?: PipelineRunFilter): Promise<PipelineRunRecord[]>;
+}
+
+export class MemoryRunStore implements PipelineRunStore {
+  private runs: Map<string, PipelineRunRecord> = new Map();
+
+  constructor(private readonly maxRuns: number = 100) {}
+
+  public async save(run: PipelineRunRecord): Promise<void> {
+    // Re-insert so the most recently written run is evicted last
+    this.runs.delete(run.runId);
+    this.runs.set(run.runId, run);
+
+    while (this.runs.size > this.maxRuns) {
+      const oldest = this.runs.keys().next().value as string;
+      this.runs.delete(oldest);
+    }
+  }
+
+  public async get(runId: string): Promise<PipelineRunRecord | undefined> {
+    return this.runs.get(runId);
+  }
+
+  public async list(filter: PipelineRunFilter = {}): Promise<PipelineRunRecord[]> {
+    const runs = Array.from(this.runs.values())
+      .filter(run => {
+        if (filter.sessionId && run.sessionId !== filter.sessionId) return false;
+        if (filter.userId && run.userId !== filter.userId) return false;
+        if (filter.status && run.status !== filter.status) return false;
+        if (filter.startDate && run.startedAt < filter.startDate) return false;
+        if (filter.endDate && run.startedAt > filter.endDate) return false;
+        return true;
+      })
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+
+    return filter.limit ? runs.slice(0, filter.limit) : runs;
+  }
+}
+
+/**
+ * Store run records in a Supabase table (migration 006) so replay works across
+ * processes and deploys
+ */
+export class DatabaseRunStore implements PipelineRunStore {
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly table: string = 'pipeline_runs'
+  ) {}
+
+  public async save(run: PipelineRunRecord): Promise<void> {
+    const { error } = await this.client
+      .from(this.table)
+      .upsert({
+        run_id: run.runId,
+        session_id: run.sessionId,
+        user_id: run.userId ?? null,
+        status: run.status,
+        input: run.input ?? null,
+        results: run.results,
+        module_versions: run.moduleVersions,
+        started_at: run.startedAt.toISOString(),
+        completed_at: run.completedAt?.toISOString() ?? null,
+        total_execution_time: run.totalExecutionTime ?? null,
+        error: run.error ?? null,
+        resumed: run.resumed,
+        replay_of: run.replayOf ?? null,
+        pipeline: run.pipeline ?? null,
+        trace_id: run.traceId ?? null
+      }, { onConflict: 'run_id' });
+
+    if (error) throw new Error(`Failed to save pipeline run: ${error.message}`);
+  }
+
+  public async get(runId: string): Promise<PipelineRunRecord | undefined> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('*')
+      .eq('run_id', runId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load pipeline run: ${error.message}`);
+
+    return data ? toRunRecord(data) : undefined;
+  }
+
+  public async list(filter: PipelineRunFilter = {}): Promise<PipelineRunRecord[]> {
+    let builder = this.client.from(this.table).select('*');
+
+    if (filter.sessionId) builder = builder.eq('session_id', filter.sessionId);
+    if (filter.userId) builder = builder.eq('user_id', filter.userId);
+    if (filter.status) builder = builder.eq('status', filter.status);
+    if (filter.startDate) builder = builder.gte('started_at', filter.startDate.toISOString());
+    if (filter.endDate) builder = builder.lte('started_at', filter.endDate.toISOString());
+
+    const { data, error } = await builder
+      .order('started_at', { ascending: false })
+      .limit(filter.limit || 1000);
+
+    if (error) throw new Error(`Failed to list pipeline runs: ${error.message}`);
+
+    return (data || []).map(toRunRecord);
+  }
+}
+
+function toRunRecord(row: Record<string, any>): PipelineRunRecord {
+  return {
+    runId: row.run_id,
+    sessionId: row.session_id,
+    userId: row.user_id ?? undefined,
+    status: row.status,
+    input: row.input,
+    results: row.results || {},
+    moduleVersions: row.module_versions || {},
+    startedAt: new Date(row.started_at),
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    totalExecutionTime: row.total_execution_time ?? undefined,
+    error: row.error ?? undefined,
+    resumed: row.resumed,
+    replayOf: row.replay_of ?? undefined,
+    pipeline: row.pipeline ?? undefined,
+    traceId: row.trace_id ?? undefined
+  };
+}
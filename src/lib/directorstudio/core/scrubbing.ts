@@ -0,0 +1,75 @@
+// MODULE: DirectorStudio Telemetry Scrubbing
+// VERSION: 1.0.0
+// PURPOSE: Mask emails, signed URLs, tokens and secrets in telemetry event data and API responses
+
+import { TelemetryScrubConfig } from './types';
+
+/**
+ * Rewrites a string value; key is the name of the field the value was found in
+ */
+export type TelemetryScrubber = (value: string, key: string) => string;
+
+// Fields whose values are masked outright, compared case- and separator-insensitively by suffix
+export const DEFAULT_REDACTED_KEYS = [
+  'password', 'secret', 'token', 'apikey', 'authorization', 'cookie', 'signature', 'privatekey'
+];
+
+// Query parameters that make a URL a bearer credential
+const SIGNED_URL_PARAMS = /[?&](x-amz-signature|x-amz-credential|x-amz-security-token|x-goog-signature|signature|sig|token|access_token|expires)=/i;
+
+export const scrubEmails: TelemetryScrubber = value =>
+  value.replace(/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, '[email]');
+
+export const scrubSignedUrls: TelemetryScrubber = value =>
+  value.replace(/https?:\/\/[^\s"'<>?]+\?[^\s"'<>]+/gi, url =>
+    SIGNED_URL_PARAMS.test(url) ? `${url.slice(0, url.indexOf('?'))}?[redacted]` : url
+  );
+
+export const scrubTokens: TelemetryScrubber = value =>
+  value
+    .replace(/\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g, '[token]')
+    .replace(/\bBearer\s+[A-Za-z0-9._~+\/-]+=*/gi, 'Bearer [token]')
+    .replace(/\b(?:[spr]k_(?:live|test)_[A-Za-z0-9]+|gh[pousr]_[A-Za-z0-9]{20,}|xox[abprs]-[A-Za-z0-9-]+)/g, '[token]');
+
+/**
+ * Build the scrubbing pipeline for a config; it returns a scrubbed copy of
+ * any value, or the value unchanged when disabled
+ */
+export const createScrubber = (
+  config: TelemetryScrubConfig = {},
+  scrubbers: TelemetryScrubber[] = []
+): ((data: any) => any) => {
+  if (config.enabled === false) return data => data;
+
+  const redactedKeys = DEFAULT_REDACTED_KEYS.concat((config.keys || []).map(normalizeKey));
+  const patterns: TelemetryScrubber[] = (config.patterns || []).map(({ pattern, replacement }) => {
+    const expression = new RegExp(pattern, 'g');
+    return value => value.replace(expression, replacement || '[redacted]');
+  });
+  const pipeline = [scrubSignedUrls, scrubTokens, scrubEmails, ...patterns, ...scrubbers];
+
+  const scrub = (value: any, key: string): any => {
+    if (value != null && redactedKeys.some(redacted => normalizeKey(key).endsWith(redacted))) {
+      return '[redacted]';
+    }
+    if (typeof value === 'string') {
+      return pipeline.reduce((scrubbed, scrubber) => scrubber(scrubbed, key), value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => scrub(item, key));
+    }
+    if (Object.prototype.toString.call(value) === '[object Object]') {
+      return Object.keys(value).reduce<Record<string, any>>((scrubbed, childKey) => {
+        scrubbed[childKey] = scrub(value[childKey], childKey);
+        return scrubbed;
+      }, {});
+    }
+    return value;
+  };
+
+  return data => scrub(data, '');
+};
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
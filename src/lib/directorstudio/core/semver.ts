@@ -0,0 +1,148 @@
+// MODULE: DirectorStudio Semver
+// VERSION: 1.0.0
+// PURPOSE: Minimal semantic version parsing and range matching for module dependencies
+
+export interface ParsedVersion {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+export interface ModuleDependency {
+  name: string;
+  range?: string;
+}
+
+const VERSION_REGEX = /^(\d+)\.(\d+)\.(\d+)$/;
+const PARTIAL_REGEX = /^(\d+|x|\*)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?$/;
+
+/**
+ * Parse an exact semantic version (e.g. 1.2.3)
+ */
+export const parseVersion = (version: string): ParsedVersion | null => {
+  const match = VERSION_REGEX.exec(version);
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3])
+  };
+};
+
+/**
+ * Compare two versions; negative when a < b, positive when a > b
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+
+  // Unparseable versions sort before any valid one
+  if (!left || !right) {
+    return (left ? 1 : 0) - (right ? 1 : 0);
+  }
+
+  return (left.major - right.major) || (left.minor - right.minor) || (left.patch - right.patch);
+};
+
+/**
+ * Check that a range is one of the supported forms: *, 1, 1.2, 1.x, 1.2.3, ^1.2, ~1.2, >=1.0.0, <2.0.0
+ */
+export const isValidRange = (range: string): boolean => {
+  return range.trim().split(/\s+/).every(comparator => parseComparator(comparator) !== null);
+};
+
+/**
+ * Check whether a version satisfies a range; space-separated comparators must all match
+ */
+export const satisfies = (version: string, range?: string): boolean => {
+  if (!range || range === '*') return true;
+
+  const parsed = parseVersion(version);
+  if (!parsed) return false;
+
+  return range.trim().split(/\s+/).every(comparator => {
+    const bounds = parseComparator(comparator);
+    if (!bounds) return false;
+
+    const value = toNumber(parsed);
+    return value >= bounds.min && value < bounds.max;
+  });
+};
+
+/**
+ * Split a dependency declaration such as "VideoUploadModule@^1" into name and range
+ */
+export const parseDependency = (dependency: string): ModuleDependency => {
+  const separator = dependency.indexOf('@');
+  if (separator <= 0) {
+    return { name: dependency };
+  }
+
+  return {
+    name: dependency.slice(0, separator),
+    range: dependency.slice(separator + 1)
+  };
+};
+
+// Versions are mapped onto a single number so every range becomes [min, max)
+const SCALE = 1000000;
+
+function toNumber(version: ParsedVersion): number {
+  return (version.major * SCALE + version.minor) * SCALE + version.patch;
+}
+
+function parseComparator(comparator: string): { min: number; max: number } | null {
+  const match = /^(\^|~|>=|<=|>|<|=)?(.+)$/.exec(comparator);
+  if (!match) return null;
+
+  const operator = match[1] || '=';
+  const partial = PARTIAL_REGEX.exec(match[2]);
+  if (!partial) return null;
+
+  const parts = [partial[1], partial[2], partial[3]].map(part =>
+    part === undefined || part === 'x' || part === '*' ? undefined : Number(part)
+  );
+  const [major, minor, patch] = parts;
+
+  if (major === undefined) {
+    return operator === '=' ? { min: 0, max: Infinity } : null;
+  }
+
+  const floor = toNumber({ major, minor: minor ?? 0, patch: patch ?? 0 });
+  const exactEnd = patch !== undefined
+    ? floor + 1
+    : minor !== undefined
+      ? toNumber({ major, minor: minor + 1, patch: 0 })
+      : toNumber({ major: major + 1, minor: 0, patch: 0 });
+
+  switch (operator) {
+    case '=':
+      return { min: floor, max: exactEnd };
+    case '^':
+      // ^0.x locks the minor version, ^1.x and above lock the major version
+      return {
+        min: floor,
+        max: major > 0 || minor === undefined
+          ? toNumber({ major: major + 1, minor: 0, patch: 0 })
+          : toNumber({ major: 0, minor: minor + 1, patch: 0 })
+      };
+    case '~':
+      return {
+        min: floor,
+        max: minor === undefined
+          ? toNumber({ major: major + 1, minor: 0, patch: 0 })
+          : toNumber({ major, minor: minor + 1, patch: 0 })
+      };
+    case '>=':
+      return { min: floor, max: Infinity };
+    case '>':
+      return { min: exactEnd, max: Infinity };
+    case '<':
+      return { min: 0, max: floor };
+    case '<=':
+      return { min: 0, max: exactEnd };
+    default:
+      return null;
+  }
+}
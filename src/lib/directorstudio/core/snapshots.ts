@@ -0,0 +1,84 @@
+// MODULE: DirectorStudio State Snapshots
+// VERSION: 1.0.0
+// PURPOSE: Copy and structurally compare continuity state versions
+
+import { StateChange } from './types';
+
+/**
+ * Deep-copy plain objects, arrays and dates so later in-place changes don't
+ * rewrite a snapshot; anything else (class instances, buffers) is kept by reference
+ */
+export const cloneState = <T>(value: T): T => {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as any;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => cloneState(item)) as any;
+  }
+  if (isPlainObject(value)) {
+    return Object.keys(value).reduce<Record<string, any>>((copy, key) => {
+      copy[key] = cloneState((value as Record<string, any>)[key]);
+      return copy;
+    }, {}) as T;
+  }
+  return value;
+};
+
+/**
+ * List every path where two states differ, descending into plain objects and arrays
+ */
+export const diffStates = (
+  before: Record<string, any>,
+  after: Record<string, any>,
+  path: string = ''
+): StateChange[] => {
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return keys.reduce<StateChange[]>((changes, key) => {
+    const childPath = path ? `${path}.${key}` : key;
+
+    if (!(key in before)) {
+      return changes.concat({ path: childPath, type: 'added', after: after[key] });
+    }
+    if (!(key in after)) {
+      return changes.concat({ path: childPath, type: 'removed', before: before[key] });
+    }
+    return changes.concat(diffValues(before[key], after[key], childPath));
+  }, []);
+};
+
+function diffValues(before: any, after: any, path: string): StateChange[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: StateChange[] = [];
+    for (let index = 0; index < Math.max(before.length, after.length); index++) {
+      const itemPath = `${path}[${index}]`;
+      if (index >= before.length) {
+        changes.push({ path: itemPath, type: 'added', after: after[index] });
+      } else if (index >= after.length) {
+        changes.push({ path: itemPath, type: 'removed', before: before[index] });
+      } else {
+        changes.push(...diffValues(before[index], after[index], itemPath));
+      }
+    }
+    return changes;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    return diffStates(before, after, path);
+  }
+
+  return isEqual(before, after) ? [] : [{ path, type: 'changed', before, after }];
+}
+
+function isEqual(a: any, b: any): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return Object.is(a, b);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  if (value === null || typeof value !== 'object') return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,355 @@
+// MODULE: DirectorStudio Continuity Storage
+// VERSION: 1.0.0
+// PURPOSE: Persistent storage backends for ContinuityEngine contexts and event history
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ContinuityContext, ContinuityEvent } from './types';
+
+// Events deleted per request when trimming database history
+const TRIM_BATCH_SIZE = 1000;
+
+export interface ContinuityStorageAdapter {
+  /**
+   * Load a context with its event history, or null if it is missing or expired
+   */
+  load(sessionId: string): Promise<ContinuityContext | null>;
+
+  /**
+   * Persist context state and metadata, refreshing its TTL (0 disables expiry)
+   */
+  save(context: ContinuityContext, ttl: number): Promise<void>;
+
+  /**
+   * Append an event, trimming history to the newest maxEvents entries
+   */
+  appendEvent(sessionId: string, event: ContinuityEvent, maxEvents: number, ttl: number): Promise<void>;
+
+  /**
+   * Load a session's events from since onwards, oldest first
+   */
+  loadEvents?(sessionId: string, since: Date): Promise<ContinuityEvent[]>;
+
+  /**
+   * Remove a context and its history
+   */
+  delete(sessionId: string): Promise<void>;
+
+  /**
+   * Remove expired contexts for backends without native expiry
+   */
+  purgeExpired?(): Promise<number>;
+
+  /**
+   * List the session IDs of a user's live contexts
+   */
+  listSessions?(userId: string): Promise<string[]>;
+}
+
+/**
+ * Minimal Redis command surface used by RedisContinuityStorage (ioredis compatible)
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ...args: Array<string | number>): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  rpush(key: string, ...values: string[]): Promise<number>;
+  ltrim(key: string, start: number, stop: number): Promise<unknown>;
+  lrange(key: string, start: number, stop: number): Promise<string[]>;
+  pexpire(key: string, ttl: number): Promise<number>;
+  sadd(key: string, ...members: string[]): Promise<number>;
+  srem(key: string, ...members: string[]): Promise<number>;
+  smembers(key: string): Promise<string[]>;
+}
+
+interface StoredContext {
+  sessionId: string;
+  userId?: string;
+  state: Record<string, any>;
+  metadata: Record<string, any>;
+}
+
+export class RedisContinuityStorage implements ContinuityStorageAdapter {
+  constructor(
+    private readonly client: RedisLikeClient,
+    private readonly keyPrefix: string = 'directorstudio:continuity'
+  ) {}
+
+  public async load(sessionId: string): Promise<ContinuityContext | null> {
+    const raw = await this.client.get(this.contextKey(sessionId));
+    if (!raw) return null;
+
+    const stored: StoredContext = JSON.parse(raw);
+    const events = await this.client.lrange(this.eventsKey(sessionId), 0, -1);
+
+    return reviveContext(stored, events.map(event => JSON.parse(event)));
+  }
+
+  public async save(context: ContinuityContext, ttl: number): Promise<void> {
+    const stored: StoredContext = {
+      sessionId: context.sessionId,
+      userId: context.userId,
+      state: context.state,
+      metadata: context.metadata
+    };
+
+    if (ttl > 0) {
+      await this.client.set(this.contextKey(context.sessionId), JSON.stringify(stored), 'PX', ttl);
+      await this.client.pexpire(this.eventsKey(context.sessionId), ttl);
+    } else {
+      await this.client.set(this.contextKey(context.sessionId), JSON.stringify(stored));
+    }
+
+    if (context.userId) {
+      await this.client.sadd(this.userKey(context.userId), context.sessionId);
+      if (ttl > 0) {
+        await this.client.pexpire(this.userKey(context.userId), ttl);
+      }
+    }
+  }
+
+  public async appendEvent(
+    sessionId: string,
+    event: ContinuityEvent,
+    maxEvents: number,
+    ttl: number
+  ): Promise<void> {
+    const key = this.eventsKey(sessionId);
+
+    await this.client.rpush(key, JSON.stringify(event));
+    await this.client.ltrim(key, -maxEvents, -1);
+
+    if (ttl > 0) {
+      await this.client.pexpire(key, ttl);
+      await this.client.pexpire(this.contextKey(sessionId), ttl);
+    }
+  }
+
+  public async loadEvents(sessionId: string, since: Date): Promise<ContinuityEvent[]> {
+    const events = await this.client.lrange(this.eventsKey(sessionId), 0, -1);
+
+    return events
+      .map(event => JSON.parse(event))
+      .map(event => ({ ...event, timestamp: new Date(event.timestamp) }))
+      .filter(event => event.timestamp >= since);
+  }
+
+  public async delete(sessionId: string): Promise<void> {
+    const raw = await this.client.get(this.contextKey(sessionId));
+    const userId = raw ? (JSON.parse(raw) as StoredContext).userId : undefined;
+
+    await this.client.del(this.contextKey(sessionId), this.eventsKey(sessionId));
+    if (userId) {
+      await this.client.srem(this.userKey(userId), sessionId);
+    }
+  }
+
+  public async listSessions(userId: string): Promise<string[]> {
+    const sessionIds = await this.client.smembers(this.userKey(userId));
+    const live: string[] = [];
+
+    // The user set outlives expired contexts, so drop members whose context is gone
+    for (const sessionId of sessionIds) {
+      if (await this.client.get(this.contextKey(sessionId))) {
+        live.push(sessionId);
+      } else {
+        await this.client.srem(this.userKey(userId), sessionId);
+      }
+    }
+
+    return live;
+  }
+
+  private userKey(userId: string): string {
+    return `${this.keyPrefix}:user:${userId}:sessions`;
+  }
+
+  private contextKey(sessionId: string): string {
+    return `${this.keyPrefix}:${sessionId}:context`;
+  }
+
+  private eventsKey(sessionId: string): string {
+    return `${this.keyPrefix}:${sessionId}:events`;
+  }
+}
+
+export class DatabaseContinuityStorage implements ContinuityStorageAdapter {
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly tables: { contexts: string; events: string } = {
+      contexts: 'continuity_contexts',
+      events: 'continuity_events'
+    }
+  ) {}
+
+  public async load(sessionId: string): Promise<ContinuityContext | null> {
+    const { data: row, error } = await this.client
+      .from(this.tables.contexts)
+      .select('*')
+      .eq('session_id', sessionId)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load continuity context: ${error.message}`);
+    if (!row) return null;
+
+    const { data: events, error: eventsError } = await this.client
+      .from(this.tables.events)
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true });
+
+    if (eventsError) throw new Error(`Failed to load continuity events: ${eventsError.message}`);
+
+    return reviveContext(
+      {
+        sessionId: row.session_id,
+        userId: row.user_id ?? undefined,
+        state: row.state || {},
+        metadata: row.metadata || {}
+      },
+      (events || []).map(toContinuityEvent)
+    );
+  }
+
+  public async loadEvents(sessionId: string, since: Date): Promise<ContinuityEvent[]> {
+    const { data, error } = await this.client
+      .from(this.tables.events)
+      .select('*')
+      .eq('session_id', sessionId)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to load continuity events: ${error.message}`);
+
+    return (data || []).map(toContinuityEvent);
+  }
+
+  public async save(context: ContinuityContext, ttl: number): Promise<void> {
+    const { error } = await this.client
+      .from(this.tables.contexts)
+      .upsert({
+        session_id: context.sessionId,
+        user_id: context.userId ?? null,
+        state: context.state,
+        metadata: context.metadata,
+        expires_at: this.expiresAt(ttl),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'session_id' });
+
+    if (error) throw new Error(`Failed to save continuity context: ${error.message}`);
+  }
+
+  public async appendEvent(
+    sessionId: string,
+    event: ContinuityEvent,
+    maxEvents: number,
+    ttl: number
+  ): Promise<void> {
+    const { error } = await this.client
+      .from(this.tables.events)
+      .insert({
+        id: event.id,
+        session_id: sessionId,
+        type: event.type,
+        module: event.module,
+        data: event.data,
+        created_at: event.timestamp.toISOString()
+      });
+
+    if (error) throw new Error(`Failed to append continuity event: ${error.message}`);
+
+    // Trim history beyond the newest maxEvents entries, a batch at a time until none are left
+    while (true) {
+      const { data: overflow, error: overflowError } = await this.client
+        .from(this.tables.events)
+        .select('id')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: false })
+        .range(maxEvents, maxEvents + TRIM_BATCH_SIZE - 1);
+
+      if (overflowError) throw new Error(`Failed to trim continuity events: ${overflowError.message}`);
+      if (!overflow || overflow.length === 0) break;
+
+      const { error: deleteError } = await this.client
+        .from(this.tables.events)
+        .delete()
+        .in('id', overflow.map(row => row.id));
+
+      if (deleteError) throw new Error(`Failed to trim continuity events: ${deleteError.message}`);
+      if (overflow.length < TRIM_BATCH_SIZE) break;
+    }
+
+    const { error: touchError } = await this.client
+      .from(this.tables.contexts)
+      .update({ expires_at: this.expiresAt(ttl) })
+      .eq('session_id', sessionId);
+
+    if (touchError) throw new Error(`Failed to refresh continuity TTL: ${touchError.message}`);
+  }
+
+  public async delete(sessionId: string): Promise<void> {
+    // Events are removed by the ON DELETE CASCADE foreign key
+    const { error } = await this.client
+      .from(this.tables.contexts)
+      .delete()
+      .eq('session_id', sessionId);
+
+    if (error) throw new Error(`Failed to delete continuity context: ${error.message}`);
+  }
+
+  public async purgeExpired(): Promise<number> {
+    const { data, error } = await this.client
+      .from(this.tables.contexts)
+      .delete()
+      .lt('expires_at', new Date().toISOString())
+      .select('session_id');
+
+    if (error) throw new Error(`Failed to purge continuity contexts: ${error.message}`);
+
+    return data?.length || 0;
+  }
+
+  public async listSessions(userId: string): Promise<string[]> {
+    const { data, error } = await this.client
+      .from(this.tables.contexts)
+      .select('session_id')
+      .eq('user_id', userId)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .order('updated_at', { ascending: false });
+
+    if (error) throw new Error(`Failed to list continuity sessions: ${error.message}`);
+
+    return (data || []).map(row => row.session_id);
+  }
+
+  private expiresAt(ttl: number): string | null {
+    return ttl > 0 ? new Date(Date.now() + ttl).toISOString() : null;
+  }
+}
+
+function toContinuityEvent(row: Record<string, any>): ContinuityEvent {
+  return {
+    id: row.id,
+    type: row.type,
+    module: row.module,
+    data: row.data,
+    timestamp: new Date(row.created_at)
+  };
+}
+
+function reviveContext(stored: StoredContext, events: any[]): ContinuityContext {
+  const metadata = { ...stored.metadata };
+  if (metadata.createdAt) metadata.createdAt = new Date(metadata.createdAt);
+  if (metadata.lastAccessed) metadata.lastAccessed = new Date(metadata.lastAccessed);
+
+  return {
+    sessionId: stored.sessionId,
+    userId: stored.userId,
+    state: stored.state || {},
+    metadata,
+    history: events.map(event => ({
+      ...event,
+      timestamp: new Date(event.timestamp)
+    }))
+  };
+}
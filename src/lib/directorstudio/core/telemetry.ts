@@ -2,16 +2,65 @@
 // VERSION: 1.0.0
 // PURPOSE: Centralized telemetry and analytics system for DirectorStudio modules
 
-import { TelemetryEvent, TelemetryConfig } from './types';
+import { TelemetryEvent, TelemetryConfig, TelemetryLogLevel, ValidationMetrics } from './types';
+import {
+  TelemetryTransport,
+  TelemetryExporter,
+  TelemetryBuffer,
+  OtlpHttpExporter,
+  NdjsonFileExporter,
+  ConsoleExporter,
+  MemoryTelemetryBuffer,
+  FileTelemetryBuffer,
+  IndexedDbTelemetryBuffer
+} from './transport';
+import { Span, getActiveSpan } from './tracing';
+import { TelemetryScrubber, createScrubber } from './scrubbing';
+import {
+  TelemetryEventStore,
+  TelemetryQuery,
+  TelemetryGroupBy,
+  TelemetryAggregate,
+  MemoryTelemetryEventStore,
+  matchesTelemetryQuery
+} from './eventstore';
+
+// Config keys that change how events are delivered
+const TRANSPORT_KEYS: Array<keyof TelemetryConfig> = [
+  'endpoint', 'exporter', 'filePath', 'headers', 'buffer', 'bufferPath', 'retryBackoff', 'batchSize'
+];
+
+// How often flushes also purge stored events older than retentionDays
+const RETENTION_CHECK_INTERVAL = 60 * 60 * 1000;
+
+const LOG_LEVELS: Array<TelemetryLogLevel | 'silent'> = ['debug', 'info', 'warn', 'error', 'silent'];
+
+// Event types logged at a level other than 'info'
+const DEFAULT_EVENT_LEVELS: Record<string, TelemetryLogLevel> = {
+  error: 'error',
+  continuity_storage_unavailable: 'warn',
+  module_attempt: 'debug',
+  module_invocation_started: 'debug',
+  validation_started: 'debug',
+  continuity_event_added: 'debug',
+  continuity_state_updated: 'debug'
+};
 
 export class Telemetry {
   private static instance: Telemetry;
   private events: TelemetryEvent[] = [];
   private config: TelemetryConfig;
   private flushTimer?: NodeJS.Timeout;
+  private transport: TelemetryTransport;
+  private scrubbers: TelemetryScrubber[] = [];
+  private scrub: (data: any) => any;
+  private eventStore: TelemetryEventStore = new MemoryTelemetryEventStore();
+  private lastRetentionCheck = 0;
 
   private constructor(config: TelemetryConfig) {
     this.config = config;
+    this.scrub = createScrubber(config.scrub);
+    this.transport = this.createTransport();
     this.startFlushTimer();
   }
 
@@ -25,6 +74,13 @@ export class Telemetry {
     return Telemetry.instance;
   }
 
+  /**
+   * Create an independent telemetry instance, e.g. for one tenant's engine
+   */
+  public static create(config: TelemetryConfig): Telemetry {
+    return new Telemetry(config);
+  }
+
   /**
    * Log a telemetry event
    */
@@ -37,22 +93,47 @@ export class Telemetry {
   ): void {
     if (!this.config.enabled) return;
 
-    const event: TelemetryEvent = {
+    const span = getActiveSpan();
+
+    this.record({
       id: this.generateEventId(),
       type,
       module,
       data,
       timestamp: new Date(),
       userId,
-      sessionId
-    };
+      sessionId,
+      traceId: span?.traceId,
+      spanId: span?.spanId
+    });
+  }
 
-    this.events.push(event);
+  /**
+   * Log a finished trace span
+   */
+  public logSpan(span: Span): void {
+    if (!this.config.enabled) return;
 
-    // Auto-flush if batch size reached
-    if (this.events.length >= this.config.batchSize) {
-      this.flush();
-    }
+    this.record({
+      id: this.generateEventId(),
+      type: 'span',
+      module: span.attributes.module || 'Tracing',
+      data: {
+        name: span.name,
+        kind: span.kind,
+        status: span.status,
+        error: span.error,
+        startTime: span.startTime,
+        endTime: span.getEndTime(),
+        duration: span.getDuration(),
+        attributes: span.attributes
+      },
+      timestamp: span.startTime,
+      sessionId: span.attributes.sessionId,
+      traceId: span.traceId,
+      spanId: span.spanId,
+      parentSpanId: span.parentSpanId
+    });
   }
 
   /**
@@ -60,12 +141,7 @@ export class Telemetry {
    */
   public logMetrics(
     module: string,
-    metrics: {
-      executionTime: number;
-      memoryUsage: number;
-      cpuUsage: number;
-      throughput: number;
-    }
+    metrics: ValidationMetrics
   ): void {
     this.logEvent('module_metrics', module, metrics);
   }
@@ -80,6 +156,8 @@ export class Telemetry {
       errors: number;
       warnings: number;
       executionTime: number;
+      cached?: boolean;
+      cacheHitRatio?: number;
     }
   ): void {
     this.logEvent('validation_result', module, result);
@@ -101,7 +179,7 @@ export class Telemetry {
   }
 
   /**
-   * Get telemetry events for analysis
+   * Get events that have not been flushed yet; use queryEvents for stored history
    */
   public getEvents(filter?: {
     module?: string;
@@ -125,25 +203,122 @@ export class Telemetry {
   }
 
   /**
-   * Flush events to storage/endpoint
+   * Flush events to the transport buffer and export everything buffered
    */
   public async flush(): Promise<void> {
-    if (this.events.length === 0) return;
-
     const eventsToFlush = [...this.events];
     this.events = [];
 
     try {
-      // In a real implementation, this would send to your telemetry endpoint
-      console.log(`[Telemetry] Flushing ${eventsToFlush.length} events`);
-      
-      // Simulate API call
-      await this.sendToEndpoint(eventsToFlush);
+      await this.transport.enqueue(eventsToFlush);
     } catch (error) {
-      console.error('[Telemetry] Failed to flush events:', error);
+      console.error('[Telemetry] Failed to buffer events:', error);
       // Re-add events to queue for retry
       this.events.unshift(...eventsToFlush);
+      return;
+    }
+
+    try {
+      if (eventsToFlush.length > 0) {
+        await this.eventStore.append(eventsToFlush);
+      }
+    } catch (error) {
+      // The events are already buffered for export, so they are not re-queued
+      console.error('[Telemetry] Failed to store events:', error);
+    }
+
+    try {
+      // Export failures are retried by the transport; this only fails if the buffer does
+      await this.transport.drain();
+    } catch (error) {
+      console.error('[Telemetry] Failed to flush events:', error);
+    }
+
+    if (Date.now() - this.lastRetentionCheck >= RETENTION_CHECK_INTERVAL) {
+      await this.enforceRetention().catch(error =>
+        console.error('[Telemetry] Failed to enforce retention:', error)
+      );
+    }
+  }
+
+  /**
+   * Query stored events together with ones not flushed yet, newest first
+   */
+  public async queryEvents(query: TelemetryQuery = {}): Promise<TelemetryEvent[]> {
+    const stored = await this.eventStore.query(query);
+    const events = this.events
+      .filter(event => matchesTelemetryQuery(event, query))
+      .concat(stored)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    return query.limit ? events.slice(0, query.limit) : events;
+  }
+
+  /**
+   * Count stored events and their p50/p95 durations, optionally per group
+   */
+  public aggregateEvents(query: TelemetryQuery = {}, groupBy?: TelemetryGroupBy): Promise<TelemetryAggregate[]> {
+    return this.eventStore.aggregate(query, groupBy);
+  }
+
+  /**
+   * Delete stored events older than retentionDays; flushes do this hourly
+   */
+  public async enforceRetention(): Promise<number> {
+    this.lastRetentionCheck = Date.now();
+    if (!(this.config.retentionDays > 0)) return 0;
+
+    const cutoff = new Date(Date.now() - this.config.retentionDays * 24 * 60 * 60 * 1000);
+    const purged = await this.eventStore.purge(cutoff);
+
+    if (purged > 0) {
+      this.logEvent('telemetry_retention_enforced', 'Telemetry', { purged, cutoff });
+    }
+    return purged;
+  }
+
+  /**
+   * Replace the store flushed events are persisted to, e.g. a DatabaseTelemetryEventStore
+   */
+  public setEventStore(store: TelemetryEventStore): void {
+    this.eventStore = store;
+  }
+
+  /**
+   * Replace the transport, e.g. with a custom exporter
+   */
+  public setTransport(transport: TelemetryTransport): void {
+    const previous = this.transport;
+    this.transport = transport;
+    previous.shutdown().catch(error => console.error('[Telemetry] Failed to shut down transport:', error));
+  }
+
+  /**
+   * Add a scrubber that runs on every string in event data after the built-in ones
+   */
+  public addScrubber(scrubber: TelemetryScrubber): void {
+    this.scrubbers.push(scrubber);
+    this.scrub = createScrubber(this.config.scrub, this.scrubbers);
+  }
+
+  /**
+   * Scrub a payload with the same rules as event data, e.g. before an API returns it
+   */
+  public scrubData<T>(data: T): T {
+    return this.scrub(data);
+  }
+
+  /**
+   * Flush pending events and stop the flush timer and retries; events that
+   * could not be exported stay in a durable buffer for the next start
+   */
+  public async shutdown(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
     }
+    await this.flush();
+    await this.transport.shutdown();
   }
 
   /**
@@ -151,6 +326,13 @@ export class Telemetry {
    */
   public updateConfig(config: Partial<TelemetryConfig>): void {
     this.config = { ...this.config, ...config };
+
+    if (TRANSPORT_KEYS.some(key => key in config)) {
+      this.setTransport(this.createTransport());
+    }
+    if ('scrub' in config) {
+      this.scrub = createScrubber(this.config.scrub, this.scrubbers);
+    }
     
     if (this.flushTimer) {
       clearInterval(this.flushTimer);
@@ -165,6 +347,45 @@ export class Telemetry {
     return { ...this.config };
   }
 
+  /**
+   * Drop events below their module's verbosity or outside the sample, and
+   * scrub the rest before they are buffered
+   */
+  private record(event: TelemetryEvent): void {
+    const level = this.config.verbosity?.eventTypes?.[event.type] || DEFAULT_EVENT_LEVELS[event.type] || 'info';
+    if (!this.isVerbose(event.module, level) || !this.isSampled(event)) return;
+
+    this.events.push({ ...event, level, data: this.scrub(event.data) });
+
+    // Auto-flush if batch size reached
+    if (this.events.length >= this.config.batchSize) {
+      this.flush();
+    }
+  }
+
+  private isVerbose(module: string, level: TelemetryLogLevel): boolean {
+    const verbosity = this.config.verbosity;
+    const threshold = verbosity?.modules?.[module] || verbosity?.level || 'debug';
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+  }
+
+  private isSampled(event: TelemetryEvent): boolean {
+    const sampling = this.config.sampling;
+    if (!sampling) return true;
+
+    const typeRate = sampling.eventTypes?.[event.type];
+    const rate = typeRate !== undefined ? typeRate
+      : event.type === 'error' ? 1
+      : sampling.modules?.[event.module] ?? sampling.default ?? 1;
+
+    if (rate >= 1) return true;
+    if (rate <= 0) return false;
+
+    // Sample by trace so a trace's events are kept or dropped together
+    const value = event.traceId ? parseInt(event.traceId.slice(-8), 16) / 0x100000000 : Math.random();
+    return value < rate;
+  }
+
   private generateEventId(): string {
     return `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -177,22 +398,48 @@ export class Telemetry {
     }
   }
 
-  private async sendToEndpoint(events: TelemetryEvent[]): Promise<void> {
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 100));
-    
-    // In production, this would make an actual HTTP request
-    console.log(`[Telemetry] Sent ${events.length} events to endpoint`);
+  private createTransport(): TelemetryTransport {
+    return new TelemetryTransport(this.createExporter(), this.createBuffer(), {
+      batchSize: this.config.batchSize,
+      retryBackoff: this.config.retryBackoff
+    });
+  }
+
+  private createExporter(): TelemetryExporter {
+    const exporter = this.config.exporter || (this.config.endpoint ? 'otlp' : 'console');
+
+    switch (exporter) {
+      case 'otlp':
+        return new OtlpHttpExporter(this.config.endpoint, { headers: this.config.headers });
+      case 'ndjson':
+        if (!this.config.filePath) {
+          throw new Error('Telemetry exporter ndjson requires filePath');
+        }
+        return new NdjsonFileExporter(this.config.filePath);
+      default:
+        return new ConsoleExporter();
+    }
+  }
+
+  private createBuffer(): TelemetryBuffer {
+    switch (this.config.buffer) {
+      case 'file':
+        if (!this.config.bufferPath) {
+          throw new Error('Telemetry buffer file requires bufferPath');
+        }
+        return new FileTelemetryBuffer(this.config.bufferPath);
+      case 'indexeddb':
+        return new IndexedDbTelemetryBuffer();
+      default:
+        return new MemoryTelemetryBuffer();
+    }
   }
 
   /**
    * Cleanup resources
    */
   public destroy(): void {
-    if (this.flushTimer) {
-      clearInterval(this.flushTimer);
-    }
-    this.flush();
+    this.shutdown().catch(error => console.error('[Telemetry] Failed to shut down:', error));
   }
 }
 
@@ -209,14 +456,23 @@ export const logEvent = (
 
 export const logMetrics = (
   module: string,
-  metrics: {
+  metrics: ValidationMetrics
+) => {
+  Telemetry.getInstance().logMetrics(module, metrics);
+};
+
+export const logValidation = (
+  module: string,
+  result: {
+    isValid: boolean;
+    errors: number;
+    warnings: number;
     executionTime: number;
-    memoryUsage: number;
-    cpuUsage: number;
-    throughput: number;
+    cached?: boolean;
+    cacheHitRatio?: number;
   }
 ) => {
-  Telemetry.getInstance().logMetrics(module, metrics);
+  Telemetry.getInstance().logValidation(module, result);
 };
 
 export const logError = (
@@ -226,3 +482,14 @@ export const logError = (
 ) => {
   Telemetry.getInstance().logError(module, error, context);
 };
+
+export const queryEvents = (query?: TelemetryQuery): Promise<TelemetryEvent[]> => {
+  return Telemetry.getInstance().queryEvents(query);
+};
+
+export const aggregateEvents = (
+  query?: TelemetryQuery,
+  groupBy?: TelemetryGroupBy
+): Promise<TelemetryAggregate[]> => {
+  return Telemetry.getInstance().aggregateEvents(query, groupBy);
+};
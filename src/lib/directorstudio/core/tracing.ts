@@ -0,0 +1,203 @@
+// MODULE: DirectorStudio Tracing
+// VERSION: 1.0.0
+// PURPOSE: Trace spans with W3C traceparent propagation, reported through telemetry
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Telemetry } from './telemetry';
+
+export type SpanKind = 'internal' | 'server' | 'client';
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: Record<string, any>;
+  // Defaults to the active span; a remote context continues an incoming trace
+  parent?: SpanContext;
+  // Defaults to the parent span's telemetry, then the default instance
+  telemetry?: Telemetry;
+}
+
+// Unavailable in browser bundles, where spans still nest but only explicitly
+const activeSpans = typeof AsyncLocalStorage === 'function' ? new AsyncLocalStorage<Span>() : undefined;
+
+export class Span implements SpanContext {
+  public readonly traceId: string;
+  public readonly spanId: string;
+  public readonly parentSpanId?: string;
+  public readonly sampled: boolean;
+  public readonly kind: SpanKind;
+  public readonly startTime: Date;
+  public readonly telemetry?: Telemetry;
+  public attributes: Record<string, any>;
+  public status: 'unset' | 'ok' | 'error' = 'unset';
+  public error?: string;
+  private endTime?: Date;
+
+  constructor(public readonly name: string, options: SpanOptions = {}) {
+    const parent = options.parent || getActiveSpan();
+
+    this.traceId = parent ? parent.traceId : randomHex(16);
+    this.spanId = randomHex(8);
+    this.parentSpanId = parent?.spanId;
+    this.sampled = parent ? parent.sampled : true;
+    this.kind = options.kind || 'internal';
+    this.startTime = new Date();
+    this.attributes = { ...options.attributes };
+    this.telemetry = options.telemetry || (parent instanceof Span ? parent.telemetry : undefined);
+  }
+
+  /**
+   * The W3C traceparent header value identifying this span
+   */
+  public get traceparent(): string {
+    return formatTraceparent(this);
+  }
+
+  public setAttributes(attributes: Record<string, any>): void {
+    this.attributes = { ...this.attributes, ...attributes };
+  }
+
+  public recordError(error: unknown): void {
+    this.status = 'error';
+    this.error = error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * End the span and report it; later calls are ignored
+   */
+  public end(): void {
+    if (this.endTime) return;
+    this.endTime = new Date();
+    if (this.status === 'unset') this.status = 'ok';
+
+    if (this.sampled) {
+      resolveTelemetry(this.telemetry)?.logSpan(this);
+    }
+  }
+
+  public getDuration(): number | undefined {
+    return this.endTime ? this.endTime.getTime() - this.startTime.getTime() : undefined;
+  }
+
+  public getEndTime(): Date | undefined {
+    return this.endTime;
+  }
+}
+
+/**
+ * Get the span the current async context is running in
+ */
+export const getActiveSpan = (): Span | undefined => {
+  return activeSpans?.getStore();
+};
+
+/**
+ * Run a function inside a new child span, ending it when the function settles
+ */
+export const withSpan = async <T>(
+  name: string,
+  fn: (span: Span) => Promise<T>,
+  options: SpanOptions = {}
+): Promise<T> => {
+  const span = new Span(name, options);
+  const run = () => fn(span);
+
+  try {
+    return await (activeSpans ? activeSpans.run(span, run) : run());
+  } catch (error) {
+    span.recordError(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+};
+
+/**
+ * Parse a W3C traceparent header, ignoring malformed or all-zero values
+ */
+export const parseTraceparent = (header: string | null | undefined): SpanContext | undefined => {
+  const match = header?.trim().toLowerCase().match(/^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/);
+  if (!match || match[1] === 'ff') return undefined;
+
+  const [, , traceId, spanId, flags] = match;
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return undefined;
+
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+};
+
+export const formatTraceparent = (context: SpanContext): string => {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+};
+
+/**
+ * Wrap an API route handler in a server span that continues the caller's
+ * traceparent and returns its own traceparent on the response
+ */
+export const traceRoute = <R extends Request, A extends any[]>(
+  name: string,
+  handler: (request: R, ...args: A) => Promise<Response>
+) => {
+  return (request: R, ...args: A): Promise<Response> => withSpan(name, async span => {
+    const response = await handler(request, ...args);
+
+    span.setAttributes({ 'http.status_code': response.status });
+    if (response.status >= 500) span.status = 'error';
+
+    try {
+      response.headers.set('traceparent', span.traceparent);
+    } catch {
+      // Some responses, e.g. redirects, have immutable headers
+    }
+    return response;
+  }, {
+    kind: 'server',
+    parent: parseTraceparent(request.headers.get('traceparent')),
+    attributes: { 'http.method': request.method, 'http.route': name }
+  });
+};
+
+/**
+ * Create a fetch that records each request as a client span and propagates
+ * the trace to the server, e.g. for the Supabase client's global.fetch
+ */
+export const createTracedFetch = (service: string, baseFetch: typeof fetch = fetch): typeof fetch => {
+  return (input, init) => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    const method = init?.method || (input instanceof Request ? input.method : 'GET');
+
+    return withSpan(`${service} ${method} ${url.pathname}`, async span => {
+      const headers = new Headers(init?.headers || (input instanceof Request ? input.headers : undefined));
+      headers.set('traceparent', span.traceparent);
+
+      const response = await baseFetch(input, { ...init, headers });
+      span.setAttributes({ 'http.status_code': response.status });
+      if (response.status >= 400) span.status = 'error';
+      return response;
+    }, {
+      kind: 'client',
+      attributes: { 'peer.service': service, 'http.method': method, 'http.url': `${url.origin}${url.pathname}` }
+    });
+  };
+};
+
+function resolveTelemetry(telemetry?: Telemetry): Telemetry | undefined {
+  if (telemetry) return telemetry;
+
+  // Spans outside a configured process (e.g. in the browser) are not reported
+  try {
+    return Telemetry.getInstance();
+  } catch {
+    return undefined;
+  }
+}
+
+function randomHex(bytes: number): string {
+  const values = new Uint8Array(bytes);
+  globalThis.crypto.getRandomValues(values);
+  return Array.from(values, value => value.toString(16).padStart(2, '0')).join('');
+}
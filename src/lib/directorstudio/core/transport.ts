@@ -0,0 +1,528 @@
+// MODULE: DirectorStudio Telemetry Transport
+// VERSION: 1.0.0
+// PURPOSE: Buffered, retrying delivery of telemetry events to pluggable exporters
+
+import { promises as fs } from 'fs';
+import { RetryBackoffConfig, TelemetryEvent } from './types';
+
+const DEFAULT_TRANSPORT_BACKOFF: RetryBackoffConfig = {
+  initialDelay: 1000,
+  multiplier: 2,
+  maxDelay: 60000
+};
+
+// OTLP SeverityNumber values
+const SEVERITY_NUMBERS: Record<string, number> = { debug: 5, info: 9, warn: 13, error: 17 };
+
+// OTLP SpanKind values
+const SPAN_KINDS: Record<string, number> = { internal: 1, server: 2, client: 3 };
+
+export class TelemetryExportError extends Error {
+  /**
+   * settled lists the IDs of events in the batch that were delivered or
+   * rejected for good; only the rest of the batch is retried
+   */
+  constructor(
+    message: string,
+    public readonly retryable: boolean = true,
+    public readonly settled: string[] = []
+  ) {
+    super(message);
+    this.name = 'TelemetryExportError';
+  }
+}
+
+export interface TelemetryExporter {
+  name: string;
+  export(events: TelemetryEvent[]): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+/**
+ * Holds events that have not been exported yet, oldest first
+ */
+export interface TelemetryBuffer {
+  append(events: TelemetryEvent[]): Promise<void>;
+  read(limit: number): Promise<TelemetryEvent[]>;
+  remove(ids: string[]): Promise<void>;
+  size(): Promise<number>;
+}
+
+export interface TelemetryTransportOptions {
+  batchSize?: number;
+  retryBackoff?: Partial<RetryBackoffConfig>;
+}
+
+// ==============================================
+// EXPORTERS
+// ==============================================
+
+/**
+ * Post events to an OTLP/HTTP collector as JSON log records
+ */
+export class OtlpHttpExporter implements TelemetryExporter {
+  public readonly name = 'otlp';
+  private readonly tracesEndpoint?: string;
+
+  /**
+   * Spans go to the collector's traces endpoint, which defaults to the logs
+   * endpoint's /v1/traces sibling; without one they are sent as log records
+   */
+  constructor(
+    private readonly endpoint: string,
+    private readonly options: { headers?: Record<string, string>; serviceName?: string; tracesEndpoint?: string } = {}
+  ) {
+    this.tracesEndpoint = options.tracesEndpoint
+      || (/\/v1\/logs$/.test(endpoint) ? endpoint.replace(/\/v1\/logs$/, '/v1/traces') : undefined);
+  }
+
+  public async export(events: TelemetryEvent[]): Promise<void> {
+    const serviceName = this.options.serviceName || 'directorstudio';
+    const spans = this.tracesEndpoint ? events.filter(isSpanEvent) : [];
+    const logs = events.filter(event => !spans.includes(event));
+    const requests = [
+      { events: logs, send: () => this.post(this.endpoint, toOtlpLogs(logs, serviceName)) },
+      { events: spans, send: () => this.post(this.tracesEndpoint as string, toOtlpSpans(spans, serviceName)) }
+    ].filter(request => request.events.length > 0);
+
+    // Each signal is sent on its own, so a failed request only retries its own events
+    const settled: string[] = [];
+    let retry: TelemetryExportError | undefined;
+    let rejected: TelemetryExportError | undefined;
+
+    for (const request of requests) {
+      try {
+        await request.send();
+        settled.push(...request.events.map(event => event.id));
+      } catch (error) {
+        const exportError = error as TelemetryExportError;
+        if (exportError.retryable) {
+          retry = exportError;
+        } else {
+          rejected = exportError;
+          settled.push(...request.events.map(event => event.id));
+        }
+      }
+    }
+
+    if (retry) {
+      throw new TelemetryExportError(retry.message, true, settled);
+    }
+    if (rejected) {
+      throw rejected;
+    }
+  }
+
+  private async post(url: string, body: Record<string, any>): Promise<void> {
+    let response: Response;
+
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.options.headers },
+        body: JSON.stringify(body)
+      });
+    } catch (error) {
+      throw new TelemetryExportError(`OTLP export failed: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      // Per the OTLP spec only throttling and unavailability are worth retrying
+      const retryable = [429, 502, 503, 504].includes(response.status);
+      throw new TelemetryExportError(`OTLP export failed with status ${response.status}`, retryable);
+    }
+  }
+}
+
+/**
+ * Append events to a file as newline-delimited JSON
+ */
+export class NdjsonFileExporter implements TelemetryExporter {
+  public readonly name = 'ndjson';
+
+  constructor(private readonly filePath: string) {}
+
+  public async export(events: TelemetryEvent[]): Promise<void> {
+    await fs.appendFile(this.filePath, events.map(event => JSON.stringify(event) + '\n').join(''), 'utf8');
+  }
+}
+
+/**
+ * Log batch sizes only, at debug level; used when no endpoint is configured
+ */
+export class ConsoleExporter implements TelemetryExporter {
+  public readonly name = 'console';
+
+  public async export(events: TelemetryEvent[]): Promise<void> {
+    console.debug(`[Telemetry] Sent ${events.length} events to endpoint`);
+  }
+}
+
+// ==============================================
+// BUFFERS
+// ==============================================
+
+export class MemoryTelemetryBuffer implements TelemetryBuffer {
+  private events: TelemetryEvent[] = [];
+
+  constructor(private readonly maxEvents: number = 10000) {}
+
+  public async append(events: TelemetryEvent[]): Promise<void> {
+    this.events.push(...events);
+    if (this.events.length > this.maxEvents) {
+      this.events = this.events.slice(-this.maxEvents);
+    }
+  }
+
+  public async read(limit: number): Promise<TelemetryEvent[]> {
+    return this.events.slice(0, limit);
+  }
+
+  public async remove(ids: string[]): Promise<void> {
+    const removed = new Set(ids);
+    this.events = this.events.filter(event => !removed.has(event.id));
+  }
+
+  public async size(): Promise<number> {
+    return this.events.length;
+  }
+}
+
+/**
+ * Keep pending events in an NDJSON file so they survive a restart
+ */
+export class FileTelemetryBuffer implements TelemetryBuffer {
+  // Operations are chained so concurrent appends and removes don't lose writes
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string, private readonly maxEvents: number = 10000) {}
+
+  public append(events: TelemetryEvent[]): Promise<void> {
+    return this.enqueue(async () => {
+      const stored = (await this.load()).concat(events);
+      await this.write(stored.slice(-this.maxEvents));
+    });
+  }
+
+  public read(limit: number): Promise<TelemetryEvent[]> {
+    return this.enqueue(async () => (await this.load()).slice(0, limit));
+  }
+
+  public remove(ids: string[]): Promise<void> {
+    const removed = new Set(ids);
+    return this.enqueue(async () => {
+      await this.write((await this.load()).filter(event => !removed.has(event.id)));
+    });
+  }
+
+  public size(): Promise<number> {
+    return this.enqueue(async () => (await this.load()).length);
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(operation, operation);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async load(): Promise<TelemetryEvent[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    return raw
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => reviveEvent(JSON.parse(line)));
+  }
+
+  private async write(events: TelemetryEvent[]): Promise<void> {
+    // Write then rename so a crash mid-write never leaves a truncated buffer
+    const temporary = `${this.filePath}.tmp`;
+    await fs.writeFile(temporary, events.map(event => JSON.stringify(event) + '\n').join(''), 'utf8');
+    await fs.rename(temporary, this.filePath);
+  }
+}
+
+/**
+ * Keep pending events in IndexedDB so browser telemetry survives a reload
+ */
+export class IndexedDbTelemetryBuffer implements TelemetryBuffer {
+  private database?: Promise<IDBDatabase>;
+
+  constructor(
+    private readonly databaseName: string = 'directorstudio-telemetry',
+    private readonly maxEvents: number = 10000
+  ) {}
+
+  public async append(events: TelemetryEvent[]): Promise<void> {
+    const store = await this.store('readwrite');
+    events.forEach(event => store.add(event));
+    await completed(store.transaction);
+
+    const overflow = (await this.size()) - this.maxEvents;
+    if (overflow > 0) {
+      await this.remove((await this.read(overflow)).map(event => event.id));
+    }
+  }
+
+  public async read(limit: number): Promise<TelemetryEvent[]> {
+    const index = (await this.store('readonly')).index('timestamp');
+
+    return new Promise((resolve, reject) => {
+      const events: TelemetryEvent[] = [];
+      const request = index.openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor && events.length < limit) {
+          events.push(reviveEvent(cursor.value));
+          cursor.continue();
+        } else {
+          resolve(events);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  public async remove(ids: string[]): Promise<void> {
+    const store = await this.store('readwrite');
+    ids.forEach(id => store.delete(id));
+    await completed(store.transaction);
+  }
+
+  public async size(): Promise<number> {
+    const request = (await this.store('readonly')).count();
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction('events', mode).objectStore('events');
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore('events', { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+}
+
+// ==============================================
+// TRANSPORT
+// ==============================================
+
+/**
+ * Deliver buffered events to an exporter in batches. Failed batches stay in
+ * the buffer and are retried with exponential backoff.
+ */
+export class TelemetryTransport {
+  private retryTimer?: NodeJS.Timeout;
+  private failures: number = 0;
+  private draining?: Promise<void>;
+  private closed: boolean = false;
+
+  constructor(
+    private readonly exporter: TelemetryExporter,
+    private readonly buffer: TelemetryBuffer = new MemoryTelemetryBuffer(),
+    private readonly options: TelemetryTransportOptions = {}
+  ) {}
+
+  /**
+   * Buffer events for delivery
+   */
+  public async enqueue(events: TelemetryEvent[]): Promise<void> {
+    if (events.length > 0) {
+      await this.buffer.append(events);
+    }
+  }
+
+  /**
+   * Export everything buffered; while a retry is scheduled this waits for it
+   * unless forced
+   */
+  public drain(force: boolean = false): Promise<void> {
+    if (this.retryTimer && !force) return Promise.resolve();
+
+    if (!this.draining) {
+      this.draining = this.exportBuffered().finally(() => {
+        this.draining = undefined;
+      });
+    }
+    return this.draining;
+  }
+
+  /**
+   * Get the number of events waiting to be exported
+   */
+  public pending(): Promise<number> {
+    return this.buffer.size();
+  }
+
+  /**
+   * Make a final delivery attempt and stop retrying; anything still pending
+   * stays in a durable buffer for the next process
+   */
+  public async shutdown(): Promise<void> {
+    this.closed = true;
+    this.clearRetry();
+    await this.draining;
+    await this.drain(true);
+    await this.exporter.shutdown?.();
+  }
+
+  private async exportBuffered(): Promise<void> {
+    const batchSize = this.options.batchSize || 100;
+
+    while (true) {
+      const batch = await this.buffer.read(batchSize);
+      if (batch.length === 0) return;
+
+      try {
+        await this.exporter.export(batch);
+        this.failures = 0;
+        this.clearRetry();
+      } catch (error) {
+        if (error instanceof TelemetryExportError && !error.retryable) {
+          console.error(`[Telemetry] Dropped ${batch.length} events rejected by ${this.exporter.name}:`, error.message);
+        } else {
+          // Events the exporter already settled are not sent again
+          if (error instanceof TelemetryExportError && error.settled.length > 0) {
+            await this.buffer.remove(error.settled);
+          }
+          this.scheduleRetry(error as Error);
+          return;
+        }
+      }
+
+      await this.buffer.remove(batch.map(event => event.id));
+    }
+  }
+
+  private scheduleRetry(error: Error): void {
+    this.failures++;
+    this.clearRetry();
+    if (this.closed) return;
+
+    const backoff = { ...DEFAULT_TRANSPORT_BACKOFF, ...this.options.retryBackoff };
+    const delay = Math.min(backoff.initialDelay * Math.pow(backoff.multiplier, this.failures - 1), backoff.maxDelay);
+
+    console.error(`[Telemetry] Export to ${this.exporter.name} failed, retrying in ${delay}ms:`, error.message);
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.drain();
+    }, delay);
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+  }
+}
+
+/**
+ * Map events to an OTLP/HTTP JSON logs request
+ */
+export const toOtlpLogs = (events: TelemetryEvent[], serviceName: string): Record<string, any> => ({
+  resourceLogs: [{
+    resource: {
+      attributes: [{ key: 'service.name', value: { stringValue: serviceName } }]
+    },
+    scopeLogs: [{
+      scope: { name: 'directorstudio.telemetry' },
+      logRecords: events.map(event => {
+        const level = event.level || (event.type === 'error' ? 'error' : 'info');
+
+        return {
+          timeUnixNano: `${new Date(event.timestamp).getTime()}000000`,
+          severityNumber: SEVERITY_NUMBERS[level],
+          severityText: level.toUpperCase(),
+          body: { stringValue: event.type },
+          ...(event.traceId ? { traceId: event.traceId, spanId: event.spanId } : {}),
+          attributes: [
+            attribute('event.id', event.id),
+            attribute('event.module', event.module),
+            ...(event.userId ? [attribute('user.id', event.userId)] : []),
+            ...(event.sessionId ? [attribute('session.id', event.sessionId)] : []),
+            ...Object.keys(event.data || {}).map(key => attribute(`data.${key}`, event.data[key]))
+          ]
+        };
+      })
+    }]
+  }]
+});
+
+/**
+ * Map span events to an OTLP/HTTP JSON ExportTraceServiceRequest
+ */
+export const toOtlpSpans = (events: TelemetryEvent[], serviceName: string): Record<string, any> => ({
+  resourceSpans: [{
+    resource: {
+      attributes: [{ key: 'service.name', value: { stringValue: serviceName } }]
+    },
+    scopeSpans: [{
+      scope: { name: 'directorstudio.tracing' },
+      spans: events.map(event => ({
+        traceId: event.traceId,
+        spanId: event.spanId,
+        ...(event.parentSpanId ? { parentSpanId: event.parentSpanId } : {}),
+        name: event.data.name,
+        kind: SPAN_KINDS[event.data.kind] || 1,
+        startTimeUnixNano: `${new Date(event.data.startTime).getTime()}000000`,
+        endTimeUnixNano: `${new Date(event.data.endTime || event.data.startTime).getTime()}000000`,
+        attributes: Object.keys(event.data.attributes || {})
+          .map(key => attribute(key, event.data.attributes[key])),
+        status: event.data.status === 'error'
+          ? { code: 2, message: event.data.error || '' }
+          : { code: 1 }
+      }))
+    }]
+  }]
+});
+
+function isSpanEvent(event: TelemetryEvent): boolean {
+  return event.type === 'span' && !!event.traceId && !!event.spanId;
+}
+
+function attribute(key: string, value: any): { key: string; value: Record<string, any> } {
+  if (typeof value === 'string') return { key, value: { stringValue: value } };
+  if (typeof value === 'boolean') return { key, value: { boolValue: value } };
+  if (typeof value === 'number') {
+    return Number.isInteger(value)
+      ? { key, value: { intValue: String(value) } }
+      : { key, value: { doubleValue: value } };
+  }
+  return { key, value: { stringValue: JSON.stringify(value) } };
+}
+
+function completed(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function reviveEvent(event: any): TelemetryEvent {
+  return { ...event, timestamp: new Date(event.timestamp) };
+}
@@ -2,16 +2,197 @@
 // VERSION: 1.0.0
 // PURPOSE: Core type definitions for DirectorStudio ecosystem
 
-export interface PipelineModule {
+import type { ZodType } from 'zod';
+
+export interface PipelineModule<TIn = any, TOut = any> {
   readonly version: string;
   readonly name: string;
   readonly dependencies: string[];
   readonly config: ModuleConfig;
+  readonly schemas?: ModuleSchemas<TIn, TOut>;
   
   initialize(): Promise<void>;
-  process(input: any): Promise<any>;
+  /** The signal is aborted when the run is cancelled or this attempt times out */
+  process(input: TIn | DependencyInput, signal?: AbortSignal): Promise<TOut>;
   validate(): Promise<ValidationResult>;
   cleanup(): Promise<void>;
+  /** Remove temporary artifacts left by a process() call that failed, timed out or was cancelled */
+  cleanupPartial?(input: TIn | DependencyInput): Promise<void>;
+  /** Extra validation rules applied only to this module */
+  readonly rules?: ValidationRule[];
+}
+
+/**
+ * Read access to registered modules, newest version first, for registry-aware validation
+ */
+export interface ModuleRegistry {
+  getModules(): PipelineModule[];
+  getModuleVersions(name: string): PipelineModule[];
+}
+
+export interface PipelineRunOptions {
+  signal?: AbortSignal;
+  /** Named pipeline definition to run instead of every registered module */
+  pipeline?: string;
+}
+
+export interface PipelineDefinition {
+  description?: string;
+  /** Modules in the pipeline; list order sets priority unless a config override gives one */
+  modules: PipelineDefinitionModule[];
+  /** Explicit dependency edges; without them each module keeps its declared dependencies */
+  edges?: PipelineEdge[];
+}
+
+export interface PipelineDefinitionModule {
+  name: string;
+  /** Version range to run, e.g. ^1.2 */
+  version?: string;
+  config?: Partial<ModuleConfig>;
+}
+
+export interface PipelineEdge {
+  from: string;
+  to: string;
+}
+
+export interface ModuleInvocation {
+  module: PipelineModule;
+  input: any;
+  sessionId: string;
+  userId?: string;
+  runId: string;
+  signal?: AbortSignal;
+  startedAt: number;
+  /** Scratch space shared by middleware across the hooks of one invocation */
+  state: Record<string, any>;
+}
+
+export interface MiddlewareResult {
+  output: any;
+}
+
+export interface PipelineMiddleware {
+  readonly name: string;
+  /** Runs before the module; throw to reject the invocation, or return a result to skip the module */
+  before?(invocation: ModuleInvocation): Promise<MiddlewareResult | void> | MiddlewareResult | void;
+  /** Runs after the module succeeds; return a result to replace its output */
+  after?(invocation: ModuleInvocation, output: any): Promise<MiddlewareResult | void> | MiddlewareResult | void;
+  /** Runs when the module or an earlier hook fails */
+  error?(invocation: ModuleInvocation, error: Error): Promise<void> | void;
+}
+
+export interface DependencyInput<T = any> {
+  input: T;
+  dependencies: Record<string, any>;
+}
+
+export interface ModuleSchemas<TIn = any, TOut = any> {
+  input: ZodType<TIn, any, any>;
+  output: ZodType<TOut, any, any>;
+  /** Pipeline input read alongside dependency outputs; defaults to input */
+  pipelineInput?: ZodType<any, any, any>;
+  /** Expected outputs of upstream modules, keyed by dependency name */
+  dependencies?: Record<string, ZodType<any, any, any>>;
+}
+
+export interface ModuleExecutionResult {
+  module: string;
+  status: 'completed' | 'failed' | 'skipped' | 'cancelled';
+  output?: any;
+  error?: string;
+  executionTime: number;
+  attempts: number;
+  fromCheckpoint?: boolean;
+  metrics?: ValidationMetrics;
+}
+
+export interface PipelineRunRecord {
+  runId: string;
+  sessionId: string;
+  userId?: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  input: any;
+  results: Record<string, ModuleExecutionResult>;
+  moduleVersions: Record<string, string>;
+  startedAt: Date;
+  completedAt?: Date;
+  totalExecutionTime?: number;
+  error?: string;
+  resumed: boolean;
+  replayOf?: string;
+  pipeline?: string;
+  traceId?: string;
+}
+
+export interface DeadLetterEntry {
+  id: string;
+  runId: string;
+  sessionId: string;
+  userId?: string;
+  pipeline?: string;
+  module: string;
+  moduleVersion?: string;
+  error: string;
+  attempts: number;
+  // The original pipeline input, so the module can be retried
+  payload: any;
+  createdAt: Date;
+}
+
+export interface ReplayDifference {
+  module: string;
+  previousVersion?: string;
+  currentVersion?: string;
+  previousStatus?: ModuleExecutionResult['status'];
+  currentStatus?: ModuleExecutionResult['status'];
+  outputChanged: boolean;
+}
+
+export interface PipelineReplayResult {
+  replayOf: string;
+  result: PipelineResult;
+  differences: ReplayDifference[];
+}
+
+export interface ModuleCheckpoint {
+  module: string;
+  version: string;
+  inputHash: string;
+  output: any;
+  completedAt: Date;
+}
+
+export interface PipelineResult {
+  runId: string;
+  sessionId: string;
+  results: Record<string, ModuleExecutionResult>;
+  moduleVersions: Record<string, string>;
+  totalExecutionTime: number;
+}
+
+export interface PipelineModuleStatus {
+  name: string;
+  version: string;
+  // Every registered version, newest first
+  versions: string[];
+  enabled: boolean;
+  priority: number;
+  initialized: boolean;
+  // Last validateModule() result for this version, passing or not
+  lastValidation?: ValidationResult;
+  // Attempts and failed attempts within the error rate window
+  attempts: number;
+  failures: number;
+  errorRate: number;
+}
+
+export interface PipelineStatus {
+  initialized: boolean;
+  modules: PipelineModuleStatus[];
+  activeContexts: number;
+  errorRateWindow: number;
+  timestamp: Date;
 }
 
 export interface ValidatableModule extends PipelineModule {
@@ -25,14 +206,56 @@ export interface ModuleConfig {
   priority: number;
   timeout: number;
   retries: number;
+  retryBackoff?: RetryBackoffConfig;
   metadata: Record<string, any>;
 }
 
+export interface RetryBackoffConfig {
+  initialDelay: number;
+  multiplier: number;
+  maxDelay: number;
+}
+
 export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
   warnings: ValidationWarning[];
   metrics: ValidationMetrics;
+  /** Names of the validation rules that ran */
+  rules?: string[];
+}
+
+export type ValidationScope = 'structure' | 'data' | 'integration';
+
+export interface ValidationRuleContext {
+  module: PipelineModule;
+  /** The data being validated, for 'data' rules */
+  data?: any;
+  /** Registered modules, for 'integration' rules when validating against a registry */
+  registry?: ModuleRegistry;
+}
+
+/**
+ * A problem found by a rule; code and severity default to the rule's name and severity
+ */
+export interface ValidationRuleIssue {
+  message: string;
+  code?: string;
+  severity?: ValidationError['severity'];
+}
+
+/**
+ * A named check run for every module in its scope; 'warning' issues are
+ * reported as warnings and everything else as errors
+ */
+export interface ValidationRule {
+  name: string;
+  scope: ValidationScope;
+  severity: ValidationError['severity'];
+  description?: string;
+  /** Rules that are off unless switched on in ValidationConfig.rules */
+  disabledByDefault?: boolean;
+  check(context: ValidationRuleContext): ValidationRuleIssue[] | Promise<ValidationRuleIssue[]>;
 }
 
 export interface ValidationError {
@@ -55,6 +278,8 @@ export interface ValidationMetrics {
   memoryUsage: number;
   cpuUsage: number;
   throughput: number;
+  bytesIn?: number;
+  bytesOut?: number;
 }
 
 export interface TelemetryEvent {
@@ -65,6 +290,10 @@ export interface TelemetryEvent {
   timestamp: Date;
   userId?: string;
   sessionId?: string;
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  level?: TelemetryLogLevel;
 }
 
 export interface ContinuityContext {
@@ -75,6 +304,33 @@ export interface ContinuityContext {
   metadata: Record<string, any>;
 }
 
+export interface UserContext {
+  userId: string;
+  // The merged sessions, most recently active first
+  sessions: Array<{ sessionId: string; lastAccessed: Date }>;
+  // State merged across sessions; newer sessions win on conflicting keys
+  state: Record<string, any>;
+  // The session each merged key was taken from
+  sources: Record<string, string>;
+}
+
+export interface ContinuitySnapshot {
+  version: number;
+  timestamp: Date;
+  module: string;
+  source: 'create' | 'update' | 'clear' | 'load' | 'handoff';
+  // Keys written or removed by the change that produced this version
+  keys: string[];
+  state: Record<string, any>;
+}
+
+export interface StateChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+}
+
 export interface ContinuityEvent {
   id: string;
   type: string;
@@ -83,11 +339,23 @@ export interface ContinuityEvent {
   module: string;
 }
 
+export interface ContinuityEventFilter {
+  type?: string;
+  module?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export type ContinuityEventHandler = (event: ContinuityEvent, sessionId: string) => void | Promise<void>;
+
 export interface DirectorStudioConfig {
   modules: Record<string, ModuleConfig>;
   telemetry: TelemetryConfig;
   continuity: ContinuityConfig;
   validation: ValidationConfig;
+  pipelines?: Record<string, PipelineDefinition>;
+  /** JSON or YAML file with pipeline definitions, loaded at startup */
+  pipelinesFile?: string;
 }
 
 export interface TelemetryConfig {
@@ -96,6 +364,49 @@ export interface TelemetryConfig {
   batchSize: number;
   flushInterval: number;
   retentionDays: number;
+  // 'otlp' posts to endpoint as OTLP/HTTP JSON, 'ndjson' appends to filePath;
+  // defaults to 'otlp' when an endpoint is set and 'console' otherwise
+  exporter?: 'otlp' | 'ndjson' | 'console';
+  filePath?: string;
+  headers?: Record<string, string>;
+  // Where events wait until exported; 'file' keeps them at bufferPath across restarts
+  buffer?: 'memory' | 'file' | 'indexeddb';
+  bufferPath?: string;
+  retryBackoff?: RetryBackoffConfig;
+  sampling?: TelemetrySamplingConfig;
+  verbosity?: TelemetryVerbosityConfig;
+  scrub?: TelemetryScrubConfig;
+}
+
+export type TelemetryLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Fractions (0-1) of events to keep; an event type's rate wins over its module's.
+ * Errors are always kept unless their event type is given a rate.
+ */
+export interface TelemetrySamplingConfig {
+  default?: number;
+  modules?: Record<string, number>;
+  eventTypes?: Record<string, number>;
+}
+
+export interface TelemetryVerbosityConfig {
+  // Minimum level recorded, overall (default 'debug') and per module
+  level?: TelemetryLogLevel | 'silent';
+  modules?: Record<string, TelemetryLogLevel | 'silent'>;
+  // Level of each event type, over the built-in defaults
+  eventTypes?: Record<string, TelemetryLogLevel>;
+}
+
+export interface TelemetryScrubConfig {
+  // Emails, signed URLs, tokens and secret fields are masked unless disabled. Pipeline
+  // inputs are stored unmasked so resumes, replays and retries see the real values;
+  // the admin and event stream APIs mask them with these rules before responding
+  enabled?: boolean;
+  // Extra field names whose values are masked outright
+  keys?: string[];
+  // Extra regular expressions masked wherever they appear in string values
+  patterns?: Array<{ pattern: string; replacement?: string }>;
 }
 
 export interface ContinuityConfig {
@@ -103,6 +414,8 @@ export interface ContinuityConfig {
   storage: 'memory' | 'redis' | 'database';
   ttl: number;
   maxEvents: number;
+  // State versions kept per session for time-travel queries (default 100)
+  maxSnapshots?: number;
 }
 
 export interface ValidationConfig {
@@ -110,4 +423,12 @@ export interface ValidationConfig {
   autoValidate: boolean;
   timeout: number;
   retries: number;
+  // Rules switched on or off by name
+  rules?: Record<string, boolean>;
+  // Rule switches per environment, applied over rules
+  environmentRules?: Record<string, Record<string, boolean>>;
+  // Environment selecting environmentRules; defaults to NODE_ENV
+  environment?: string;
+  // Warning codes or rule names reported as errors in strict mode
+  escalate?: string[];
 }
@@ -4,22 +4,56 @@
 
 import { 
   PipelineModule, 
+  ModuleRegistry,
   ValidatableModule, 
   ValidationResult, 
   ValidationError, 
   ValidationWarning,
   ValidationMetrics,
-  ValidationConfig
+  ValidationConfig,
+  ValidationRule,
+  ValidationRuleContext,
+  ValidationRuleIssue,
+  ValidationScope
 } from './types';
-import { logEvent, logValidation } from './telemetry';
+import { createHash } from 'crypto';
+import type { ZodTypeAny } from 'zod';
+import { Telemetry } from './telemetry';
+import { startResourceMeasurement } from './metrics';
+import { compareVersions, parseDependency, satisfies } from './semver';
+import { checkSchemaCompatibility, describeIssues } from './contracts';
+import { BUILT_IN_RULES } from './rules';
+
+export interface ValidationCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+  hitRatio: number;
+}
+
+interface CachedValidation {
+  module: string;
+  version: string;
+  configHash: string;
+  result: ValidationResult;
+}
 
 export class DirectorStudioValidator {
   private static instance: DirectorStudioValidator;
   private config: ValidationConfig;
-  private validationCache: Map<string, ValidationResult> = new Map();
+  // Passing results keyed by module name and version; entries also carry the module config hash
+  private validationCache: Map<string, CachedValidation> = new Map();
+  // Latest result per module name and version, passing or not; invalidation leaves it in place
+  private lastResults: Map<string, ValidationResult> = new Map();
+  private cacheHits: number = 0;
+  private cacheMisses: number = 0;
+  private rules: ValidationRule[] = [...BUILT_IN_RULES];
 
-  private constructor(config: ValidationConfig) {
+  private scopedTelemetry?: Telemetry;
+
+  private constructor(config: ValidationConfig, telemetry?: Telemetry) {
     this.config = config;
+    this.scopedTelemetry = telemetry;
   }
 
   public static getInstance(config?: ValidationConfig): DirectorStudioValidator {
@@ -32,14 +66,44 @@ export class DirectorStudioValidator {
     return DirectorStudioValidator.instance;
   }
 
+  /**
+   * Create an independent validator with its own cache; without a telemetry
+   * instance it reports to the default one
+   */
+  public static create(config: ValidationConfig, telemetry?: Telemetry): DirectorStudioValidator {
+    return new DirectorStudioValidator(config, telemetry);
+  }
+
   /**
    * Validate a pipeline module
+   *
+   * Passing results are cached per module version and config hash until the
+   * validator config changes or the module is invalidated.
    */
   public async validateModule(module: PipelineModule): Promise<ValidationResult> {
-    const startTime = Date.now();
     const moduleName = module.name;
+    const cacheKey = this.getCacheKey(moduleName, module.version);
+    const configHash = this.hashConfig(module);
+    const cached = this.validationCache.get(cacheKey);
+
+    if (cached && cached.configHash === configHash) {
+      this.cacheHits++;
+      this.telemetry.logValidation(moduleName, {
+        isValid: true,
+        errors: 0,
+        warnings: cached.result.warnings.length,
+        executionTime: 0,
+        cached: true,
+        cacheHitRatio: this.getCacheStats().hitRatio
+      });
+      this.lastResults.set(cacheKey, cached.result);
+      return cached.result;
+    }
+
+    this.cacheMisses++;
+    const measurement = startResourceMeasurement();
     
-    logEvent('validation_started', 'DirectorStudioValidator', {
+    this.telemetry.logEvent('validation_started', 'DirectorStudioValidator', {
       module: moduleName,
       version: module.version
     });
@@ -47,24 +111,35 @@ export class DirectorStudioValidator {
     try {
       const result = await this.performModuleValidation(module);
       
-      const executionTime = Date.now() - startTime;
-      result.metrics.executionTime = executionTime;
+      result.metrics = measurement.stop();
+      const executionTime = result.metrics.executionTime;
       
       // Cache result if validation passed
       if (result.isValid) {
-        this.validationCache.set(moduleName, result);
+        this.validationCache.set(cacheKey, {
+          module: moduleName,
+          version: module.version,
+          configHash,
+          result
+        });
+      } else {
+        this.validationCache.delete(cacheKey);
       }
 
-      logValidation(moduleName, {
+      this.telemetry.logValidation(moduleName, {
         isValid: result.isValid,
         errors: result.errors.length,
         warnings: result.warnings.length,
-        executionTime
+        executionTime,
+        cached: false,
+        cacheHitRatio: this.getCacheStats().hitRatio
       });
 
+      this.lastResults.set(cacheKey, result);
       return result;
     } catch (error) {
-      const executionTime = Date.now() - startTime;
+      const metrics = measurement.stop();
+      const executionTime = metrics.executionTime;
       
       const errorResult: ValidationResult = {
         isValid: false,
@@ -76,21 +151,19 @@ export class DirectorStudioValidator {
           timestamp: new Date()
         }],
         warnings: [],
-        metrics: {
-          executionTime,
-          memoryUsage: 0,
-          cpuUsage: 0,
-          throughput: 0
-        }
+        metrics
       };
 
-      logValidation(moduleName, {
+      this.telemetry.logValidation(moduleName, {
         isValid: false,
         errors: 1,
         warnings: 0,
-        executionTime
+        executionTime,
+        cached: false,
+        cacheHitRatio: this.getCacheStats().hitRatio
       });
 
+      this.lastResults.set(cacheKey, errorResult);
       return errorResult;
     }
   }
@@ -99,84 +172,28 @@ export class DirectorStudioValidator {
    * Validate module structure
    */
   public async validateStructure(module: PipelineModule): Promise<ValidationResult> {
-    const errors: ValidationError[] = [];
-    const warnings: ValidationWarning[] = [];
-
-    // Check required properties
-    if (!module.name) {
-      errors.push({
-        code: 'MISSING_NAME',
-        message: 'Module must have a name property',
-        severity: 'critical',
-        module: 'unknown',
-        timestamp: new Date()
-      });
-    }
-
-    if (!module.version) {
-      errors.push({
-        code: 'MISSING_VERSION',
-        message: 'Module must have a version property',
-        severity: 'critical',
-        module: module.name || 'unknown',
-        timestamp: new Date()
-      });
-    }
-
-    if (!module.initialize || typeof module.initialize !== 'function') {
-      errors.push({
-        code: 'MISSING_INITIALIZE',
-        message: 'Module must implement initialize() method',
-        severity: 'critical',
-        module: module.name || 'unknown',
-        timestamp: new Date()
-      });
-    }
-
-    if (!module.process || typeof module.process !== 'function') {
-      errors.push({
-        code: 'MISSING_PROCESS',
-        message: 'Module must implement process() method',
-        severity: 'critical',
-        module: module.name || 'unknown',
-        timestamp: new Date()
-      });
-    }
-
-    if (!module.validate || typeof module.validate !== 'function') {
-      errors.push({
-        code: 'MISSING_VALIDATE',
-        message: 'Module must implement validate() method',
-        severity: 'critical',
-        module: module.name || 'unknown',
-        timestamp: new Date()
-      });
-    }
+    return this.runRules('structure', { module });
+  }
 
-    if (!module.cleanup || typeof module.cleanup !== 'function') {
-      errors.push({
-        code: 'MISSING_CLEANUP',
-        message: 'Module must implement cleanup() method',
-        severity: 'error',
-        module: module.name || 'unknown',
-        timestamp: new Date()
-      });
-    }
+  /**
+   * Validate module data
+   */
+  public async validateData(module: PipelineModule, data: any): Promise<ValidationResult> {
+    return this.runRules('data', { module, data });
+  }
 
-    // Check version format
-    if (module.version && !this.isValidVersion(module.version)) {
-      warnings.push({
-        code: 'INVALID_VERSION_FORMAT',
-        message: 'Version should follow semantic versioning (e.g., 1.0.0)',
-        module: module.name || 'unknown',
-        timestamp: new Date()
-      });
-    }
+  /**
+   * Validate module output against its declared output schema
+   */
+  public async validateOutput(module: PipelineModule, output: any): Promise<ValidationResult> {
+    const errors = module.schemas
+      ? this.checkSchema(module, module.schemas.output, output, 'output')
+      : [];
 
     return {
       isValid: errors.length === 0,
       errors,
-      warnings,
+      warnings: [],
       metrics: {
         executionTime: 0,
         memoryUsage: 0,
@@ -187,37 +204,50 @@ export class DirectorStudioValidator {
   }
 
   /**
-   * Validate module data
+   * Check that each module's declared dependency schemas accept what the
+   * connected upstream modules declare as their output
    */
-  public async validateData(module: PipelineModule, data: any): Promise<ValidationResult> {
+  public validateContracts(modules: PipelineModule[]): ValidationResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
+    const byName = new Map(modules.map(module => [module.name, module] as [string, PipelineModule]));
 
-    // Basic data validation
-    if (data === null || data === undefined) {
-      errors.push({
-        code: 'NULL_DATA',
-        message: 'Data cannot be null or undefined',
-        severity: 'error',
-        module: module.name,
-        timestamp: new Date()
-      });
-    }
+    modules.forEach(module => {
+      const expected = module.schemas?.dependencies || {};
+
+      module.dependencies.forEach(dependency => {
+        const { name } = parseDependency(dependency);
+        const provider = byName.get(name);
+        if (!provider || !expected[name]) return;
 
-    // Type-specific validation based on module type
-    if (module.name.includes('Video') && data) {
-      if (typeof data === 'object' && data.file_url) {
-        if (!this.isValidUrl(data.file_url)) {
+        if (!provider.schemas) {
+          warnings.push({
+            code: 'MISSING_OUTPUT_SCHEMA',
+            message: `Dependency ${name} declares no output schema; ${module.name} cannot check its contract`,
+            module: module.name,
+            timestamp: new Date()
+          });
+          return;
+        }
+
+        const problems = checkSchemaCompatibility(provider.schemas.output, expected[name]);
+        if (problems.length > 0) {
           errors.push({
-            code: 'INVALID_URL',
-            message: 'Invalid file URL format',
+            code: 'SCHEMA_INCOMPATIBLE',
+            message: `Output of ${name} does not satisfy ${module.name}: ${problems.join('; ')}`,
             severity: 'error',
             module: module.name,
             timestamp: new Date()
           });
         }
-      }
-    }
+      });
+    });
+
+    this.telemetry.logEvent('contracts_validated', 'DirectorStudioValidator', {
+      modules: modules.length,
+      errors: errors.length,
+      warnings: warnings.length
+    });
 
     return {
       isValid: errors.length === 0,
@@ -234,65 +264,91 @@ export class DirectorStudioValidator {
 
   /**
    * Validate module integration
+   *
+   * With a registry, the module's dependencies are also resolved against it as
+   * if the module were registered: missing, version-incompatible and disabled
+   * dependencies, cycles through the module and priorities that contradict
+   * dependency order are reported.
    */
-  public async validateIntegration(module: PipelineModule): Promise<ValidationResult> {
-    const errors: ValidationError[] = [];
-    const warnings: ValidationWarning[] = [];
+  public async validateIntegration(module: PipelineModule, registry?: ModuleRegistry): Promise<ValidationResult> {
+    return this.runRules('integration', { module, registry });
+  }
 
-    // Check dependencies
-    if (module.dependencies && Array.isArray(module.dependencies)) {
-      for (const dep of module.dependencies) {
-        if (typeof dep !== 'string') {
-          errors.push({
-            code: 'INVALID_DEPENDENCY',
-            message: `Dependency must be a string: ${dep}`,
-            severity: 'error',
-            module: module.name,
-            timestamp: new Date()
-          });
-        }
-      }
+  /**
+   * Add a rule run for every module in its scope
+   */
+  public addRule(rule: ValidationRule): void {
+    if (this.rules.some(existing => existing.name === rule.name)) {
+      throw new Error(`Validation rule ${rule.name} is already registered`);
     }
 
-    // Check configuration
-    if (module.config) {
-      if (typeof module.config.enabled !== 'boolean') {
-        warnings.push({
-          code: 'MISSING_ENABLED_CONFIG',
-          message: 'Config should have enabled property',
-          module: module.name,
-          timestamp: new Date()
-        });
-      }
+    this.rules.push(rule);
+    this.clearCache();
+    this.telemetry.logEvent('validation_rule_added', 'DirectorStudioValidator', {
+      rule: rule.name,
+      scope: rule.scope,
+      severity: rule.severity
+    });
+  }
 
-      if (typeof module.config.priority !== 'number') {
-        warnings.push({
-          code: 'MISSING_PRIORITY_CONFIG',
-          message: 'Config should have priority property',
-          module: module.name,
-          timestamp: new Date()
-        });
-      }
+  /**
+   * Remove a rule by name, including built-in ones
+   */
+  public removeRule(name: string): boolean {
+    const index = this.rules.findIndex(rule => rule.name === name);
+    if (index === -1) return false;
+
+    this.rules.splice(index, 1);
+    this.clearCache();
+    this.telemetry.logEvent('validation_rule_removed', 'DirectorStudioValidator', { rule: name });
+    return true;
+  }
+
+  /**
+   * Get registered rules, optionally for one scope
+   */
+  public getRules(scope?: ValidationScope): ValidationRule[] {
+    return this.rules.filter(rule => !scope || rule.scope === scope);
+  }
+
+  /**
+   * Get cached validation result, for the newest cached version when none is given
+   */
+  public getCachedResult(moduleName: string, version?: string): ValidationResult | undefined {
+    if (version) {
+      return this.validationCache.get(this.getCacheKey(moduleName, version))?.result;
     }
 
-    return {
-      isValid: errors.length === 0,
-      errors,
-      warnings,
-      metrics: {
-        executionTime: 0,
-        memoryUsage: 0,
-        cpuUsage: 0,
-        throughput: 0
-      }
-    };
+    const entries = Array.from(this.validationCache.values())
+      .filter(entry => entry.module === moduleName)
+      .sort((a, b) => compareVersions(b.version, a.version));
+    return entries[0]?.result;
+  }
+
+  /**
+   * Get the latest validateModule() result for a module version, valid or not
+   */
+  public getLastResult(moduleName: string, version: string): ValidationResult | undefined {
+    return this.lastResults.get(this.getCacheKey(moduleName, version));
   }
 
   /**
-   * Get cached validation result
+   * Drop cached results for a module, or for one of its versions
    */
-  public getCachedResult(moduleName: string): ValidationResult | undefined {
-    return this.validationCache.get(moduleName);
+  public invalidateModule(moduleName: string, version?: string): void {
+    const removed = Array.from(this.validationCache.entries())
+      .filter(([, entry]) => entry.module === moduleName && (!version || entry.version === version))
+      .map(([key]) => key);
+
+    removed.forEach(key => this.validationCache.delete(key));
+
+    if (removed.length > 0) {
+      this.telemetry.logEvent('validation_cache_invalidated', 'DirectorStudioValidator', {
+        module: moduleName,
+        version,
+        entries: removed.length
+      });
+    }
   }
 
   /**
@@ -300,14 +356,34 @@ export class DirectorStudioValidator {
    */
   public clearCache(): void {
     this.validationCache.clear();
-    logEvent('validation_cache_cleared', 'DirectorStudioValidator', {});
+    this.telemetry.logEvent('validation_cache_cleared', 'DirectorStudioValidator', {});
+  }
+
+  /**
+   * Get cache hit and miss counts since startup
+   */
+  public getCacheStats(): ValidationCacheStats {
+    const lookups = this.cacheHits + this.cacheMisses;
+
+    return {
+      hits: this.cacheHits,
+      misses: this.cacheMisses,
+      size: this.validationCache.size,
+      hitRatio: lookups > 0 ? this.cacheHits / lookups : 0
+    };
   }
 
   /**
    * Update configuration
    */
   public updateConfig(config: Partial<ValidationConfig>): void {
+    const previous = JSON.stringify(this.config);
     this.config = { ...this.config, ...config };
+
+    // Results may depend on validator settings, so any change invalidates them
+    if (JSON.stringify(this.config) !== previous) {
+      this.clearCache();
+    }
   }
 
   /**
@@ -346,22 +422,124 @@ export class DirectorStudioValidator {
         memoryUsage: 0, // Would be calculated in real implementation
         cpuUsage: 0,    // Would be calculated in real implementation
         throughput: 0   // Would be calculated in real implementation
-      }
+      },
+      rules: results.reduce<string[]>((rules, r) => rules.concat(r.rules || []), [])
     };
   }
 
-  private isValidVersion(version: string): boolean {
+  /**
+   * Check a version is valid semver and, when a range is given, satisfies it
+   */
+  public isValidVersion(version: string, range?: string): boolean {
     const versionRegex = /^\d+\.\d+\.\d+$/;
-    return versionRegex.test(version);
+    if (!versionRegex.test(version)) {
+      return false;
+    }
+
+    return range === undefined || satisfies(version, range);
   }
 
-  private isValidUrl(url: string): boolean {
-    try {
-      new URL(url);
-      return true;
-    } catch {
-      return false;
+  private get telemetry(): Telemetry {
+    return this.scopedTelemetry || Telemetry.getInstance();
+  }
+
+  private getCacheKey(moduleName: string, version: string): string {
+    return `${moduleName}@${version}`;
+  }
+
+  private hashConfig(module: PipelineModule): string {
+    return createHash('sha256')
+      .update(JSON.stringify(module.config ?? null))
+      .digest('hex');
+  }
+
+  /**
+   * Run the enabled rules of a scope, including the module's own; in strict
+   * mode escalated warnings are reported as errors
+   */
+  private async runRules(scope: ValidationScope, context: ValidationRuleContext): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+    const moduleName = context.module.name || 'unknown';
+    const rules = this.rules
+      .concat(context.module.rules || [])
+      .filter(rule => rule.scope === scope && this.isRuleEnabled(rule));
+
+    for (const rule of rules) {
+      let issues: ValidationRuleIssue[];
+      try {
+        issues = await rule.check(context);
+      } catch (error) {
+        issues = [{
+          code: 'RULE_FAILED',
+          message: `Rule ${rule.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          severity: 'error'
+        }];
+      }
+
+      issues.forEach(issue => {
+        const code = issue.code || rule.name;
+        const severity = issue.severity || rule.severity;
+
+        if (severity === 'warning' && !this.isEscalated(rule.name, code)) {
+          warnings.push({ code, message: issue.message, module: moduleName, timestamp: new Date() });
+        } else {
+          errors.push({
+            code,
+            message: issue.message,
+            severity: severity === 'warning' ? 'error' : severity,
+            module: moduleName,
+            timestamp: new Date()
+          });
+        }
+      });
     }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      metrics: {
+        executionTime: 0,
+        memoryUsage: 0,
+        cpuUsage: 0,
+        throughput: 0
+      },
+      rules: rules.map(rule => rule.name)
+    };
+  }
+
+  private isRuleEnabled(rule: ValidationRule): boolean {
+    const environment = this.config.environment ?? process.env.NODE_ENV;
+    const switches = {
+      ...this.config.rules,
+      ...(environment ? this.config.environmentRules?.[environment] : undefined)
+    };
+
+    return switches[rule.name] ?? !rule.disabledByDefault;
+  }
+
+  private isEscalated(ruleName: string, code: string): boolean {
+    return this.config.strictMode &&
+      (this.config.escalate || []).some(escalated => escalated === ruleName || escalated === code);
+  }
+
+  private checkSchema(
+    module: PipelineModule,
+    schema: ZodTypeAny,
+    value: any,
+    label: string
+  ): ValidationError[] {
+    const parsed = schema.safeParse(value);
+    if (parsed.success) return [];
+
+    return [{
+      code: 'SCHEMA_MISMATCH',
+      message: `Invalid ${label}: ${describeIssues(parsed.error.issues).join('; ')}`,
+      severity: 'error',
+      module: module.name,
+      timestamp: new Date()
+    }];
   }
 }
 
@@ -377,3 +555,18 @@ export const validateStructure = (module: PipelineModule): Promise<ValidationRes
 export const validateData = (module: PipelineModule, data: any): Promise<ValidationResult> => {
   return DirectorStudioValidator.getInstance().validateData(module, data);
 };
+
+export const validateContracts = (modules: PipelineModule[]): ValidationResult => {
+  return DirectorStudioValidator.getInstance().validateContracts(modules);
+};
+
+export const validateIntegration = (
+  module: PipelineModule,
+  registry?: ModuleRegistry
+): Promise<ValidationResult> => {
+  return DirectorStudioValidator.getInstance().validateIntegration(module, registry);
+};
+
+export const addValidationRule = (rule: ValidationRule): void => {
+  DirectorStudioValidator.getInstance().addRule(rule);
+};
@@ -2,8 +2,12 @@
 // VERSION: 1.0.0
 // PURPOSE: AI-powered content analysis for videos including object detection, scene analysis, and content moderation
 
-import { PipelineModule, ModuleConfig, ValidationResult } from '../../core/types';
+import { z } from 'zod';
+import { PipelineModule, ModuleConfig, ModuleSchemas, ValidationResult, DependencyInput } from '../../core/types';
 import { logEvent, logError } from '../../core/telemetry';
+import { isDependencyInput } from '../../core/contracts';
+import { throwIfCancelled } from '../../core/cancellation';
+import { VideoUploadResult, videoUploadResultSchema } from '../video/VideoUploadModule';
 
 export interface ContentAnalysisData {
   videoId: string;
@@ -88,11 +92,55 @@ export interface DetectedFace {
   emotion?: 'happy' | 'sad' | 'angry' | 'neutral' | 'surprised';
 }
 
-export class ContentAnalysisModule implements PipelineModule {
+export const contentAnalysisDataSchema = z.object({
+  videoId: z.string(),
+  fileUrl: z.string().url(),
+  thumbnailUrls: z.array(z.string()).optional(),
+  userId: z.string(),
+  sessionId: z.string(),
+  options: z.object({
+    detectObjects: z.boolean().optional(),
+    analyzeScenes: z.boolean().optional(),
+    moderateContent: z.boolean().optional(),
+    extractText: z.boolean().optional(),
+    generateTags: z.boolean().optional(),
+    detectFaces: z.boolean().optional()
+  }).optional()
+});
+
+export const contentAnalysisResultSchema = z.object({
+  videoId: z.string(),
+  analysis: z.object({
+    objects: z.array(z.custom<DetectedObject>()).optional(),
+    scenes: z.array(z.custom<SceneAnalysis>()).optional(),
+    moderation: z.custom<ContentModeration>().optional(),
+    extractedText: z.string().optional(),
+    generatedTags: z.array(z.string()).optional(),
+    faces: z.array(z.custom<DetectedFace>()).optional(),
+    overallScore: z.number(),
+    confidence: z.number()
+  }),
+  metadata: z.object({
+    processingTime: z.number(),
+    analysisVersion: z.string(),
+    modelVersion: z.string()
+  })
+});
+
+export class ContentAnalysisModule implements PipelineModule<ContentAnalysisData, ContentAnalysisResult> {
   public readonly version = "1.0.0";
   public readonly name = "ContentAnalysisModule";
-  public readonly dependencies: string[] = ["VideoProcessingModule"];
+  public readonly dependencies: string[] = ["VideoUploadModule"];
   public readonly config: ModuleConfig;
+  public readonly schemas: ModuleSchemas<ContentAnalysisData, ContentAnalysisResult> = {
+    input: contentAnalysisDataSchema,
+    output: contentAnalysisResultSchema,
+    // Only the caller identity is read from the pipeline input after an upload
+    pipelineInput: contentAnalysisDataSchema.pick({ userId: true, sessionId: true }),
+    dependencies: {
+      VideoUploadModule: videoUploadResultSchema.pick({ videoId: true, fileUrl: true, thumbnailUrl: true })
+    }
+  };
 
   constructor(config?: Partial<ModuleConfig>) {
     this.config = {
@@ -120,7 +168,8 @@ export class ContentAnalysisModule implements PipelineModule {
     });
   }
 
-  async process(input: ContentAnalysisData): Promise<ContentAnalysisResult> {
+  async process(data: ContentAnalysisData | DependencyInput, signal?: AbortSignal): Promise<ContentAnalysisResult> {
+    const input = this.resolveInput(data);
     const startTime = Date.now();
     
     logEvent('content_analysis_started', this.name, {
@@ -151,31 +200,37 @@ export class ContentAnalysisModule implements PipelineModule {
       };
 
       // Object detection
+      throwIfCancelled(signal);
       if (options.detectObjects) {
         analysis.objects = await this.detectObjects(input.fileUrl, input.videoId);
       }
 
       // Scene analysis
+      throwIfCancelled(signal);
       if (options.analyzeScenes) {
         analysis.scenes = await this.analyzeScenes(input.fileUrl, input.videoId);
       }
 
       // Content moderation
+      throwIfCancelled(signal);
       if (options.moderateContent) {
         analysis.moderation = await this.moderateContent(input.fileUrl, input.videoId);
       }
 
       // Text extraction
+      throwIfCancelled(signal);
       if (options.extractText) {
         analysis.extractedText = await this.extractText(input.fileUrl, input.videoId);
       }
 
       // Generate tags
+      throwIfCancelled(signal);
       if (options.generateTags) {
         analysis.generatedTags = await this.generateTags(input.fileUrl, input.videoId, analysis);
       }
 
       // Face detection
+      throwIfCancelled(signal);
       if (options.detectFaces) {
         analysis.faces = await this.detectFaces(input.fileUrl, input.videoId);
       }
@@ -261,6 +316,26 @@ export class ContentAnalysisModule implements PipelineModule {
     logEvent('module_cleanup', this.name, {});
   }
 
+  private resolveInput(data: ContentAnalysisData | DependencyInput): ContentAnalysisData {
+    if (!isDependencyInput(data)) {
+      return data;
+    }
+
+    // Analyze the uploaded file directly so analysis runs alongside video processing
+    const upload: VideoUploadResult | undefined = data.dependencies.VideoUploadModule;
+    if (!upload) {
+      return data.input;
+    }
+
+    return {
+      videoId: upload.videoId,
+      fileUrl: upload.fileUrl,
+      thumbnailUrls: upload.thumbnailUrl ? [upload.thumbnailUrl] : undefined,
+      userId: data.input.userId,
+      sessionId: data.input.sessionId
+    };
+  }
+
   private async validateInput(input: ContentAnalysisData): Promise<void> {
     if (!input.videoId) {
       throw new Error('Video ID is required');
@@ -2,8 +2,10 @@
 // VERSION: 1.0.0
 // PURPOSE: Comprehensive analytics and reporting system for DirectorStudio
 
-import { PipelineModule, ModuleConfig, ValidationResult } from '../../core/types';
-import { logEvent, logError } from '../../core/telemetry';
+import { z } from 'zod';
+import { PipelineModule, ModuleConfig, ModuleSchemas, ValidationResult, DependencyInput } from '../../core/types';
+import { logEvent } from '../../core/telemetry';
+import { isDependencyInput } from '../../core/contracts';
 
 export interface AnalyticsData {
   action: 'track_event' | 'get_metrics' | 'generate_report' | 'get_dashboard_data' | 'get_user_analytics';
@@ -149,11 +151,40 @@ export interface AnalyticsFilters {
   isPublic?: boolean;
 }
 
-export class AnalyticsModule implements PipelineModule {
+export const analyticsDataSchema = z.object({
+  action: z.enum(['track_event', 'get_metrics', 'generate_report', 'get_dashboard_data', 'get_user_analytics']),
+  userId: z.string().optional(),
+  sessionId: z.string(),
+  data: z.object({
+    eventType: z.string().optional(),
+    eventData: z.record(z.any()).optional(),
+    metricsType: z.enum(['user', 'content', 'system', 'performance']).optional(),
+    reportType: z.enum(['daily', 'weekly', 'monthly', 'custom']).optional(),
+    dateRange: z.object({
+      start: z.coerce.date(),
+      end: z.coerce.date()
+    }).optional(),
+    filters: z.custom<AnalyticsFilters>().optional()
+  }).optional()
+});
+
+export const analyticsResultSchema = z.object({
+  success: z.boolean(),
+  metrics: z.custom<AnalyticsMetrics>().optional(),
+  report: z.custom<AnalyticsReport>().optional(),
+  dashboard: z.custom<DashboardData>().optional(),
+  message: z.string().optional()
+});
+
+export class AnalyticsModule implements PipelineModule<AnalyticsData, AnalyticsResult> {
   public readonly version = "1.0.0";
   public readonly name = "AnalyticsModule";
   public readonly dependencies: string[] = ["UserManagementModule", "ContentManagementModule"];
   public readonly config: ModuleConfig;
+  public readonly schemas: ModuleSchemas<AnalyticsData, AnalyticsResult> = {
+    input: analyticsDataSchema,
+    output: analyticsResultSchema
+  };
 
   private events: Map<string, any> = new Map();
   private metrics: Map<string, AnalyticsMetrics> = new Map();
@@ -184,56 +215,31 @@ export class AnalyticsModule implements PipelineModule {
     });
   }
 
-  async process(input: AnalyticsData): Promise<AnalyticsResult> {
-    const startTime = Date.now();
-    
-    logEvent('analytics_processing_started', this.name, {
-      action: input.action,
-      userId: input.userId,
-      sessionId: input.sessionId
-    });
-
-    try {
-      let result: AnalyticsResult;
-
-      switch (input.action) {
-        case 'track_event':
-          result = await this.trackEvent(input);
-          break;
-        case 'get_metrics':
-          result = await this.getMetrics(input);
-          break;
-        case 'generate_report':
-          result = await this.generateReport(input);
-          break;
-        case 'get_dashboard_data':
-          result = await this.getDashboardData(input);
-          break;
-        case 'get_user_analytics':
-          result = await this.getUserAnalytics(input);
-          break;
-        default:
-          throw new Error(`Unknown action: ${input.action}`);
-      }
-
-      const executionTime = Date.now() - startTime;
-      
-      logEvent('analytics_processing_completed', this.name, {
-        action: input.action,
-        success: result.success,
-        executionTime
-      });
+  async process(data: AnalyticsData | DependencyInput): Promise<AnalyticsResult> {
+    const input = this.resolveInput(data);
+    let result: AnalyticsResult;
 
-      return result;
-
-    } catch (error) {
-      logError(this.name, error as Error, {
-        action: input.action,
-        userId: input.userId,
-        sessionId: input.sessionId
-      });
-      throw error;
+    switch (input.action) {
+      case 'track_event':
+        result = await this.trackEvent(input);
+        break;
+      case 'get_metrics':
+        result = await this.getMetrics(input);
+        break;
+      case 'generate_report':
+        result = await this.generateReport(input);
+        break;
+      case 'get_dashboard_data':
+        result = await this.getDashboardData(input);
+        break;
+      case 'get_user_analytics':
+        result = await this.getUserAnalytics(input);
+        break;
+      default:
+        throw new Error(`Unknown action: ${input.action}`);
     }
+
+    return result;
   }
 
   async validate(): Promise<ValidationResult> {
@@ -278,6 +284,11 @@ export class AnalyticsModule implements PipelineModule {
     logEvent('module_cleanup', this.name, {});
   }
 
+  private resolveInput(data: AnalyticsData | DependencyInput): AnalyticsData {
+    // Upstream modules only have to run first; the request itself comes from the pipeline input
+    return isDependencyInput(data) ? data.input : data;
+  }
+
   private async trackEvent(input: AnalyticsData): Promise<AnalyticsResult> {
     if (!input.data?.eventType) {
       throw new Error('Event type is required for tracking');
@@ -2,8 +2,10 @@
 // VERSION: 1.0.0
 // PURPOSE: Advanced content management with collections, playlists, and organization
 
-import { PipelineModule, ModuleConfig, ValidationResult } from '../../core/types';
-import { logEvent, logError } from '../../core/telemetry';
+import { z } from 'zod';
+import { PipelineModule, ModuleConfig, ModuleSchemas, ValidationResult, DependencyInput } from '../../core/types';
+import { logEvent } from '../../core/telemetry';
+import { isDependencyInput } from '../../core/contracts';
 
 export interface ContentManagementData {
   action: 'create_collection' | 'update_collection' | 'delete_collection' | 
@@ -128,11 +130,48 @@ export interface SearchResults {
   hasMore: boolean;
 }
 
-export class ContentManagementModule implements PipelineModule {
+export const contentManagementDataSchema = z.object({
+  action: z.enum([
+    'create_collection', 'update_collection', 'delete_collection',
+    'add_to_collection', 'remove_from_collection', 'get_collection',
+    'create_playlist', 'update_playlist', 'delete_playlist',
+    'add_to_playlist', 'remove_from_playlist', 'get_playlist',
+    'search_content', 'get_user_content'
+  ]),
+  userId: z.string(),
+  sessionId: z.string(),
+  data: z.object({
+    collectionId: z.string().optional(),
+    playlistId: z.string().optional(),
+    videoId: z.string().optional(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    isPublic: z.boolean().optional(),
+    tags: z.array(z.string()).optional(),
+    searchQuery: z.string().optional(),
+    filters: z.custom<ContentFilters>().optional(),
+    pagination: z.custom<PaginationOptions>().optional()
+  }).optional()
+});
+
+export const contentManagementResultSchema = z.object({
+  success: z.boolean(),
+  collection: z.custom<VideoCollection>().optional(),
+  playlist: z.custom<VideoPlaylist>().optional(),
+  videos: z.array(z.custom<VideoContent>()).optional(),
+  searchResults: z.custom<SearchResults>().optional(),
+  message: z.string().optional()
+});
+
+export class ContentManagementModule implements PipelineModule<ContentManagementData, ContentManagementResult> {
   public readonly version = "1.0.0";
   public readonly name = "ContentManagementModule";
   public readonly dependencies: string[] = ["UserManagementModule"];
   public readonly config: ModuleConfig;
+  public readonly schemas: ModuleSchemas<ContentManagementData, ContentManagementResult> = {
+    input: contentManagementDataSchema,
+    output: contentManagementResultSchema
+  };
 
   private collections: Map<string, VideoCollection> = new Map();
   private playlists: Map<string, VideoPlaylist> = new Map();
@@ -165,83 +204,58 @@ export class ContentManagementModule implements PipelineModule {
     });
   }
 
-  async process(input: ContentManagementData): Promise<ContentManagementResult> {
-    const startTime = Date.now();
-    
-    logEvent('content_management_started', this.name, {
-      action: input.action,
-      userId: input.userId,
-      sessionId: input.sessionId
-    });
-
-    try {
-      let result: ContentManagementResult;
-
-      switch (input.action) {
-        case 'create_collection':
-          result = await this.createCollection(input);
-          break;
-        case 'update_collection':
-          result = await this.updateCollection(input);
-          break;
-        case 'delete_collection':
-          result = await this.deleteCollection(input);
-          break;
-        case 'add_to_collection':
-          result = await this.addToCollection(input);
-          break;
-        case 'remove_from_collection':
-          result = await this.removeFromCollection(input);
-          break;
-        case 'get_collection':
-          result = await this.getCollection(input);
-          break;
-        case 'create_playlist':
-          result = await this.createPlaylist(input);
-          break;
-        case 'update_playlist':
-          result = await this.updatePlaylist(input);
-          break;
-        case 'delete_playlist':
-          result = await this.deletePlaylist(input);
-          break;
-        case 'add_to_playlist':
-          result = await this.addToPlaylist(input);
-          break;
-        case 'remove_from_playlist':
-          result = await this.removeFromPlaylist(input);
-          break;
-        case 'get_playlist':
-          result = await this.getPlaylist(input);
-          break;
-        case 'search_content':
-          result = await this.searchContent(input);
-          break;
-        case 'get_user_content':
-          result = await this.getUserContent(input);
-          break;
-        default:
-          throw new Error(`Unknown action: ${input.action}`);
-      }
-
-      const executionTime = Date.now() - startTime;
-      
-      logEvent('content_management_completed', this.name, {
-        action: input.action,
-        success: result.success,
-        executionTime
-      });
-
-      return result;
-
-    } catch (error) {
-      logError(this.name, error as Error, {
-        action: input.action,
-        userId: input.userId,
-        sessionId: input.sessionId
-      });
-      throw error;
-    }
+  async process(data: ContentManagementData | DependencyInput): Promise<ContentManagementResult> {
+    const input = this.resolveInput(data);
+    let result: ContentManagementResult;
+
+    switch (input.action) {
+      case 'create_collection':
+        result = await this.createCollection(input);
+        break;
+      case 'update_collection':
+        result = await this.updateCollection(input);
+        break;
+      case 'delete_collection':
+        result = await this.deleteCollection(input);
+        break;
+      case 'add_to_collection':
+        result = await this.addToCollection(input);
+        break;
+      case 'remove_from_collection':
+        result = await this.removeFromCollection(input);
+        break;
+      case 'get_collection':
+        result = await this.getCollection(input);
+        break;
+      case 'create_playlist':
+        result = await this.createPlaylist(input);
+        break;
+      case 'update_playlist':
+        result = await this.updatePlaylist(input);
+        break;
+      case 'delete_playlist':
+        result = await this.deletePlaylist(input);
+        break;
+      case 'add_to_playlist':
+        result = await this.addToPlaylist(input);
+        break;
+      case 'remove_from_playlist':
+        result = await this.removeFromPlaylist(input);
+        break;
+      case 'get_playlist':
+        result = await this.getPlaylist(input);
+        break;
+      case 'search_content':
+        result = await this.searchContent(input);
+        break;
+      case 'get_user_content':
+        result = await this.getUserContent(input);
+        break;
+      default:
+        throw new Error(`Unknown action: ${input.action}`);
+    }
+
+    return result;
   }
 
   async validate(): Promise<ValidationResult> {
@@ -286,6 +300,11 @@ export class ContentManagementModule implements PipelineModule {
     logEvent('module_cleanup', this.name, {});
   }
 
+  private resolveInput(data: ContentManagementData | DependencyInput): ContentManagementData {
+    // UserManagementModule only has to run first; the request itself comes from the pipeline input
+    return isDependencyInput(data) ? data.input : data;
+  }
+
   private async createCollection(input: ContentManagementData): Promise<ContentManagementResult> {
     if (!input.data?.title) {
       throw new Error('Title is required for collection creation');
@@ -2,7 +2,8 @@
 // VERSION: 1.0.0
 // PURPOSE: Advanced user management with DirectorStudio integration
 
-import { PipelineModule, ModuleConfig, ValidationResult } from '../../core/types';
+import { z } from 'zod';
+import { PipelineModule, ModuleConfig, ModuleSchemas, ValidationResult } from '../../core/types';
 import { logEvent, logError } from '../../core/telemetry';
 
 export interface UserManagementData {
@@ -86,11 +87,40 @@ export interface UserSession {
   isActive: boolean;
 }
 
-export class UserManagementModule implements PipelineModule {
+export const userManagementDataSchema = z.object({
+  action: z.enum(['create', 'update', 'delete', 'authenticate', 'authorize']),
+  userId: z.string().optional(),
+  userData: z.object({
+    email: z.string().email(),
+    username: z.string(),
+    displayName: z.string().optional(),
+    avatar: z.string().optional(),
+    preferences: z.custom<UserPreferences>().optional(),
+    permissions: z.custom<UserPermissions>().optional()
+  }).optional(),
+  sessionId: z.string(),
+  context: z.record(z.any()).optional()
+});
+
+export const userManagementResultSchema = z.object({
+  success: z.boolean(),
+  userId: z.string().optional(),
+  user: z.custom<UserProfile>().optional(),
+  session: z.custom<UserSession>().optional(),
+  permissions: z.custom<UserPermissions>().optional(),
+  credits: z.number().optional(),
+  message: z.string().optional()
+});
+
+export class UserManagementModule implements PipelineModule<UserManagementData, UserManagementResult> {
   public readonly version = "1.0.0";
   public readonly name = "UserManagementModule";
   public readonly dependencies: string[] = [];
   public readonly config: ModuleConfig;
+  public readonly schemas: ModuleSchemas<UserManagementData, UserManagementResult> = {
+    input: userManagementDataSchema,
+    output: userManagementResultSchema
+  };
 
   private users: Map<string, UserProfile> = new Map();
   private sessions: Map<string, UserSession> = new Map();
@@ -2,8 +2,12 @@
 // VERSION: 1.0.0
 // PURPOSE: Advanced video processing including transcoding, optimization, and analysis
 
-import { PipelineModule, ModuleConfig, ValidationResult } from '../../core/types';
+import { z } from 'zod';
+import { PipelineModule, ModuleConfig, ModuleSchemas, ValidationResult, DependencyInput } from '../../core/types';
 import { logEvent, logError } from '../../core/telemetry';
+import { isDependencyInput } from '../../core/contracts';
+import { throwIfCancelled } from '../../core/cancellation';
+import { VideoUploadResult, videoUploadResultSchema } from './VideoUploadModule';
 
 export interface VideoProcessingData {
   videoId: string;
@@ -41,11 +45,58 @@ export interface VideoProcessingResult {
   };
 }
 
-export class VideoProcessingModule implements PipelineModule {
+export const videoProcessingDataSchema = z.object({
+  videoId: z.string(),
+  fileUrl: z.string().url(),
+  userId: z.string(),
+  sessionId: z.string(),
+  options: z.object({
+    quality: z.enum(['low', 'medium', 'high', 'ultra']).optional(),
+    format: z.enum(['mp4', 'webm', 'avi']).optional(),
+    generateThumbnails: z.boolean().optional(),
+    extractAudio: z.boolean().optional(),
+    analyzeContent: z.boolean().optional()
+  }).optional()
+});
+
+export const videoProcessingResultSchema = z.object({
+  videoId: z.string(),
+  processedUrl: z.string(),
+  thumbnails: z.array(z.string()).optional(),
+  audioUrl: z.string().optional(),
+  analysis: z.object({
+    duration: z.number(),
+    resolution: z.string(),
+    bitrate: z.number(),
+    codec: z.string(),
+    hasAudio: z.boolean(),
+    contentTags: z.array(z.string()).optional(),
+    qualityScore: z.number()
+  }).optional(),
+  metadata: z.object({
+    originalSize: z.number(),
+    processedSize: z.number(),
+    compressionRatio: z.number(),
+    processingTime: z.number()
+  })
+});
+
+export class VideoProcessingModule implements PipelineModule<VideoProcessingData, VideoProcessingResult> {
   public readonly version = "1.0.0";
   public readonly name = "VideoProcessingModule";
   public readonly dependencies: string[] = ["VideoUploadModule"];
   public readonly config: ModuleConfig;
+  // Artifacts written by in-progress runs, keyed by video ID, until the run completes
+  private partialArtifacts: Map<string, string[]> = new Map();
+  public readonly schemas: ModuleSchemas<VideoProcessingData, VideoProcessingResult> = {
+    input: videoProcessingDataSchema,
+    output: videoProcessingResultSchema,
+    // Only the caller identity and processing options are read from the pipeline input after an upload
+    pipelineInput: videoProcessingDataSchema.pick({ userId: true, sessionId: true, options: true }),
+    dependencies: {
+      VideoUploadModule: videoUploadResultSchema.pick({ videoId: true, fileUrl: true })
+    }
+  };
 
   constructor(config?: Partial<ModuleConfig>) {
     this.config = {
@@ -71,8 +122,11 @@ export class VideoProcessingModule implements PipelineModule {
     });
   }
 
-  async process(input: VideoProcessingData): Promise<VideoProcessingResult> {
+  async process(data: VideoProcessingData | DependencyInput, signal?: AbortSignal): Promise<VideoProcessingResult> {
+    const input = this.resolveInput(data);
     const startTime = Date.now();
+    const artifacts: string[] = [];
+    this.partialArtifacts.set(input.videoId, artifacts);
     
     logEvent('video_processing_started', this.name, {
       videoId: input.videoId,
@@ -96,19 +150,26 @@ export class VideoProcessingModule implements PipelineModule {
       };
 
       // Process video
+      throwIfCancelled(signal);
       const processedUrl = await this.transcodeVideo(input.fileUrl, options);
+      artifacts.push(processedUrl);
       
       // Generate thumbnails if requested
+      throwIfCancelled(signal);
       const thumbnails = options.generateThumbnails 
         ? await this.generateThumbnails(input.fileUrl, input.videoId)
         : undefined;
+      artifacts.push(...(thumbnails || []));
 
       // Extract audio if requested
+      throwIfCancelled(signal);
       const audioUrl = options.extractAudio
         ? await this.extractAudio(input.fileUrl, input.videoId)
         : undefined;
+      if (audioUrl) artifacts.push(audioUrl);
 
       // Analyze content if requested
+      throwIfCancelled(signal);
       const analysis = options.analyzeContent
         ? await this.analyzeVideo(input.fileUrl, input.videoId)
         : undefined;
@@ -140,6 +201,7 @@ export class VideoProcessingModule implements PipelineModule {
         compressionRatio: result.metadata.compressionRatio
       });
 
+      this.partialArtifacts.delete(input.videoId);
       return result;
 
     } catch (error) {
@@ -148,6 +210,7 @@ export class VideoProcessingModule implements PipelineModule {
         userId: input.userId,
         sessionId: input.sessionId
       });
+      await this.removePartialArtifacts(input);
       throw error;
     }
   }
@@ -194,6 +257,43 @@ export class VideoProcessingModule implements PipelineModule {
     logEvent('module_cleanup', this.name, {});
   }
 
+  async cleanupPartial(data: VideoProcessingData | DependencyInput): Promise<void> {
+    await this.removePartialArtifacts(this.resolveInput(data));
+  }
+
+  // Failed and cancelled runs remove their artifacts as they fail, so this is a no-op afterwards
+  private async removePartialArtifacts(input: VideoProcessingData): Promise<void> {
+    const artifacts = this.partialArtifacts.get(input.videoId);
+    if (!artifacts) return;
+    this.partialArtifacts.delete(input.videoId);
+
+    // In a real implementation, this would delete the files from storage
+    logEvent('partial_artifacts_removed', this.name, {
+      videoId: input.videoId,
+      artifacts
+    }, input.userId, input.sessionId);
+  }
+
+  private resolveInput(data: VideoProcessingData | DependencyInput): VideoProcessingData {
+    if (!isDependencyInput(data)) {
+      return data;
+    }
+
+    // Build processing data from the upload output when running after VideoUploadModule
+    const upload: VideoUploadResult | undefined = data.dependencies.VideoUploadModule;
+    if (!upload) {
+      return data.input;
+    }
+
+    return {
+      videoId: upload.videoId,
+      fileUrl: upload.fileUrl,
+      userId: data.input.userId,
+      sessionId: data.input.sessionId,
+      options: data.input.options
+    };
+  }
+
   private async validateInput(input: VideoProcessingData): Promise<void> {
     if (!input.videoId) {
       throw new Error('Video ID is required');
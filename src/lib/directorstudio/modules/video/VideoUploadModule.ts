@@ -2,8 +2,10 @@
 // VERSION: 1.0.0
 // PURPOSE: Handles video file uploads with validation and processing
 
-import { PipelineModule, ModuleConfig, ValidationResult } from '../../core/types';
+import { z } from 'zod';
+import { PipelineModule, ModuleConfig, ModuleSchemas, ValidationResult } from '../../core/types';
 import { logEvent, logError } from '../../core/telemetry';
+import { throwIfCancelled } from '../../core/cancellation';
 
 export interface VideoUploadData {
   file: File;
@@ -30,11 +32,45 @@ export interface VideoUploadResult {
   };
 }
 
-export class VideoUploadModule implements PipelineModule {
+export const videoUploadDataSchema = z.object({
+  file: z.custom<File>(
+    value => !!value && typeof (value as File).name === 'string' && typeof (value as File).size === 'number',
+    'Expected an uploaded file'
+  ),
+  title: z.string(),
+  description: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  isPublic: z.boolean(),
+  userId: z.string(),
+  sessionId: z.string()
+});
+
+export const videoUploadResultSchema = z.object({
+  videoId: z.string(),
+  fileUrl: z.string().url(),
+  thumbnailUrl: z.string().url().optional(),
+  metadata: z.object({
+    title: z.string(),
+    description: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    isPublic: z.boolean(),
+    fileSize: z.number(),
+    duration: z.number().optional(),
+    resolution: z.string().optional()
+  })
+});
+
+export class VideoUploadModule implements PipelineModule<VideoUploadData, VideoUploadResult> {
   public readonly version = "1.0.0";
   public readonly name = "VideoUploadModule";
   public readonly dependencies: string[] = [];
   public readonly config: ModuleConfig;
+  // Files stored by in-progress uploads, keyed by session and file name, until the upload completes
+  private partialUploads: Map<string, string[]> = new Map();
+  public readonly schemas: ModuleSchemas<VideoUploadData, VideoUploadResult> = {
+    input: videoUploadDataSchema,
+    output: videoUploadResultSchema
+  };
 
   constructor(config?: Partial<ModuleConfig>) {
     this.config = {
@@ -59,8 +95,10 @@ export class VideoUploadModule implements PipelineModule {
     });
   }
 
-  async process(input: VideoUploadData): Promise<VideoUploadResult> {
+  async process(input: VideoUploadData, signal?: AbortSignal): Promise<VideoUploadResult> {
     const startTime = Date.now();
+    const stored: string[] = [];
+    this.partialUploads.set(this.getUploadKey(input), stored);
     
     logEvent('video_upload_started', this.name, {
       userId: input.userId,
@@ -78,16 +116,21 @@ export class VideoUploadModule implements PipelineModule {
       const fileName = `${input.userId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
 
       // Upload file (in real implementation, this would upload to storage)
+      throwIfCancelled(signal);
       const fileUrl = await this.uploadFile(input.file, fileName);
+      stored.push(fileUrl);
 
       // Generate video ID
       const videoId = this.generateVideoId();
 
       // Extract metadata
+      throwIfCancelled(signal);
       const metadata = await this.extractMetadata(input.file);
 
       // Generate thumbnail (placeholder for now)
+      throwIfCancelled(signal);
       const thumbnailUrl = await this.generateThumbnail(fileUrl);
+      stored.push(thumbnailUrl);
 
       const result: VideoUploadResult = {
         videoId,
@@ -114,6 +157,7 @@ export class VideoUploadModule implements PipelineModule {
         fileSize: input.file.size
       });
 
+      this.partialUploads.delete(this.getUploadKey(input));
       return result;
 
     } catch (error) {
@@ -122,6 +166,7 @@ export class VideoUploadModule implements PipelineModule {
         sessionId: input.sessionId,
         fileName: input.file.name
       });
+      await this.removePartialUpload(input);
       throw error;
     }
   }
@@ -168,6 +213,24 @@ export class VideoUploadModule implements PipelineModule {
     logEvent('module_cleanup', this.name, {});
   }
 
+  async cleanupPartial(input: VideoUploadData): Promise<void> {
+    await this.removePartialUpload(input);
+  }
+
+  // Failed and cancelled uploads remove their files as they fail, so this is a no-op afterwards
+  private async removePartialUpload(input: VideoUploadData): Promise<void> {
+    const key = this.getUploadKey(input);
+    const files = this.partialUploads.get(key);
+    if (!files) return;
+    this.partialUploads.delete(key);
+
+    await Promise.all(files.map(fileUrl => this.deleteFile(fileUrl)));
+    logEvent('partial_upload_removed', this.name, {
+      fileName: input.file.name,
+      files
+    }, input.userId, input.sessionId);
+  }
+
   private async validateInput(input: VideoUploadData): Promise<void> {
     // Validate file
     if (!input.file) {
@@ -221,6 +284,10 @@ export class VideoUploadModule implements PipelineModule {
     return `vid_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  private getUploadKey(input: VideoUploadData): string {
+    return `${input.sessionId}:${input.file.name}`;
+  }
+
   private async uploadFile(file: File, fileName: string): Promise<string> {
     // In a real implementation, this would upload to cloud storage
     // For now, we'll simulate the upload
@@ -230,6 +297,12 @@ export class VideoUploadModule implements PipelineModule {
     return `https://storage.example.com/videos/${fileName}`;
   }
 
+  private async deleteFile(fileUrl: string): Promise<void> {
+    // In a real implementation, this would delete the file from cloud storage
+    // For now, we'll simulate the request
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+
   private async extractMetadata(file: File): Promise<{ duration?: number; resolution?: string }> {
     // In a real implementation, this would use a video processing library
     // to extract actual metadata from the video file
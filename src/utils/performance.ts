@@ -1,6 +1,8 @@
 // Performance optimization utilities for SpiderInk.art
 // This module provides caching, query optimization, and performance monitoring
 
+import { withSpan } from '@/lib/directorstudio/core/tracing'
+
 interface CacheEntry<T> {
   data: T
   timestamp: number
@@ -133,39 +135,42 @@ export async function cachedQuery<T>(
   cacheKey: string,
   ttl?: number
 ): Promise<T> {
-  const startTime = Date.now()
-  
-  // Try to get from cache first
-  const cached = performanceOptimizer.get<T>(cacheKey)
-  if (cached) {
-    performanceOptimizer.recordMetric(
-      Date.now() - startTime,
-      true,
-      cacheKey
-    )
-    return cached
-  }
-
-  // Execute query and cache result
-  try {
-    const result = await queryFn()
-    performanceOptimizer.set(cacheKey, result, ttl)
-    
-    performanceOptimizer.recordMetric(
-      Date.now() - startTime,
-      false,
-      cacheKey
-    )
+  return withSpan('cachedQuery', async span => {
+    const startTime = Date.now()
     
-    return result
-  } catch (error) {
-    performanceOptimizer.recordMetric(
-      Date.now() - startTime,
-      false,
-      cacheKey
-    )
-    throw error
-  }
+    // Try to get from cache first
+    const cached = performanceOptimizer.get<T>(cacheKey)
+    span.setAttributes({ 'cache.hit': !!cached })
+    if (cached) {
+      performanceOptimizer.recordMetric(
+        Date.now() - startTime,
+        true,
+        cacheKey
+      )
+      return cached
+    }
+
+    // Execute query and cache result
+    try {
+      const result = await queryFn()
+      performanceOptimizer.set(cacheKey, result, ttl)
+      
+      performanceOptimizer.recordMetric(
+        Date.now() - startTime,
+        false,
+        cacheKey
+      )
+      
+      return result
+    } catch (error) {
+      performanceOptimizer.recordMetric(
+        Date.now() - startTime,
+        false,
+        cacheKey
+      )
+      throw error
+    }
+  }, { attributes: { 'cache.key': cacheKey } })
 }
 
 /**
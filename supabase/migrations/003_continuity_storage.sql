@@ -0,0 +1,43 @@
+-- DirectorStudio Continuity Storage Migration
+-- Backing tables for ContinuityEngine when continuity.storage is 'database'
+
+-- ==============================================
+-- CONTINUITY TABLES
+-- ==============================================
+
+-- Session contexts (state and metadata)
+CREATE TABLE IF NOT EXISTS continuity_contexts (
+    session_id TEXT PRIMARY KEY,
+    user_id TEXT,
+    state JSONB NOT NULL DEFAULT '{}'::jsonb,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Session event history, trimmed to continuity.maxEvents by the storage adapter
+CREATE TABLE IF NOT EXISTS continuity_events (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES continuity_contexts(session_id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    module TEXT NOT NULL,
+    data JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ==============================================
+-- INDEXES FOR PERFORMANCE
+-- ==============================================
+
+CREATE INDEX IF NOT EXISTS idx_continuity_contexts_user_id ON continuity_contexts(user_id);
+CREATE INDEX IF NOT EXISTS idx_continuity_contexts_expires_at ON continuity_contexts(expires_at);
+CREATE INDEX IF NOT EXISTS idx_continuity_events_session_created ON continuity_events(session_id, created_at DESC);
+
+-- ==============================================
+-- ROW LEVEL SECURITY
+-- ==============================================
+
+-- Only the service role reads and writes continuity state
+ALTER TABLE continuity_contexts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE continuity_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,80 @@
+-- DirectorStudio Telemetry Event Store Migration
+-- Backing table for DatabaseTelemetryEventStore; rows older than telemetry.retentionDays are purged by Telemetry
+
+-- ==============================================
+-- TELEMETRY TABLES
+-- ==============================================
+
+CREATE TABLE IF NOT EXISTS telemetry_events (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    module TEXT NOT NULL,
+    level TEXT,
+    data JSONB NOT NULL DEFAULT '{}'::jsonb,
+    user_id TEXT,
+    session_id TEXT,
+    trace_id TEXT,
+    span_id TEXT,
+    parent_span_id TEXT,
+    -- Span duration, module execution time or run time, when the event reports one
+    duration_ms DOUBLE PRECISION,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- ==============================================
+-- INDEXES FOR PERFORMANCE
+-- ==============================================
+
+CREATE INDEX IF NOT EXISTS idx_telemetry_events_created_at ON telemetry_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_telemetry_events_module_created ON telemetry_events(module, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_telemetry_events_type_created ON telemetry_events(type, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_telemetry_events_user_id ON telemetry_events(user_id);
+CREATE INDEX IF NOT EXISTS idx_telemetry_events_session_id ON telemetry_events(session_id);
+CREATE INDEX IF NOT EXISTS idx_telemetry_events_trace_id ON telemetry_events(trace_id);
+
+-- ==============================================
+-- FUNCTIONS
+-- ==============================================
+
+-- Event counts and p50/p95 durations, optionally grouped by module, type, userId or sessionId
+CREATE OR REPLACE FUNCTION telemetry_event_stats(
+    p_group_by TEXT DEFAULT NULL,
+    p_module TEXT DEFAULT NULL,
+    p_type TEXT DEFAULT NULL,
+    p_user_id TEXT DEFAULT NULL,
+    p_session_id TEXT DEFAULT NULL,
+    p_trace_id TEXT DEFAULT NULL,
+    p_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_end TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (key TEXT, count BIGINT, p50 DOUBLE PRECISION, p95 DOUBLE PRECISION)
+LANGUAGE sql STABLE AS $$
+    SELECT
+        COALESCE(CASE p_group_by
+            WHEN 'module' THEN module
+            WHEN 'type' THEN type
+            WHEN 'userId' THEN user_id
+            WHEN 'sessionId' THEN session_id
+            ELSE 'all'
+        END, '(none)') AS key,
+        COUNT(*) AS count,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_ms) AS p50,
+        percentile_cont(0.95) WITHIN GROUP (ORDER BY duration_ms) AS p95
+    FROM telemetry_events
+    WHERE (p_module IS NULL OR module = p_module)
+      AND (p_type IS NULL OR type = p_type)
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+      AND (p_session_id IS NULL OR session_id = p_session_id)
+      AND (p_trace_id IS NULL OR trace_id = p_trace_id)
+      AND (p_start IS NULL OR created_at >= p_start)
+      AND (p_end IS NULL OR created_at <= p_end)
+    GROUP BY 1
+    ORDER BY 2 DESC;
+$$;
+
+-- ==============================================
+-- ROW LEVEL SECURITY
+-- ==============================================
+
+-- Only the service role reads and writes telemetry
+ALTER TABLE telemetry_events ENABLE ROW LEVEL SECURITY;
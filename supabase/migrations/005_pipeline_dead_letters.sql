@@ -0,0 +1,37 @@
+-- DirectorStudio Dead-Letter Queue Migration
+-- Backing table for DatabaseDeadLetterStore; entries stay until retried or discarded
+
+-- ==============================================
+-- DEAD-LETTER TABLES
+-- ==============================================
+
+CREATE TABLE IF NOT EXISTS pipeline_dead_letters (
+    id TEXT PRIMARY KEY,
+    run_id TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    user_id TEXT,
+    pipeline TEXT,
+    module TEXT NOT NULL,
+    module_version TEXT,
+    error TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    -- The raw pipeline input, replayed when the entry is retried; API responses mask it
+    payload JSONB,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- ==============================================
+-- INDEXES FOR PERFORMANCE
+-- ==============================================
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_dead_letters_created_at ON pipeline_dead_letters(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pipeline_dead_letters_module ON pipeline_dead_letters(module, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pipeline_dead_letters_session_id ON pipeline_dead_letters(session_id);
+CREATE INDEX IF NOT EXISTS idx_pipeline_dead_letters_user_id ON pipeline_dead_letters(user_id);
+
+-- ==============================================
+-- ROW LEVEL SECURITY
+-- ==============================================
+
+-- Only the service role reads and writes dead letters
+ALTER TABLE pipeline_dead_letters ENABLE ROW LEVEL SECURITY;
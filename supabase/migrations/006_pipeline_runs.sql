@@ -0,0 +1,41 @@
+-- DirectorStudio Pipeline Run History Migration
+-- Backing table for DatabaseRunStore; run records are kept for inspection and replay
+
+-- ==============================================
+-- RUN HISTORY TABLES
+-- ==============================================
+
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+    run_id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    user_id TEXT,
+    status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
+    -- The raw pipeline input, run again when the run is replayed
+    input JSONB,
+    results JSONB NOT NULL DEFAULT '{}'::jsonb,
+    module_versions JSONB NOT NULL DEFAULT '{}'::jsonb,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    total_execution_time DOUBLE PRECISION,
+    error TEXT,
+    resumed BOOLEAN NOT NULL DEFAULT FALSE,
+    replay_of TEXT,
+    pipeline TEXT,
+    trace_id TEXT
+);
+
+-- ==============================================
+-- INDEXES FOR PERFORMANCE
+-- ==============================================
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_started_at ON pipeline_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_session_id ON pipeline_runs(session_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_user_id ON pipeline_runs(user_id);
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_status ON pipeline_runs(status);
+
+-- ==============================================
+-- ROW LEVEL SECURITY
+-- ==============================================
+
+-- Only the service role reads and writes run records
+ALTER TABLE pipeline_runs ENABLE ROW LEVEL SECURITY;
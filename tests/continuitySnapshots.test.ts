@@ -0,0 +1,96 @@
+// Continuity Snapshot Tests
+// Exercises versioned state snapshots, time-travel queries and state diffs
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { ContinuityEngine } from '../src/lib/directorstudio/core/continuity'
+import { Telemetry } from '../src/lib/directorstudio/core/telemetry'
+import { diffStates } from '../src/lib/directorstudio/core/snapshots'
+
+// ==============================================
+// CONTINUITY SNAPSHOT TESTS
+// ==============================================
+
+describe('ContinuityEngine snapshots', () => {
+  let engine: ContinuityEngine
+
+  beforeEach(() => {
+    const telemetry = Telemetry.create({
+      enabled: false,
+      endpoint: '',
+      batchSize: 100,
+      flushInterval: 0,
+      retentionDays: 1
+    })
+    engine = ContinuityEngine.create({
+      enabled: false,
+      storage: 'memory',
+      ttl: 0,
+      maxEvents: 50,
+      maxSnapshots: 5
+    }, undefined, telemetry)
+  })
+
+  afterEach(() => {
+    engine.destroy()
+  })
+
+  it('should record a version for every state change', () => {
+    engine.updateState('session-1', { 'VideoUploadModule:status': 'uploaded' }, 'VideoUploadModule')
+    engine.updateState('session-1', { 'pipeline:output': { videoId: 'video-1' } }, 'PipelineEngine')
+    engine.clearState('session-1', 'VideoUploadModule')
+
+    const snapshots = engine.getSnapshots('session-1')
+
+    expect(snapshots.map(snapshot => snapshot.version)).toEqual([0, 1, 2, 3])
+    expect(snapshots.map(snapshot => snapshot.source)).toEqual(['create', 'update', 'update', 'clear'])
+    expect(snapshots[3].keys).toEqual(['VideoUploadModule:status'])
+  })
+
+  it('should return the state as it was at a version', () => {
+    const output = { videoId: 'video-1', tags: ['draft'] }
+    engine.updateState('session-2', { 'pipeline:output': output }, 'PipelineEngine')
+
+    // In-place changes after the update must not rewrite the recorded version
+    output.tags.push('final')
+    engine.updateState('session-2', { 'pipeline:completed': true }, 'PipelineEngine')
+
+    expect(engine.getStateAt('session-2', 1)).toEqual({
+      'pipeline:output': { videoId: 'video-1', tags: ['draft'] }
+    })
+    expect(engine.getStateAt('session-2', new Date(0))).toBeUndefined()
+  })
+
+  it('should diff two versions structurally', () => {
+    engine.updateState('session-3', { 'pipeline:output': { tags: ['draft'] } }, 'PipelineEngine')
+    engine.updateState('session-3', { 'pipeline:output': { tags: ['final', 'public'] } }, 'PipelineEngine')
+
+    expect(engine.diffState('session-3', 1, 2)).toEqual([
+      { path: 'pipeline:output.tags[0]', type: 'changed', before: 'draft', after: 'final' },
+      { path: 'pipeline:output.tags[1]', type: 'added', after: 'public' }
+    ])
+  })
+
+  it('should only keep the newest maxSnapshots versions', () => {
+    for (let step = 0; step < 10; step++) {
+      engine.updateState('session-4', { step }, 'PipelineEngine')
+    }
+
+    expect(engine.getSnapshots('session-4').map(snapshot => snapshot.version)).toEqual([6, 7, 8, 9, 10])
+    expect(() => engine.diffState('session-4', 0)).toThrow('No state snapshot')
+  })
+})
+
+describe('diffStates', () => {
+  it('should report added, removed and changed keys', () => {
+    const changes = diffStates(
+      { kept: 1, removed: true, nested: { at: new Date(0) } },
+      { kept: 1, added: 'yes', nested: { at: new Date(1) } }
+    )
+
+    expect(changes.map(change => `${change.type}:${change.path}`)).toEqual([
+      'removed:removed',
+      'changed:nested.at',
+      'added:added'
+    ])
+  })
+})
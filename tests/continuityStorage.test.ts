@@ -0,0 +1,603 @@
+// Continuity Storage Tests
+// Exercises the Redis and database continuity adapters against in-memory fakes
+
+import { describe, it, expect, beforeAll, beforeEach } from '@jest/globals'
+import {
+  RedisContinuityStorage,
+  DatabaseContinuityStorage,
+  RedisLikeClient
+} from '../src/lib/directorstudio/core/storage'
+import { ContinuityEngine } from '../src/lib/directorstudio/core/continuity'
+import { Telemetry } from '../src/lib/directorstudio/core/telemetry'
+import { ContinuityContext, ContinuityEvent } from '../src/lib/directorstudio/core/types'
+
+// ==============================================
+// IN-MEMORY FAKES
+// ==============================================
+
+class FakeRedis implements RedisLikeClient {
+  private strings = new Map<string, string>()
+  private lists = new Map<string, string[]>()
+  private sets = new Map<string, Set<string>>()
+  private expiries = new Map<string, number>()
+  private now = 0
+
+  advance(ms: number) {
+    this.now += ms
+  }
+
+  async get(key: string) {
+    this.evict(key)
+    return this.strings.get(key) ?? null
+  }
+
+  async set(key: string, value: string, ...args: Array<string | number>) {
+    this.strings.set(key, value)
+    this.expiries.delete(key)
+    if (args[0] === 'PX') {
+      this.expiries.set(key, this.now + Number(args[1]))
+    }
+    return 'OK'
+  }
+
+  async del(...keys: string[]) {
+    let removed = 0
+    keys.forEach(key => {
+      if (this.strings.delete(key) || this.lists.delete(key) || this.sets.delete(key)) removed++
+      this.expiries.delete(key)
+    })
+    return removed
+  }
+
+  async rpush(key: string, ...values: string[]) {
+    this.evict(key)
+    const list = this.lists.get(key) || []
+    list.push(...values)
+    this.lists.set(key, list)
+    return list.length
+  }
+
+  async ltrim(key: string, start: number, stop: number) {
+    const list = this.lists.get(key) || []
+    this.lists.set(key, list.slice(this.index(list, start), this.index(list, stop) + 1))
+    return 'OK'
+  }
+
+  async lrange(key: string, start: number, stop: number) {
+    this.evict(key)
+    const list = this.lists.get(key) || []
+    return list.slice(this.index(list, start), this.index(list, stop) + 1)
+  }
+
+  async sadd(key: string, ...members: string[]) {
+    this.evict(key)
+    const set = this.sets.get(key) || new Set<string>()
+    const before = set.size
+    members.forEach(member => set.add(member))
+    this.sets.set(key, set)
+    return set.size - before
+  }
+
+  async srem(key: string, ...members: string[]) {
+    const set = this.sets.get(key)
+    if (!set) return 0
+    return members.filter(member => set.delete(member)).length
+  }
+
+  async smembers(key: string) {
+    this.evict(key)
+    return Array.from(this.sets.get(key) || [])
+  }
+
+  async pexpire(key: string, ttl: number) {
+    if (!this.strings.has(key) && !this.lists.has(key) && !this.sets.has(key)) return 0
+    this.expiries.set(key, this.now + ttl)
+    return 1
+  }
+
+  private index(list: string[], position: number) {
+    return position < 0 ? Math.max(list.length + position, 0) : position
+  }
+
+  private evict(key: string) {
+    const expiry = this.expiries.get(key)
+    if (expiry !== undefined && expiry <= this.now) {
+      this.strings.delete(key)
+      this.lists.delete(key)
+      this.sets.delete(key)
+      this.expiries.delete(key)
+    }
+  }
+}
+
+type Row = Record<string, any>
+
+class FakeQuery {
+  private filters: Array<(row: Row) => boolean> = []
+  private operation: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select'
+  private payload: Row = {}
+  private sort?: { column: string; ascending: boolean }
+  private window?: [number, number]
+  private single = false
+  private returning = false
+
+  constructor(private db: FakeSupabase, private table: string) {}
+
+  select(_columns?: string) {
+    if (this.operation !== 'select') this.returning = true
+    return this
+  }
+
+  insert(row: Row) {
+    this.operation = 'insert'
+    this.payload = row
+    return this
+  }
+
+  upsert(row: Row, _options?: { onConflict: string }) {
+    this.operation = 'upsert'
+    this.payload = row
+    return this
+  }
+
+  update(patch: Row) {
+    this.operation = 'update'
+    this.payload = patch
+    return this
+  }
+
+  delete() {
+    this.operation = 'delete'
+    return this
+  }
+
+  eq(column: string, value: any) {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  gte(column: string, value: string) {
+    this.filters.push(row => row[column] !== null && row[column] >= value)
+    return this
+  }
+
+  lt(column: string, value: string) {
+    this.filters.push(row => row[column] !== null && row[column] < value)
+    return this
+  }
+
+  in(column: string, values: any[]) {
+    this.filters.push(row => values.includes(row[column]))
+    return this
+  }
+
+  or(expression: string) {
+    // Supports the "expires_at.is.null,expires_at.gt.<iso>" form used by the adapter
+    const clauses = expression.split(',').map(clause => {
+      const [column, operator, ...rest] = clause.split('.')
+      const value = rest.join('.')
+      return (row: Row) => operator === 'is' ? row[column] === null : row[column] > value
+    })
+    this.filters.push(row => clauses.some(clause => clause(row)))
+    return this
+  }
+
+  order(column: string, options: { ascending: boolean }) {
+    this.sort = { column, ascending: options.ascending }
+    return this
+  }
+
+  range(from: number, to: number) {
+    this.window = [from, to]
+    return this
+  }
+
+  maybeSingle() {
+    this.single = true
+    return this
+  }
+
+  then(resolve: (result: { data: any; error: { message: string } | null }) => void) {
+    try {
+      resolve({ data: this.execute(), error: null })
+    } catch (error) {
+      resolve({ data: null, error: { message: (error as Error).message } })
+    }
+  }
+
+  private execute() {
+    const rows = this.db.rows(this.table)
+    const matches = rows.filter(row => this.filters.every(filter => filter(row)))
+
+    switch (this.operation) {
+      case 'insert':
+        // Mirror the id primary key on continuity_events
+        if ('id' in this.payload && rows.some(row => row.id === this.payload.id)) {
+          throw new Error(`duplicate key value violates unique constraint "${this.table}_pkey"`)
+        }
+        rows.push({ ...this.payload })
+        return null
+      case 'upsert': {
+        const existing = rows.find(row => row.session_id === this.payload.session_id)
+        if (existing) Object.assign(existing, this.payload)
+        else rows.push({ ...this.payload })
+        return null
+      }
+      case 'update':
+        matches.forEach(row => Object.assign(row, this.payload))
+        return null
+      case 'delete':
+        this.db.remove(this.table, matches)
+        return this.returning ? matches : null
+    }
+
+    let result = [...matches]
+    if (this.sort) {
+      const { column, ascending } = this.sort
+      result.sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1))
+    }
+    if (this.window) {
+      result = result.slice(this.window[0], this.window[1] + 1)
+    }
+    return this.single ? result[0] ?? null : result
+  }
+}
+
+class FakeSupabase {
+  private tables = new Map<string, Row[]>()
+
+  from(table: string) {
+    return new FakeQuery(this, table)
+  }
+
+  rows(table: string) {
+    if (!this.tables.has(table)) this.tables.set(table, [])
+    return this.tables.get(table)!
+  }
+
+  remove(table: string, removed: Row[]) {
+    this.tables.set(table, this.rows(table).filter(row => !removed.includes(row)))
+
+    // Mirror the ON DELETE CASCADE from continuity_events to continuity_contexts
+    if (table === 'continuity_contexts') {
+      const sessions = removed.map(row => row.session_id)
+      this.tables.set(
+        'continuity_events',
+        this.rows('continuity_events').filter(row => !sessions.includes(row.session_id))
+      )
+    }
+  }
+}
+
+// ==============================================
+// HELPERS
+// ==============================================
+
+function createContext(sessionId: string): ContinuityContext {
+  return {
+    sessionId,
+    userId: 'test-user-id',
+    state: { 'pipeline:processing': true },
+    history: [],
+    metadata: {
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      lastAccessed: new Date('2024-01-01T00:05:00Z')
+    }
+  }
+}
+
+function createEvent(index: number): ContinuityEvent {
+  return {
+    id: `ctx_test_${index}`,
+    type: 'module_processed',
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, index)),
+    data: { index },
+    module: 'VideoUploadModule'
+  }
+}
+
+// ==============================================
+// REDIS STORAGE TESTS
+// ==============================================
+
+describe('RedisContinuityStorage', () => {
+  let redis: FakeRedis
+  let storage: RedisContinuityStorage
+
+  beforeEach(() => {
+    redis = new FakeRedis()
+    storage = new RedisContinuityStorage(redis)
+  })
+
+  it('should round-trip context state and history', async () => {
+    await storage.save(createContext('session-1'), 60000)
+    await storage.appendEvent('session-1', createEvent(1), 10, 60000)
+
+    const loaded = await storage.load('session-1')
+
+    expect(loaded).not.toBeNull()
+    expect(loaded!.userId).toBe('test-user-id')
+    expect(loaded!.state).toEqual({ 'pipeline:processing': true })
+    expect(loaded!.metadata.lastAccessed).toBeInstanceOf(Date)
+    expect(loaded!.history).toHaveLength(1)
+    expect(loaded!.history[0].timestamp).toBeInstanceOf(Date)
+  })
+
+  it('should trim history to maxEvents', async () => {
+    await storage.save(createContext('session-1'), 60000)
+    for (let i = 0; i < 5; i++) {
+      await storage.appendEvent('session-1', createEvent(i), 3, 60000)
+    }
+
+    const loaded = await storage.load('session-1')
+
+    expect(loaded!.history.map(event => event.id)).toEqual(['ctx_test_2', 'ctx_test_3', 'ctx_test_4'])
+  })
+
+  it('should expire contexts after the ttl', async () => {
+    await storage.save(createContext('session-1'), 1000)
+    redis.advance(1001)
+
+    expect(await storage.load('session-1')).toBeNull()
+  })
+
+  it('should delete context and history', async () => {
+    await storage.save(createContext('session-1'), 60000)
+    await storage.appendEvent('session-1', createEvent(1), 10, 60000)
+    await storage.delete('session-1')
+
+    expect(await storage.load('session-1')).toBeNull()
+  })
+
+  it("should list a user's live sessions", async () => {
+    await storage.save(createContext('session-1'), 60000)
+    await storage.save(createContext('session-2'), 60000)
+    await storage.delete('session-1')
+
+    expect(await storage.listSessions('test-user-id')).toEqual(['session-2'])
+    expect(await storage.listSessions('other-user-id')).toEqual([])
+  })
+})
+
+// ==============================================
+// DATABASE STORAGE TESTS
+// ==============================================
+
+describe('DatabaseContinuityStorage', () => {
+  let db: FakeSupabase
+  let storage: DatabaseContinuityStorage
+
+  beforeEach(() => {
+    db = new FakeSupabase()
+    storage = new DatabaseContinuityStorage(db as any)
+  })
+
+  it('should round-trip context state and history', async () => {
+    await storage.save(createContext('session-1'), 60000)
+    await storage.appendEvent('session-1', createEvent(1), 10, 60000)
+
+    const loaded = await storage.load('session-1')
+
+    expect(loaded).not.toBeNull()
+    expect(loaded!.state).toEqual({ 'pipeline:processing': true })
+    expect(loaded!.history).toHaveLength(1)
+    expect(loaded!.history[0].module).toBe('VideoUploadModule')
+  })
+
+  it('should trim history to maxEvents', async () => {
+    await storage.save(createContext('session-1'), 60000)
+    for (let i = 0; i < 5; i++) {
+      await storage.appendEvent('session-1', createEvent(i), 3, 60000)
+    }
+
+    const loaded = await storage.load('session-1')
+
+    expect(loaded!.history.map(event => event.id)).toEqual(['ctx_test_2', 'ctx_test_3', 'ctx_test_4'])
+    expect(db.rows('continuity_events')).toHaveLength(3)
+  })
+
+  it('should trim overflow larger than one delete batch', async () => {
+    await storage.save(createContext('session-1'), 60000)
+    const rows = db.rows('continuity_events')
+    for (let i = 0; i < 2500; i++) {
+      rows.push({
+        id: `ctx_old_${i}`,
+        session_id: 'session-1',
+        type: 'module_processed',
+        module: 'VideoUploadModule',
+        data: {},
+        created_at: new Date(Date.UTC(2023, 0, 1, 0, 0, 0, i)).toISOString()
+      })
+    }
+
+    await storage.appendEvent('session-1', createEvent(1), 3, 60000)
+
+    expect(db.rows('continuity_events').map(row => row.id)).toEqual(['ctx_old_2498', 'ctx_old_2499', 'ctx_test_1'])
+  })
+
+  it('should hide and purge expired contexts', async () => {
+    await storage.save(createContext('session-1'), 1)
+    await storage.appendEvent('session-1', createEvent(1), 10, 1)
+    await new Promise(resolve => setTimeout(resolve, 5))
+
+    expect(await storage.load('session-1')).toBeNull()
+    expect(await storage.purgeExpired()).toBe(1)
+    expect(db.rows('continuity_events')).toHaveLength(0)
+  })
+
+  it('should reject events with an ID already stored', async () => {
+    await storage.save(createContext('session-1'), 60000)
+    await storage.save(createContext('session-2'), 60000)
+    await storage.appendEvent('session-1', createEvent(1), 10, 60000)
+
+    await expect(storage.appendEvent('session-2', createEvent(1), 10, 60000)).rejects.toThrow('duplicate key')
+  })
+
+  it('should load events from a given time', async () => {
+    await storage.save(createContext('session-1'), 60000)
+    for (let i = 0; i < 3; i++) {
+      await storage.appendEvent('session-1', createEvent(i), 10, 60000)
+    }
+
+    const events = await storage.loadEvents('session-1', createEvent(1).timestamp)
+
+    expect(events.map(event => event.id)).toEqual(['ctx_test_1', 'ctx_test_2'])
+    expect(events[0].timestamp).toEqual(createEvent(1).timestamp)
+  })
+
+  it('should keep contexts without a ttl', async () => {
+    await storage.save(createContext('session-1'), 0)
+
+    expect(await storage.load('session-1')).not.toBeNull()
+    expect(await storage.purgeExpired()).toBe(0)
+  })
+})
+
+// ==============================================
+// CONTINUITY ENGINE PERSISTENCE TESTS
+// ==============================================
+
+describe('ContinuityEngine persistence', () => {
+  const redis = new FakeRedis()
+
+  beforeAll(() => {
+    Telemetry.getInstance({
+      enabled: false,
+      endpoint: '',
+      batchSize: 100,
+      flushInterval: 0,
+      retentionDays: 1
+    })
+    ContinuityEngine.getInstance({
+      enabled: true,
+      storage: 'redis',
+      ttl: 60000,
+      maxEvents: 50
+    }, new RedisContinuityStorage(redis))
+  })
+
+  it('should restore state after the local cache is lost', async () => {
+    const engine = ContinuityEngine.getInstance()
+
+    engine.updateState('session-cold-start', { 'pipeline:input': { videoId: 'video-1' } }, 'PipelineEngine')
+    await engine.flush()
+
+    // Simulate a cold start by dropping every cached context
+    engine.destroy()
+
+    const context = await engine.loadContext('session-cold-start')
+
+    expect(context.state['pipeline:input']).toEqual({ videoId: 'video-1' })
+    expect(context.history.some(event => event.type === 'state_update')).toBe(true)
+  })
+
+  it('should look up a session without creating it', async () => {
+    const engine = ContinuityEngine.getInstance()
+
+    engine.getContext('session-peek', 'user-4')
+    await engine.flush()
+    engine.destroy()
+
+    expect((await engine.peekContext('session-peek'))?.userId).toBe('user-4')
+    expect(await engine.peekContext('session-unknown')).toBe(undefined)
+    expect(await new RedisContinuityStorage(redis).load('session-unknown')).toBe(null)
+    expect(engine.getActiveContexts()).toEqual([])
+  })
+
+  it("should merge a user's sessions across instances", async () => {
+    const engine = ContinuityEngine.getInstance()
+
+    engine.getContext('session-laptop', 'user-1')
+    engine.updateState('session-laptop', { 'export:format': 'mp4', 'export:progress': 0.5 }, 'PipelineEngine')
+    await engine.flush()
+    engine.destroy()
+
+    // A second device starts a new session for the same user
+    engine.getContext('session-phone', 'user-1')
+    engine.updateState('session-phone', { 'export:progress': 0.8 }, 'PipelineEngine')
+
+    const userContext = await engine.getUserContext('user-1')
+
+    expect(userContext.sessions.map(session => session.sessionId)).toEqual(['session-phone', 'session-laptop'])
+    expect(userContext.state).toEqual({ 'export:format': 'mp4', 'export:progress': 0.8 })
+    expect(userContext.sources['export:format']).toBe('session-laptop')
+  })
+
+  it('should hand off a session to a new session ID', async () => {
+    const engine = ContinuityEngine.getInstance()
+
+    engine.getContext('session-old', 'user-2')
+    engine.updateState('session-old', { 'export:progress': 0.5 }, 'PipelineEngine')
+
+    await engine.handoffSession('session-old', 'session-new')
+    await engine.flush()
+    engine.destroy()
+
+    const moved = await engine.loadContext('session-new')
+
+    expect(moved.state['export:progress']).toBe(0.5)
+    expect(moved.userId).toBe('user-2')
+    expect(moved.history.some(event => event.type === 'session_handoff')).toBe(true)
+    expect(await engine.listUserSessions('user-2')).toEqual(['session-new'])
+    await expect(engine.handoffSession('session-old', 'session-other')).rejects.toThrow('not found')
+  })
+})
+
+// ==============================================
+// CONTINUITY WATCHER TESTS
+// ==============================================
+
+describe('ContinuityEngine watchers', () => {
+  it('should deliver events added on another instance once each', async () => {
+    const storage = new RedisContinuityStorage(new FakeRedis())
+    const config = { enabled: true, storage: 'redis' as const, ttl: 60000, maxEvents: 50 }
+    const telemetry = Telemetry.create({ enabled: false, endpoint: '', batchSize: 100, flushInterval: 0, retentionDays: 1 })
+    const streaming = ContinuityEngine.create(config, storage, telemetry)
+    const processing = ContinuityEngine.create(config, storage, telemetry)
+    const received: string[] = []
+
+    await processing.loadContext('session-watch', 'user-5')
+    await processing.flush()
+    const stop = streaming.watch('session-watch', { module: 'PipelineEngine' }, event => {
+      received.push(`${event.type}:${event.data.source}`)
+    }, 10)
+
+    streaming.addEvent('session-watch', 'export_started', { source: 'streaming' }, 'PipelineEngine')
+    processing.addEvent('session-watch', 'export_progress', { source: 'processing' }, 'PipelineEngine')
+    processing.addEvent('session-watch', 'module_processed', { source: 'processing' }, 'VideoUploadModule')
+    await streaming.flush()
+    await processing.flush()
+    await new Promise(resolve => setTimeout(resolve, 50))
+    stop()
+
+    expect(received).toEqual(['export_started:streaming', 'export_progress:processing'])
+
+    streaming.destroy()
+    processing.destroy()
+    telemetry.destroy()
+  })
+})
+
+describe('ContinuityEngine handoff with database storage', () => {
+  it('should persist the handed-off history under the new session', async () => {
+    const engine = ContinuityEngine.create(
+      { enabled: true, storage: 'database', ttl: 60000, maxEvents: 50 },
+      new DatabaseContinuityStorage(new FakeSupabase() as any)
+    )
+
+    engine.getContext('session-old', 'user-3')
+    engine.updateState('session-old', { 'export:progress': 0.5 }, 'PipelineEngine')
+    engine.addEvent('session-old', 'export_started', { format: 'mp4' }, 'PipelineEngine')
+    await engine.flush()
+    const history = engine.getHistory('session-old')
+
+    await engine.handoffSession('session-old', 'session-new')
+    await engine.flush()
+    engine.destroy()
+
+    const moved = await engine.loadContext('session-new')
+
+    expect(moved.history.map(event => event.type)).toEqual([...history.map(event => event.type), 'session_handoff'])
+    expect(moved.history.some(event => history.some(original => original.id === event.id))).toBe(false)
+  })
+})
@@ -0,0 +1,235 @@
+// Dead-Letter Queue Tests
+// Covers recording, retrying and discarding failed inputs through the database store
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { PipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { DatabaseDeadLetterStore } from '../src/lib/directorstudio/core/deadletter'
+import { createModule, createTestConfig } from './helpers/pipeline'
+
+// ==============================================
+// IN-MEMORY FAKES
+// ==============================================
+
+type Row = Record<string, any>
+
+class FakeQuery {
+  private filters: Array<(row: Row) => boolean> = []
+  private operation: 'select' | 'upsert' | 'delete' = 'select'
+  private payload: Row = {}
+  private sort?: { column: string; ascending: boolean }
+  private max?: number
+  private single = false
+
+  constructor(private rows: Row[]) {}
+
+  select(_columns?: string) {
+    return this
+  }
+
+  upsert(row: Row, _options?: { onConflict: string }) {
+    this.operation = 'upsert'
+    this.payload = row
+    return this
+  }
+
+  delete() {
+    this.operation = 'delete'
+    return this
+  }
+
+  eq(column: string, value: any) {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  order(column: string, options: { ascending: boolean }) {
+    this.sort = { column, ascending: options.ascending }
+    return this
+  }
+
+  limit(count: number) {
+    this.max = count
+    return this
+  }
+
+  maybeSingle() {
+    this.single = true
+    return this
+  }
+
+  then(resolve: (result: { data: any; error: { message: string } | null }) => void) {
+    resolve({ data: this.execute(), error: null })
+  }
+
+  private execute() {
+    const matches = this.rows.filter(row => this.filters.every(filter => filter(row)))
+
+    switch (this.operation) {
+      case 'upsert': {
+        const existing = this.rows.find(row => row.id === this.payload.id)
+        if (existing) Object.assign(existing, this.payload)
+        else this.rows.push({ ...this.payload })
+        return null
+      }
+      case 'delete':
+        matches.forEach(row => this.rows.splice(this.rows.indexOf(row), 1))
+        return matches
+    }
+
+    let result = [...matches]
+    if (this.sort) {
+      const { column, ascending } = this.sort
+      result.sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1))
+    }
+    if (this.max !== undefined) result = result.slice(0, this.max)
+    return this.single ? result[0] ?? null : result
+  }
+}
+
+class FakeSupabase {
+  public rows: Row[] = []
+
+  from(_table: string) {
+    return new FakeQuery(this.rows)
+  }
+}
+
+// ==============================================
+// DEAD-LETTER QUEUE TESTS
+// ==============================================
+
+describe('dead-letter queue', () => {
+  let db: FakeSupabase
+  let engine: PipelineEngine
+  let failing: boolean
+
+  beforeEach(async () => {
+    db = new FakeSupabase()
+    failing = true
+    engine = PipelineEngine.create(createTestConfig(), {
+      deadLetterStore: new DatabaseDeadLetterStore(db as unknown as SupabaseClient)
+    })
+
+    await engine.registerModule(createModule('VideoProcessingModule', {
+      process: async input => {
+        if (failing) throw new Error('Transcoder unavailable')
+        return input
+      }
+    }))
+    await engine.initialize()
+  })
+
+  afterEach(async () => {
+    await engine.shutdown()
+  })
+
+  it('should store a failed module input as a row', async () => {
+    await engine.process({ videoId: 'video-1' }, 'session-1', 'user-1')
+
+    expect(db.rows).toHaveLength(1)
+    expect(db.rows[0]).toMatchObject({
+      session_id: 'session-1',
+      user_id: 'user-1',
+      module: 'VideoProcessingModule',
+      error: 'Transcoder unavailable',
+      payload: { videoId: 'video-1' }
+    })
+
+    const [entry] = await engine.listDeadLetters({ module: 'VideoProcessingModule' })
+    expect(entry).toMatchObject({ sessionId: 'session-1', userId: 'user-1', attempts: 1 })
+    expect(entry.createdAt).toBeInstanceOf(Date)
+    expect(await engine.getDeadLetter(entry.id)).toEqual(entry)
+  })
+
+  it('should remove an entry once its retry succeeds', async () => {
+    await engine.process({ videoId: 'video-1' }, 'session-1')
+    const [entry] = await engine.listDeadLetters()
+
+    failing = false
+    const result = await engine.retryDeadLetter(entry.id)
+
+    expect(result.results.VideoProcessingModule.status).toBe('completed')
+    expect(await engine.listDeadLetters()).toEqual([])
+  })
+
+  it('should replace the entry in place when its retry fails again', async () => {
+    await engine.process({ videoId: 'video-1' }, 'session-1')
+    const [entry] = await engine.listDeadLetters()
+
+    const result = await engine.retryDeadLetter(entry.id)
+
+    expect(db.rows).toHaveLength(1)
+    expect(await engine.listDeadLetters()).toEqual([{ ...entry, runId: result.runId, attempts: 2 }])
+  })
+
+  it('should discard an entry without retrying it', async () => {
+    await engine.process({ videoId: 'video-1' }, 'session-1')
+    const [entry] = await engine.listDeadLetters()
+
+    expect(await engine.discardDeadLetter(entry.id)).toBe(true)
+    expect(await engine.discardDeadLetter(entry.id)).toBe(false)
+    expect(db.rows).toEqual([])
+  })
+})
+
+// ==============================================
+// RETRY SCOPE TESTS
+// ==============================================
+
+describe('dead-letter retries', () => {
+  let engine: PipelineEngine
+  let calls: string[]
+  let failing: boolean
+
+  beforeEach(async () => {
+    engine = PipelineEngine.create(createTestConfig())
+    calls = []
+    failing = true
+
+    const register = (name: string, dependencies: string[], fails = false) => engine.registerModule(createModule(name, {
+      dependencies,
+      process: async () => {
+        calls.push(name)
+        if (fails && failing) throw new Error(`${name} unavailable`)
+        return { module: name }
+      }
+    }))
+    await register('VideoUploadModule', [])
+    await register('VideoProcessingModule', ['VideoUploadModule'], true)
+    await register('ContentAnalysisModule', ['VideoProcessingModule'])
+    await register('AnalyticsModule', ['VideoUploadModule'])
+    await engine.initialize()
+  })
+
+  afterEach(async () => {
+    await engine.shutdown()
+  })
+
+  it('should run only the failed module and its dependents, restoring the rest from checkpoints', async () => {
+    await engine.process({ videoId: 'video-1' }, 'session-1')
+    const [entry] = await engine.listDeadLetters()
+    expect(entry.module).toBe('VideoProcessingModule')
+
+    calls = []
+    failing = false
+    const result = await engine.retryDeadLetter(entry.id)
+
+    expect(calls.sort()).toEqual(['ContentAnalysisModule', 'VideoProcessingModule'])
+    expect(result.results.VideoUploadModule.fromCheckpoint).toBe(true)
+    expect(result.results.AnalyticsModule).toBeUndefined()
+    expect(result.results.ContentAnalysisModule.status).toBe('completed')
+    expect(await engine.listDeadLetters()).toEqual([])
+  })
+
+  it('should leave the entry untouched when the retry is cancelled', async () => {
+    await engine.process({ videoId: 'video-1' }, 'session-1')
+    const [entry] = await engine.listDeadLetters()
+
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(engine.retryDeadLetter(entry.id, { signal: controller.signal })).rejects.toThrow()
+    expect(await engine.listDeadLetters()).toEqual([entry])
+  })
+})
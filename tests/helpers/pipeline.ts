@@ -0,0 +1,72 @@
+// Pipeline Test Helpers
+// Shared module and engine config fixtures for the pipeline tests
+
+import {
+  ContinuityConfig,
+  DirectorStudioConfig,
+  ModuleConfig,
+  PipelineModule,
+  TelemetryConfig,
+  ValidationConfig,
+  ValidationResult
+} from '../../src/lib/directorstudio/core/types'
+
+export type TestModuleOptions = Partial<Omit<PipelineModule, 'name' | 'config'>> & {
+  config?: Partial<ModuleConfig>
+}
+
+export type TestConfigOverrides = Partial<Omit<DirectorStudioConfig, 'telemetry' | 'continuity' | 'validation'>> & {
+  telemetry?: Partial<TelemetryConfig>
+  continuity?: Partial<ContinuityConfig>
+  validation?: Partial<ValidationConfig>
+}
+
+/**
+ * Build a passing validation result
+ */
+export function createValidationResult(overrides: Partial<ValidationResult> = {}): ValidationResult {
+  return {
+    isValid: true,
+    errors: [],
+    warnings: [],
+    metrics: { executionTime: 0, memoryUsage: 0, cpuUsage: 0, throughput: 0 },
+    ...overrides
+  }
+}
+
+/**
+ * Build a module at version 1.0.0 that passes validation and returns its input;
+ * config fields are merged into the defaults, everything else replaces them
+ */
+export function createModule(name: string, options: TestModuleOptions = {}): PipelineModule {
+  const { config, ...overrides } = options
+
+  return {
+    name,
+    version: '1.0.0',
+    dependencies: [],
+    initialize: async () => {},
+    process: async (input: any) => input,
+    validate: async () => createValidationResult(),
+    cleanup: async () => {},
+    ...overrides,
+    config: { enabled: true, priority: 1, timeout: 1000, retries: 0, metadata: {}, ...config }
+  }
+}
+
+/**
+ * Build an engine config with in-memory continuity, no telemetry flushing and
+ * lenient validation; the telemetry, continuity and validation overrides are
+ * merged into those defaults
+ */
+export function createTestConfig(overrides: TestConfigOverrides = {}): DirectorStudioConfig {
+  const { telemetry, continuity, validation, ...rest } = overrides
+
+  return {
+    modules: {},
+    ...rest,
+    telemetry: { enabled: true, endpoint: '', batchSize: 1000, flushInterval: 0, retentionDays: 1, ...telemetry },
+    continuity: { enabled: true, storage: 'memory', ttl: 0, maxEvents: 100, ...continuity },
+    validation: { strictMode: false, autoValidate: false, timeout: 1000, retries: 0, ...validation }
+  }
+}
@@ -0,0 +1,4 @@
+// Test Setup
+// Runs before each test file; mutes debug logging such as the console telemetry exporter's batch reports
+
+console.debug = () => {}
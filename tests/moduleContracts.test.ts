@@ -0,0 +1,91 @@
+// Module Contract Tests
+// Covers schema compatibility between connected modules and runtime input/output checks
+
+import { describe, it, expect, afterEach } from '@jest/globals'
+import { z } from 'zod'
+import { checkSchemaCompatibility } from '../src/lib/directorstudio/core/contracts'
+import { PipelineEngine, createPipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { createModule, createTestConfig } from './helpers/pipeline'
+
+const UploadResult = z.object({ videoId: z.string(), url: z.string(), size: z.number() })
+
+function createEngine(strictMode: boolean): PipelineEngine {
+  return createPipelineEngine(createTestConfig({ validation: { strictMode } }))
+}
+
+// ==============================================
+// SCHEMA COMPATIBILITY TESTS
+// ==============================================
+
+describe('checkSchemaCompatibility', () => {
+  it('should accept outputs that provide everything the input requires', () => {
+    const expected = z.object({ url: z.string(), duration: z.number().optional() })
+
+    expect(checkSchemaCompatibility(UploadResult, expected)).toEqual([])
+  })
+
+  it('should list missing, mistyped and possibly missing fields', () => {
+    const provided = z.object({ videoId: z.number(), url: z.string().optional() })
+    const expected = z.object({ videoId: z.string(), url: z.string(), format: z.enum(['mp4', 'webm']) })
+
+    expect(checkSchemaCompatibility(provided, expected)).toEqual([
+      'videoId: expected string, got number',
+      'url: may be missing but is required',
+      'format: missing from the provided output'
+    ])
+  })
+})
+
+// ==============================================
+// PIPELINE CONTRACT TESTS
+// ==============================================
+
+describe('pipeline contracts', () => {
+  let engine: PipelineEngine
+
+  afterEach(async () => {
+    await engine.shutdown()
+  })
+
+  it('should refuse to start in strict mode when connected modules disagree', async () => {
+    engine = createEngine(true)
+    await engine.registerModule(createModule('VideoUploadModule', {
+      schemas: { input: z.object({ videoId: z.string() }), output: UploadResult }
+    }))
+    await engine.registerModule(createModule('VideoProcessingModule', {
+      dependencies: ['VideoUploadModule'],
+      schemas: {
+        input: z.any(),
+        output: z.any(),
+        dependencies: { VideoUploadModule: z.object({ url: z.string(), codec: z.string() }) }
+      }
+    }))
+
+    await expect(engine.initialize()).rejects.toThrow(
+      'Incompatible module contracts: Output of VideoUploadModule does not satisfy VideoProcessingModule: codec: missing from the provided output'
+    )
+  })
+
+  it('should fail a module whose input or output breaks its contract', async () => {
+    engine = createEngine(false)
+    let processed = 0
+    await engine.registerModule(createModule('VideoUploadModule', {
+      schemas: { input: z.object({ videoId: z.string() }), output: UploadResult },
+      process: async input => {
+        processed++
+        return { videoId: input.videoId, url: `s3://${input.videoId}` }
+      }
+    }))
+    await engine.initialize()
+
+    const badInput = await engine.process({ videoId: 42 }, 'session-1')
+    expect(badInput.results.VideoUploadModule.status).toBe('failed')
+    expect(badInput.results.VideoUploadModule.error).toContain('videoId')
+    expect(processed).toBe(0)
+
+    const badOutput = await engine.process({ videoId: 'video-1' }, 'session-2')
+    expect(badOutput.results.VideoUploadModule.status).toBe('failed')
+    expect(badOutput.results.VideoUploadModule.error).toContain('size')
+    expect(processed).toBe(1)
+  })
+})
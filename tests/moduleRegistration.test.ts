@@ -0,0 +1,73 @@
+// Module Registration Tests
+// Covers awaiting validation in registerModule, refusing invalid modules and dry runs
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { PipelineEngine, ModuleRegistrationError, createPipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { PipelineModule } from '../src/lib/directorstudio/core/types'
+import { createModule, createTestConfig, createValidationResult } from './helpers/pipeline'
+
+async function registrationError(engine: PipelineEngine, module: PipelineModule): Promise<ModuleRegistrationError> {
+  try {
+    await engine.registerModule(module)
+  } catch (error) {
+    return error as ModuleRegistrationError
+  }
+  throw new Error(`${module.name} was registered`)
+}
+
+// ==============================================
+// REGISTRATION TESTS
+// ==============================================
+
+describe('module registration', () => {
+  let engine: PipelineEngine
+
+  beforeEach(() => {
+    engine = createPipelineEngine(createTestConfig())
+  })
+
+  afterEach(async () => {
+    await engine.shutdown()
+  })
+
+  it('should refuse a structurally invalid module with a typed error', async () => {
+    const module: Partial<PipelineModule> = createModule('VideoProcessingModule')
+    delete module.process
+
+    const error = await registrationError(engine, module as PipelineModule)
+
+    expect(error instanceof ModuleRegistrationError).toBe(true)
+    expect(error).toMatchObject({ module: 'VideoProcessingModule', version: '1.0.0' })
+    expect(error.result.isValid).toBe(false)
+    expect(error.result.errors.map(issue => issue.code)).toContain('MISSING_PROCESS')
+    expect(engine.getModule('VideoProcessingModule')).toBe(undefined)
+  })
+
+  it('should refuse a module whose own validation fails', async () => {
+    const error = await registrationError(engine, createModule('VideoUploadModule', {
+      validate: async () => createValidationResult({
+        isValid: false,
+        errors: [{
+          code: 'MISSING_BUCKET',
+          message: 'Storage bucket is not configured',
+          severity: 'error',
+          module: 'VideoUploadModule',
+          timestamp: new Date()
+        }]
+      })
+    }))
+
+    expect(error.message).toBe('Module VideoUploadModule@1.0.0 failed validation: MISSING_BUCKET: Storage bucket is not configured')
+    expect(engine.getModules()).toEqual([])
+  })
+
+  it('should return the validation result of a dry run without registering', async () => {
+    const valid = await engine.registerModule(createModule('VideoUploadModule'), { dryRun: true })
+    const invalid = await engine.registerModule(createModule('AnalyticsModule', { version: '' }), { dryRun: true })
+
+    expect(valid.isValid).toBe(true)
+    expect(invalid.isValid).toBe(false)
+    expect(invalid.errors.map(issue => issue.code)).toContain('MISSING_VERSION')
+    expect(engine.getModules()).toEqual([])
+  })
+})
@@ -0,0 +1,111 @@
+// Module Timeout and Retry Tests
+// Covers per-attempt timeouts, aborting timed-out attempts, retries with backoff and partial cleanup
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { PipelineEngine, createPipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { ModuleConfig, PipelineModule } from '../src/lib/directorstudio/core/types'
+import { createModule, createTestConfig } from './helpers/pipeline'
+
+// A module retrying with short backoff delays
+function createRetryingModule(
+  name: string,
+  process: PipelineModule['process'],
+  config: Partial<ModuleConfig> = {}
+): PipelineModule {
+  return createModule(name, {
+    process,
+    config: { retryBackoff: { initialDelay: 1, multiplier: 2, maxDelay: 10 }, ...config }
+  })
+}
+
+// Never settles on its own; rejects once its signal is aborted
+const hang = (signal?: AbortSignal) => new Promise<never>((_, reject) => {
+  signal?.addEventListener('abort', () => reject(new Error('aborted')))
+})
+
+// ==============================================
+// TIMEOUT AND RETRY TESTS
+// ==============================================
+
+describe('module timeouts and retries', () => {
+  let engine: PipelineEngine
+
+  beforeEach(() => {
+    engine = createPipelineEngine(createTestConfig())
+  })
+
+  afterEach(async () => {
+    await engine.shutdown()
+  })
+
+  it('should abort a timed-out attempt before retrying', async () => {
+    const signals: AbortSignal[] = []
+    await engine.registerModule(createRetryingModule('VideoProcessingModule', async (input, signal) => {
+      signals.push(signal!)
+      if (signals.length === 1) return hang(signal)
+      return input
+    }, { timeout: 20, retries: 1 }))
+    await engine.initialize()
+
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(result.results.VideoProcessingModule).toMatchObject({ status: 'completed', attempts: 2 })
+    expect(signals.map(signal => signal.aborted)).toEqual([true, false])
+  })
+
+  it('should fail with the timeout once retries are exhausted', async () => {
+    let attempts = 0
+    await engine.registerModule(createRetryingModule('VideoProcessingModule', async (_, signal) => {
+      attempts++
+      return hang(signal)
+    }, { timeout: 10, retries: 2 }))
+    await engine.initialize()
+
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(attempts).toBe(3)
+    expect(result.results.VideoProcessingModule).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      error: 'Module VideoProcessingModule timed out after 10ms'
+    })
+  })
+
+  it('should clean up partial work after every failed attempt', async () => {
+    const cleanedUp: number[] = []
+    let attempts = 0
+    await engine.registerModule(createModule('VideoProcessingModule', {
+      process: async (_, signal) => {
+        if (++attempts === 1) throw new Error('Transcoder crashed')
+        return hang(signal)
+      },
+      cleanupPartial: async () => {
+        cleanedUp.push(attempts)
+      },
+      config: { timeout: 10, retries: 1, retryBackoff: { initialDelay: 1, multiplier: 2, maxDelay: 10 } }
+    }))
+    await engine.initialize()
+
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(result.results.VideoProcessingModule.status).toBe('failed')
+    expect(cleanedUp).toEqual([1, 2])
+  })
+
+  it('should retry failed attempts and not retry without retries', async () => {
+    let calls = 0
+    await engine.registerModule(createRetryingModule('VideoUploadModule', async input => {
+      if (++calls < 3) throw new Error('Storage unavailable')
+      return input
+    }, { retries: 2 }))
+    await engine.registerModule(createRetryingModule('AnalyticsModule', async () => {
+      throw new Error('Analytics backend unavailable')
+    }))
+    await engine.initialize()
+
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(result.results.VideoUploadModule).toMatchObject({ status: 'completed', attempts: 3 })
+    expect(result.results.AnalyticsModule).toMatchObject({ status: 'failed', attempts: 1 })
+  })
+})
@@ -0,0 +1,116 @@
+// Module Versioning Tests
+// Covers side-by-side versions, in-flight runs finishing on their version and semver dependency ranges
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { PipelineEngine, createPipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { PipelineModule } from '../src/lib/directorstudio/core/types'
+import { TestModuleOptions, createModule, createTestConfig } from './helpers/pipeline'
+
+// A module version that reports which version ran
+function createVersion(name: string, version: string, options: TestModuleOptions = {}): PipelineModule {
+  return createModule(name, { version, process: async () => ({ version }), ...options })
+}
+
+// Let modules registered after startup finish initializing
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+// ==============================================
+// VERSIONING TESTS
+// ==============================================
+
+describe('module versions', () => {
+  let engine: PipelineEngine
+
+  beforeEach(() => {
+    engine = createPipelineEngine(createTestConfig())
+  })
+
+  afterEach(async () => {
+    await engine.shutdown()
+  })
+
+  it('should keep older versions registered and route new runs to the newest', async () => {
+    await engine.registerModule(createVersion('VideoProcessingModule', '1.0.0'))
+    await engine.initialize()
+    await engine.registerModule(createVersion('VideoProcessingModule', '2.0.0'))
+    await settle()
+
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(engine.getModuleVersions('VideoProcessingModule').map(module => module.version)).toEqual(['2.0.0', '1.0.0'])
+    expect(result.moduleVersions).toEqual({ VideoProcessingModule: '2.0.0' })
+    expect(result.results.VideoProcessingModule.output).toEqual({ version: '2.0.0' })
+  })
+
+  it('should let a run in progress finish on the version it started with', async () => {
+    let started: () => void = () => {}
+    let unblock: () => void = () => {}
+    const running = new Promise<void>(resolve => {
+      started = resolve
+    })
+    const gate = new Promise<void>(resolve => {
+      unblock = resolve
+    })
+    let cleanedUp = false
+    const original = createVersion('VideoProcessingModule', '1.0.0', {
+      process: async () => {
+        started()
+        await gate
+        return { version: '1.0.0' }
+      },
+      cleanup: async () => {
+        cleanedUp = true
+      }
+    })
+
+    await engine.registerModule(original)
+    await engine.initialize()
+    const inFlight = engine.process({ videoId: 'video-1' }, 'session-1')
+    await running
+
+    // Re-registering the same version replaces it, but not under the running session
+    await engine.registerModule(createVersion('VideoProcessingModule', '1.0.0', {
+      process: async () => ({ version: 'replacement' })
+    }))
+    await settle()
+    expect(cleanedUp).toBe(false)
+
+    unblock()
+    expect((await inFlight).results.VideoProcessingModule.output).toEqual({ version: '1.0.0' })
+    await settle()
+    expect(cleanedUp).toBe(true)
+
+    const next = await engine.process({ videoId: 'video-2' }, 'session-2')
+    expect(next.results.VideoProcessingModule.output).toEqual({ version: 'replacement' })
+  })
+
+  it('should resolve dependencies to the newest version in their semver range', async () => {
+    const inputs: any[] = []
+    await engine.registerModule(createVersion('VideoUploadModule', '1.2.0'))
+    await engine.registerModule(createVersion('VideoUploadModule', '2.0.0'))
+    await engine.registerModule(createVersion('VideoProcessingModule', '1.0.0', {
+      dependencies: ['VideoUploadModule@^1'],
+      process: async input => {
+        inputs.push(input.dependencies)
+        return {}
+      }
+    }))
+    await engine.initialize()
+
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(result.moduleVersions).toEqual({ VideoUploadModule: '1.2.0', VideoProcessingModule: '1.0.0' })
+    expect(inputs).toEqual([{ VideoUploadModule: { version: '1.2.0' } }])
+  })
+
+  it('should fall back to the remaining version when one is unregistered', async () => {
+    await engine.registerModule(createVersion('VideoProcessingModule', '1.0.0'))
+    await engine.registerModule(createVersion('VideoProcessingModule', '2.0.0'))
+    await engine.initialize()
+
+    engine.unregisterModule('VideoProcessingModule', '2.0.0')
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(result.moduleVersions).toEqual({ VideoProcessingModule: '1.0.0' })
+  })
+})
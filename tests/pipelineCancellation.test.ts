@@ -0,0 +1,102 @@
+// Pipeline Cancellation Tests
+// Covers aborting a run through its AbortSignal, partial cleanup and the recorded cancelled state
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { PipelineCancelledError } from '../src/lib/directorstudio/core/cancellation'
+import { ContinuityEngine } from '../src/lib/directorstudio/core/continuity'
+import { PipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { Telemetry } from '../src/lib/directorstudio/core/telemetry'
+import { createModule, createTestConfig } from './helpers/pipeline'
+
+const config = createTestConfig()
+
+// ==============================================
+// CANCELLATION TESTS
+// ==============================================
+
+describe('pipeline cancellation', () => {
+  let telemetry: Telemetry
+  let continuity: ContinuityEngine
+  let engine: PipelineEngine
+  let started: Promise<void>
+  let cleanedUp: any[]
+  let downstreamCalls: number
+
+  beforeEach(async () => {
+    telemetry = Telemetry.create(config.telemetry)
+    continuity = ContinuityEngine.create(config.continuity, undefined, telemetry)
+    engine = PipelineEngine.create(config, { telemetry, continuity })
+    cleanedUp = []
+    downstreamCalls = 0
+
+    let markStarted: () => void = () => {}
+    started = new Promise<void>(resolve => {
+      markStarted = resolve
+    })
+
+    // Transcoding never finishes on its own; only aborting the run stops it
+    await engine.registerModule(createModule('VideoProcessingModule', {
+      process: () => {
+        markStarted()
+        return new Promise(() => {})
+      },
+      cleanupPartial: async input => {
+        cleanedUp.push(input)
+      }
+    }))
+    await engine.registerModule(createModule('ContentAnalysisModule', {
+      dependencies: ['VideoProcessingModule'],
+      process: async () => {
+        downstreamCalls++
+        return {}
+      }
+    }))
+    await engine.initialize()
+  })
+
+  afterEach(async () => {
+    await engine.shutdown()
+    continuity.destroy()
+    telemetry.destroy()
+  })
+
+  it('should reject with a PipelineCancelledError once the signal is aborted', async () => {
+    const controller = new AbortController()
+    const run = engine.process({ videoId: 'video-1' }, 'session-1', undefined, { signal: controller.signal })
+    await started
+
+    controller.abort()
+    const error = await run.catch(reason => reason)
+
+    expect(error).toBeInstanceOf(PipelineCancelledError)
+    expect(error.results.VideoProcessingModule).toMatchObject({ status: 'cancelled', error: 'Cancelled while running' })
+    expect(error.results.ContentAnalysisModule).toMatchObject({ status: 'cancelled', error: 'Cancelled before starting' })
+    expect(downstreamCalls).toBe(0)
+  })
+
+  it('should clean up partial work and record the run as cancelled', async () => {
+    const controller = new AbortController()
+    const run = engine.process({ videoId: 'video-1' }, 'session-1', undefined, { signal: controller.signal })
+    await started
+
+    controller.abort()
+    const error: PipelineCancelledError = await run.catch(reason => reason)
+
+    expect(cleanedUp).toEqual([{ videoId: 'video-1' }])
+    expect(continuity.getState('session-1', 'pipeline:cancelled')).toBe(true)
+    expect(continuity.getState('session-1', 'pipeline:processing')).toBe(false)
+    expect((await engine.getRun(error.runId!))?.status).toBe('cancelled')
+  })
+
+  it('should not start any module when the signal is already aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    const error = await engine.process({ videoId: 'video-1' }, 'session-1', undefined, { signal: controller.signal })
+      .catch(reason => reason)
+
+    expect(error).toBeInstanceOf(PipelineCancelledError)
+    expect(error.results.VideoProcessingModule.status).toBe('cancelled')
+    expect(cleanedUp).toEqual([])
+  })
+})
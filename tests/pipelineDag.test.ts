@@ -0,0 +1,119 @@
+// Pipeline DAG Execution Tests
+// Covers parallel roots, named dependency inputs and skipping modules whose dependencies failed
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { PipelineEngine, createPipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { createModule, createTestConfig } from './helpers/pipeline'
+
+// ==============================================
+// DAG EXECUTION TESTS
+// ==============================================
+
+describe('pipeline DAG execution', () => {
+  let engine: PipelineEngine
+
+  beforeEach(() => {
+    engine = createPipelineEngine(createTestConfig())
+  })
+
+  afterEach(async () => {
+    await engine.shutdown()
+  })
+
+  it('should run independent modules in parallel', async () => {
+    // Each root only finishes once both have started, so running them one after the other times out
+    let bothStarted: () => void = () => {}
+    const barrier = new Promise<void>(resolve => {
+      bothStarted = resolve
+    })
+    let started = 0
+    const root = (name: string) => createModule(name, {
+      process: async input => {
+        if (++started === 2) bothStarted()
+        await barrier
+        return { from: name, videoId: input.videoId }
+      }
+    })
+
+    await engine.registerModule(root('ContentAnalysisModule'))
+    await engine.registerModule(root('VideoProcessingModule'))
+    await engine.initialize()
+
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(result.results.ContentAnalysisModule.status).toBe('completed')
+    expect(result.results.VideoProcessingModule.status).toBe('completed')
+  })
+
+  it('should pass dependent modules the named outputs of their dependencies', async () => {
+    const inputs: any[] = []
+    await engine.registerModule(createModule('VideoUploadModule', {
+      process: async input => ({ url: `s3://${input.videoId}` })
+    }))
+    await engine.registerModule(createModule('UserManagementModule', { process: async () => ({ plan: 'pro' }) }))
+    await engine.registerModule(createModule('AnalyticsModule', {
+      dependencies: ['VideoUploadModule', 'UserManagementModule'],
+      process: async input => {
+        inputs.push(input)
+        return { tracked: true }
+      }
+    }))
+    await engine.initialize()
+
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(inputs).toEqual([{
+      input: { videoId: 'video-1' },
+      dependencies: {
+        VideoUploadModule: { url: 's3://video-1' },
+        UserManagementModule: { plan: 'pro' }
+      }
+    }])
+    expect(Object.keys(result.results).sort()).toEqual(['AnalyticsModule', 'UserManagementModule', 'VideoUploadModule'])
+    expect(result.results.AnalyticsModule.output).toEqual({ tracked: true })
+  })
+
+  it('should skip modules downstream of a failure and keep running the rest', async () => {
+    const ran: string[] = []
+    const track = (name: string) => async (input: any) => {
+      ran.push(name)
+      return input
+    }
+    await engine.registerModule(createModule('VideoUploadModule', {
+      process: async () => {
+        throw new Error('Upload missing')
+      }
+    }))
+    await engine.registerModule(createModule('VideoProcessingModule', {
+      dependencies: ['VideoUploadModule'],
+      process: track('VideoProcessingModule')
+    }))
+    await engine.registerModule(createModule('AnalyticsModule', {
+      dependencies: ['VideoProcessingModule'],
+      process: track('AnalyticsModule')
+    }))
+    await engine.registerModule(createModule('UserManagementModule', { process: track('UserManagementModule') }))
+    await engine.initialize()
+
+    const { results } = await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(ran).toEqual(['UserManagementModule'])
+    expect(results.VideoUploadModule).toMatchObject({ status: 'failed', error: 'Upload missing' })
+    expect(results.VideoProcessingModule).toMatchObject({
+      status: 'skipped',
+      error: 'Skipped because dependencies did not complete: VideoUploadModule'
+    })
+    expect(results.AnalyticsModule).toMatchObject({
+      status: 'skipped',
+      error: 'Skipped because dependencies did not complete: VideoProcessingModule'
+    })
+    expect(results.UserManagementModule.status).toBe('completed')
+  })
+
+  it('should refuse to start with a circular graph', async () => {
+    await engine.registerModule(createModule('VideoUploadModule', { dependencies: ['VideoProcessingModule'] }))
+    await engine.registerModule(createModule('VideoProcessingModule', { dependencies: ['VideoUploadModule'] }))
+
+    await expect(engine.initialize()).rejects.toThrow('Circular dependency detected involving module')
+  })
+})
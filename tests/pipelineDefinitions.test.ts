@@ -0,0 +1,125 @@
+// Pipeline Definition Tests
+// Covers parsing named pipelines, running a subset of modules with overrides and rejecting invalid definitions
+
+import { describe, it, expect, afterEach } from '@jest/globals'
+import { PipelineDefinitionError, checkDefinitionShape, parsePipelineDefinitions } from '../src/lib/directorstudio/core/definitions'
+import { PipelineEngine, createPipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { PipelineDefinition, PipelineModule } from '../src/lib/directorstudio/core/types'
+import { createModule, createTestConfig } from './helpers/pipeline'
+
+// A module that reports the config and dependencies it ran with
+function createReportingModule(name: string, dependencies: string[] = []): PipelineModule {
+  return createModule(name, {
+    dependencies,
+    config: { metadata: { preset: 'default' } },
+    async process(this: PipelineModule, input: any) {
+      return {
+        preset: this.config.metadata.preset,
+        dependencies: input.dependencies ? Object.keys(input.dependencies) : []
+      }
+    }
+  })
+}
+
+// ==============================================
+// PARSING TESTS
+// ==============================================
+
+describe('pipeline definition parsing', () => {
+  it('should parse YAML definitions', () => {
+    const pipelines = parsePipelineDefinitions([
+      'pipelines:',
+      '  preview:',
+      '    modules:',
+      '      - name: VideoUploadModule',
+      '      - name: VideoProcessingModule',
+      '        config:',
+      '          timeout: 5000'
+    ].join('\n'), 'yaml')
+
+    expect(pipelines.preview.modules).toEqual([
+      { name: 'VideoUploadModule' },
+      { name: 'VideoProcessingModule', config: { timeout: 5000 } }
+    ])
+  })
+
+  it('should reject unknown fields', () => {
+    const text = JSON.stringify({ pipelines: { preview: { modules: [{ name: 'VideoUploadModule', steps: 2 }] } } })
+
+    expect(() => parsePipelineDefinitions(text, 'json')).toThrow('Invalid pipeline definition file')
+  })
+
+  it('should list duplicate modules and dangling edges', () => {
+    expect(checkDefinitionShape({
+      modules: [{ name: 'VideoUploadModule' }, { name: 'VideoUploadModule' }],
+      edges: [{ from: 'VideoUploadModule', to: 'ContentAnalysisModule' }]
+    })).toEqual([
+      'module VideoUploadModule is listed more than once',
+      'edge VideoUploadModule -> ContentAnalysisModule references unlisted module ContentAnalysisModule'
+    ])
+  })
+})
+
+// ==============================================
+// ENGINE TESTS
+// ==============================================
+
+describe('named pipelines', () => {
+  let engine: PipelineEngine
+
+  afterEach(async () => {
+    await engine.shutdown()
+  })
+
+  async function start(pipelines: Record<string, PipelineDefinition>): Promise<void> {
+    engine = createPipelineEngine(createTestConfig({ pipelines }))
+    await engine.registerModule(createReportingModule('VideoUploadModule'))
+    await engine.registerModule(createReportingModule('VideoProcessingModule', ['VideoUploadModule']))
+    await engine.registerModule(createReportingModule('ContentAnalysisModule', ['VideoProcessingModule']))
+    await engine.initialize()
+  }
+
+  it('should run only the listed modules with their config overrides', async () => {
+    await start({
+      preview: {
+        modules: [
+          { name: 'VideoUploadModule' },
+          { name: 'VideoProcessingModule', config: { metadata: { preset: 'low' } } }
+        ]
+      }
+    })
+
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1', undefined, { pipeline: 'preview' })
+
+    expect(Object.keys(result.results).sort()).toEqual(['VideoProcessingModule', 'VideoUploadModule'])
+    expect(result.results.VideoProcessingModule.output).toEqual({ preset: 'low', dependencies: ['VideoUploadModule'] })
+    expect(engine.getModule('VideoProcessingModule')!.config.metadata.preset).toBe('default')
+  })
+
+  it('should wire modules by the definition edges', async () => {
+    await start({
+      analysis: {
+        modules: [{ name: 'VideoUploadModule' }, { name: 'ContentAnalysisModule' }],
+        edges: [{ from: 'VideoUploadModule', to: 'ContentAnalysisModule' }]
+      }
+    })
+
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1', undefined, { pipeline: 'analysis' })
+
+    expect(result.results.ContentAnalysisModule.output).toEqual({ preset: 'default', dependencies: ['VideoUploadModule'] })
+  })
+
+  it('should fail startup on a definition that references an unregistered module', async () => {
+    const error = await start({ broken: { modules: [{ name: 'UserModule' }] } }).catch(reason => reason)
+
+    expect(error).toBeInstanceOf(PipelineDefinitionError)
+    expect(error.message).toBe('Invalid pipeline definition broken: module UserModule is not registered')
+  })
+
+  it('should reject runs of an unknown pipeline', async () => {
+    await start({})
+
+    await expect(engine.process({ videoId: 'video-1' }, 'session-1', undefined, { pipeline: 'missing' }))
+      .rejects.toThrow('Unknown pipeline: missing')
+  })
+})
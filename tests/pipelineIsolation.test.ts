@@ -0,0 +1,111 @@
+// Pipeline Isolation Tests
+// Covers engines created side by side with their own registries, configs, telemetry and lifecycles
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { PipelineEngine, createPipelineEngine, getPipeline } from '../src/lib/directorstudio/core/pipeline'
+import { Telemetry } from '../src/lib/directorstudio/core/telemetry'
+import { createModule, createTestConfig } from './helpers/pipeline'
+
+const config = createTestConfig()
+
+// ==============================================
+// ISOLATION TESTS
+// ==============================================
+
+describe('independent pipeline engines', () => {
+  let first: PipelineEngine
+  let second: PipelineEngine
+
+  beforeEach(async () => {
+    first = createPipelineEngine(config)
+    second = createPipelineEngine(config)
+
+    await first.registerModule(createModule('VideoProcessingModule', { process: async () => ({ engine: 'first' }) }))
+    await second.registerModule(createModule('VideoProcessingModule', { process: async () => ({ engine: 'second' }) }))
+    await second.registerModule(createModule('AnalyticsModule'))
+    await first.initialize()
+    await second.initialize()
+  })
+
+  afterEach(async () => {
+    await first.shutdown()
+    await second.shutdown()
+  })
+
+  it('should keep separate module registries', async () => {
+    const result = await first.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(first.getModules().map(module => module.name)).toEqual(['VideoProcessingModule'])
+    expect(second.getModules().map(module => module.name).sort()).toEqual(['AnalyticsModule', 'VideoProcessingModule'])
+    expect(result.results.VideoProcessingModule.output).toEqual({ engine: 'first' })
+  })
+
+  it('should keep separate configs', async () => {
+    await first.updateConfig({
+      modules: {
+        VideoProcessingModule: { enabled: true, priority: 1, timeout: 5000, retries: 2, metadata: {} }
+      }
+    })
+
+    expect(first.getModule('VideoProcessingModule')!.config.timeout).toBe(5000)
+    expect(second.getModule('VideoProcessingModule')!.config.timeout).toBe(1000)
+    expect(second.getConfig().modules).toEqual({})
+  })
+
+  it('should keep running after another engine shuts down', async () => {
+    await first.shutdown()
+
+    const result = await second.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(first.getModules()).toEqual([])
+    expect(result.results.VideoProcessingModule.output).toEqual({ engine: 'second' })
+  })
+})
+
+// ==============================================
+// SHARED COMPONENT TESTS
+// ==============================================
+
+describe('engines sharing components', () => {
+  let telemetry: Telemetry
+
+  beforeEach(() => {
+    telemetry = Telemetry.create(config.telemetry)
+  })
+
+  afterEach(() => {
+    telemetry.destroy()
+  })
+
+  it('should report to the telemetry they are given and leave it running', async () => {
+    const engine = PipelineEngine.create(config, { telemetry })
+    await engine.registerModule(createModule('VideoProcessingModule'))
+    await engine.initialize()
+
+    await engine.process({ videoId: 'video-1' }, 'session-1')
+    expect(telemetry.getEvents({ type: 'pipeline_processing_completed' })).toHaveLength(1)
+
+    // Shutdown flushes shared telemetry but does not stop it
+    await engine.shutdown()
+    telemetry.logEvent('after_shutdown', 'PipelineEngineTest', {})
+    expect(telemetry.getEvents({ type: 'after_shutdown' })).toHaveLength(1)
+  })
+})
+
+// ==============================================
+// DEFAULT ENGINE TESTS
+// ==============================================
+
+describe('default pipeline engine', () => {
+  it('should return the shared instance from getPipeline, apart from created engines', async () => {
+    Telemetry.getInstance(config.telemetry)
+    const shared = PipelineEngine.getInstance(config)
+    const created = createPipelineEngine(config)
+
+    expect(getPipeline()).toBe(shared)
+    expect(created === shared).toBe(false)
+
+    await created.shutdown()
+    await shared.shutdown()
+  })
+})
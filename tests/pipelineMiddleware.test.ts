@@ -0,0 +1,112 @@
+// Pipeline Middleware Tests
+// Covers hook ordering around module invocations, short-circuiting, error hooks and registration
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { PipelineEngine, createPipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { PipelineMiddleware } from '../src/lib/directorstudio/core/types'
+import { createModule, createTestConfig } from './helpers/pipeline'
+
+// Middleware that records each of its hooks as they run
+function createTracingMiddleware(name: string, calls: string[]): PipelineMiddleware {
+  return {
+    name,
+    before: () => {
+      calls.push(`${name}:before`)
+    },
+    after: () => {
+      calls.push(`${name}:after`)
+    },
+    error: () => {
+      calls.push(`${name}:error`)
+    }
+  }
+}
+
+// ==============================================
+// MIDDLEWARE TESTS
+// ==============================================
+
+describe('pipeline middleware', () => {
+  let engine: PipelineEngine
+  let calls: string[]
+  let failing: boolean
+
+  beforeEach(async () => {
+    engine = createPipelineEngine(createTestConfig())
+    calls = []
+    failing = false
+
+    await engine.registerModule(createModule('VideoProcessingModule', {
+      process: async input => {
+        calls.push('process')
+        if (failing) throw new Error('Transcoder unavailable')
+        return { transcoded: input.videoId }
+      }
+    }))
+    await engine.initialize()
+  })
+
+  afterEach(async () => {
+    await engine.shutdown()
+  })
+
+  it('should register the built-in middleware by default', () => {
+    expect(engine.getMiddleware().map(middleware => middleware.name)).toEqual(['logging', 'validation'])
+  })
+
+  it('should run before hooks in order and after hooks in reverse', async () => {
+    engine.use(createTracingMiddleware('auth', calls))
+    engine.use(createTracingMiddleware('cache', calls))
+
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(result.results.VideoProcessingModule.status).toBe('completed')
+    expect(calls).toEqual(['auth:before', 'cache:before', 'process', 'cache:after', 'auth:after'])
+  })
+
+  it('should run error hooks in reverse when the module fails', async () => {
+    engine.use(createTracingMiddleware('auth', calls))
+    engine.use(createTracingMiddleware('cache', calls))
+    failing = true
+
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(result.results.VideoProcessingModule).toMatchObject({ status: 'failed', error: 'Transcoder unavailable' })
+    expect(calls).toEqual(['auth:before', 'cache:before', 'process', 'cache:error', 'auth:error'])
+  })
+
+  it('should skip the module when a before hook returns a result', async () => {
+    engine.use(createTracingMiddleware('auth', calls))
+    engine.use({
+      name: 'cache',
+      before: () => ({ output: { transcoded: 'cached' } })
+    })
+
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(result.results.VideoProcessingModule.output).toEqual({ transcoded: 'cached' })
+    expect(calls).toEqual(['auth:before', 'auth:after'])
+  })
+
+  it('should let an after hook replace the output', async () => {
+    engine.use({
+      name: 'watermark',
+      after: (_, output) => ({ output: { ...output, watermarked: true } })
+    })
+
+    const result = await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    expect(result.results.VideoProcessingModule.output).toEqual({ transcoded: 'video-1', watermarked: true })
+  })
+
+  it('should reject duplicate names and allow removal', async () => {
+    engine.use(createTracingMiddleware('auth', calls))
+
+    expect(() => engine.use(createTracingMiddleware('auth', calls))).toThrow('Middleware auth is already registered')
+    expect(engine.removeMiddleware('auth')).toBe(true)
+    expect(engine.removeMiddleware('auth')).toBe(false)
+
+    await engine.process({ videoId: 'video-1' }, 'session-1')
+    expect(calls).toEqual(['process'])
+  })
+})
@@ -0,0 +1,79 @@
+// Pipeline Resume Tests
+// Covers checkpoints saved in continuity state and resuming a failed run from them
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { PipelineEngine, createPipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { createModule, createTestConfig } from './helpers/pipeline'
+
+// ==============================================
+// RESUME TESTS
+// ==============================================
+
+describe('pipeline resume', () => {
+  let engine: PipelineEngine
+  let calls: Record<string, number>
+  let transcoderUp: boolean
+
+  beforeEach(async () => {
+    engine = createPipelineEngine(createTestConfig())
+    calls = { VideoUploadModule: 0, VideoProcessingModule: 0 }
+    transcoderUp = false
+
+    await engine.registerModule(createModule('VideoUploadModule', {
+      process: async input => {
+        calls.VideoUploadModule++
+        return { url: `s3://${input.videoId}` }
+      }
+    }))
+    await engine.registerModule(createModule('VideoProcessingModule', {
+      dependencies: ['VideoUploadModule'],
+      process: async input => {
+        calls.VideoProcessingModule++
+        if (!transcoderUp) throw new Error('Transcoder unavailable')
+        return { transcoded: input.dependencies.VideoUploadModule.url }
+      }
+    }))
+    await engine.initialize()
+  })
+
+  afterEach(async () => {
+    await engine.shutdown()
+  })
+
+  it('should restart from the module that did not finish', async () => {
+    const failed = await engine.process({ videoId: 'video-1' }, 'session-1')
+    expect(failed.results.VideoProcessingModule.status).toBe('failed')
+
+    transcoderUp = true
+    const resumed = await engine.resume('session-1')
+
+    expect(resumed.results.VideoUploadModule).toMatchObject({
+      status: 'completed',
+      fromCheckpoint: true,
+      output: { url: 's3://video-1' }
+    })
+    expect(resumed.results.VideoProcessingModule).toMatchObject({
+      status: 'completed',
+      output: { transcoded: 's3://video-1' }
+    })
+    expect(calls).toEqual({ VideoUploadModule: 1, VideoProcessingModule: 2 })
+  })
+
+  it('should reuse every checkpoint when the run already completed', async () => {
+    transcoderUp = true
+    await engine.process({ videoId: 'video-1' }, 'session-1')
+
+    const resumed = await engine.resume('session-1')
+
+    expect(resumed.results.VideoUploadModule.fromCheckpoint).toBe(true)
+    expect(resumed.results.VideoProcessingModule).toMatchObject({
+      fromCheckpoint: true,
+      output: { transcoded: 's3://video-1' }
+    })
+    expect(calls).toEqual({ VideoUploadModule: 1, VideoProcessingModule: 1 })
+  })
+
+  it('should refuse to resume a session without a run', async () => {
+    await expect(engine.resume('session-unknown')).rejects.toThrow('No pipeline run to resume for session session-unknown')
+  })
+})
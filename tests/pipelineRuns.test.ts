@@ -0,0 +1,181 @@
+// Pipeline Run History Tests
+// Covers storing runs in the database store and replaying them from another engine
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { PipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { DatabaseRunStore } from '../src/lib/directorstudio/core/runs'
+import { PipelineModule } from '../src/lib/directorstudio/core/types'
+import { createModule, createTestConfig } from './helpers/pipeline'
+
+// ==============================================
+// IN-MEMORY FAKES
+// ==============================================
+
+type Row = Record<string, any>
+
+class FakeQuery {
+  private filters: Array<(row: Row) => boolean> = []
+  private upserted?: Row
+  private sort?: { column: string; ascending: boolean }
+  private max?: number
+  private single = false
+
+  constructor(private rows: Row[]) {}
+
+  select(_columns?: string) {
+    return this
+  }
+
+  upsert(row: Row, _options?: { onConflict: string }) {
+    this.upserted = row
+    return this
+  }
+
+  eq(column: string, value: any) {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  gte(column: string, value: string) {
+    this.filters.push(row => row[column] >= value)
+    return this
+  }
+
+  lte(column: string, value: string) {
+    this.filters.push(row => row[column] <= value)
+    return this
+  }
+
+  order(column: string, options: { ascending: boolean }) {
+    this.sort = { column, ascending: options.ascending }
+    return this
+  }
+
+  limit(count: number) {
+    this.max = count
+    return this
+  }
+
+  maybeSingle() {
+    this.single = true
+    return this
+  }
+
+  then(resolve: (result: { data: any; error: { message: string } | null }) => void) {
+    resolve({ data: this.execute(), error: null })
+  }
+
+  private execute() {
+    if (this.upserted) {
+      // Round-trip through JSON like a JSONB column
+      const row = JSON.parse(JSON.stringify(this.upserted))
+      const index = this.rows.findIndex(existing => existing.run_id === row.run_id)
+      if (index === -1) this.rows.push(row)
+      else this.rows[index] = row
+      return null
+    }
+
+    let result = this.rows.filter(row => this.filters.every(filter => filter(row)))
+    if (this.sort) {
+      const { column, ascending } = this.sort
+      result.sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1))
+    }
+    if (this.max !== undefined) result = result.slice(0, this.max)
+    return this.single ? result[0] ?? null : result
+  }
+}
+
+class FakeSupabase {
+  public rows: Row[] = []
+
+  from(_table: string) {
+    return new FakeQuery(this.rows)
+  }
+}
+
+// A ContentAnalysisModule version that tags its input
+function createAnalysisModule(version: string, tags: string[] = []): PipelineModule {
+  return createModule('ContentAnalysisModule', {
+    version,
+    process: async input => ({ tags: [input.title, ...tags] })
+  })
+}
+
+async function createEngine(db: FakeSupabase, module: PipelineModule): Promise<PipelineEngine> {
+  const engine = PipelineEngine.create(createTestConfig(), {
+    runStore: new DatabaseRunStore(db as unknown as SupabaseClient)
+  })
+  await engine.registerModule(module)
+  await engine.initialize()
+  return engine
+}
+
+// ==============================================
+// RUN HISTORY TESTS
+// ==============================================
+
+describe('pipeline run history', () => {
+  let db: FakeSupabase
+  let engines: PipelineEngine[]
+
+  beforeEach(() => {
+    db = new FakeSupabase()
+    engines = []
+  })
+
+  afterEach(async () => {
+    await Promise.all(engines.map(engine => engine.shutdown()))
+  })
+
+  it('should store completed runs and list them by session', async () => {
+    const engine = await createEngine(db, createAnalysisModule('1.0.0'))
+    engines.push(engine)
+
+    const result = await engine.process({ title: 'Intro' }, 'session-1', 'user-1')
+    await engine.process({ title: 'Outro' }, 'session-2', 'user-1')
+
+    expect(db.rows).toHaveLength(2)
+    const [run] = await engine.listRuns({ sessionId: 'session-1' })
+    expect(run).toMatchObject({
+      runId: result.runId,
+      userId: 'user-1',
+      status: 'completed',
+      input: { title: 'Intro' },
+      moduleVersions: { ContentAnalysisModule: '1.0.0' },
+      resumed: false
+    })
+    expect(run.startedAt).toBeInstanceOf(Date)
+    expect(run.results.ContentAnalysisModule.output).toEqual({ tags: ['Intro'] })
+  })
+
+  it('should replay a stored run against the versions registered in another engine', async () => {
+    const original = await createEngine(db, createAnalysisModule('1.0.0'))
+    engines.push(original)
+    const { runId } = await original.process({ title: 'Intro' }, 'session-1')
+
+    const upgraded = await createEngine(db, createAnalysisModule('2.0.0', ['video']))
+    engines.push(upgraded)
+    const replay = await upgraded.replay(runId)
+
+    expect(replay.replayOf).toBe(runId)
+    expect(replay.result.sessionId).not.toBe('session-1')
+    expect(replay.differences).toEqual([{
+      module: 'ContentAnalysisModule',
+      previousVersion: '1.0.0',
+      currentVersion: '2.0.0',
+      previousStatus: 'completed',
+      currentStatus: 'completed',
+      outputChanged: true
+    }])
+    expect((await upgraded.getRun(replay.result.runId))?.replayOf).toBe(runId)
+  })
+
+  it('should report no differences when a replay reproduces the run', async () => {
+    const engine = await createEngine(db, createAnalysisModule('1.0.0'))
+    engines.push(engine)
+    const { runId } = await engine.process({ title: 'Intro' }, 'session-1')
+
+    expect((await engine.replay(runId)).differences).toEqual([])
+  })
+})
@@ -0,0 +1,127 @@
+// Pipeline Status Tests
+// Covers the engine's status snapshot and runtime module config updates
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { PipelineEngine, createPipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { PipelineModule } from '../src/lib/directorstudio/core/types'
+import { createModule, createTestConfig } from './helpers/pipeline'
+
+const config = createTestConfig()
+
+// ==============================================
+// STATUS TESTS
+// ==============================================
+
+describe('PipelineEngine status', () => {
+  let engine: PipelineEngine
+
+  beforeEach(() => {
+    engine = createPipelineEngine(config)
+  })
+
+  afterEach(async () => {
+    await engine.shutdown()
+  })
+
+  it('should report modules, their last validation and error rates', async () => {
+    let calls = 0
+    await engine.registerModule(createModule('VideoUploadModule'))
+    await engine.registerModule(createModule('AnalyticsModule', {
+      process: async input => {
+        if (++calls === 1) throw new Error('Analytics backend unavailable')
+        return input
+      }
+    }))
+    await engine.initialize()
+
+    await engine.process({ id: 'video-1' }, 'session-1')
+    await engine.process({ id: 'video-2' }, 'session-2')
+    const status = await engine.getStatus()
+    const analytics = status.modules.find(module => module.name === 'AnalyticsModule')!
+
+    expect(status.initialized).toBe(true)
+    expect(status.activeContexts).toBe(2)
+    expect(analytics).toMatchObject({ version: '1.0.0', versions: ['1.0.0'], enabled: true, initialized: true })
+    expect(analytics).toMatchObject({ attempts: 2, failures: 1, errorRate: 0.5 })
+    expect(analytics.lastValidation?.isValid).toBe(true)
+  })
+
+  it('should apply module config at runtime through updateConfig', async () => {
+    const module = createModule('AnalyticsModule', { config: { enabled: false } })
+    await engine.registerModule(module)
+    await engine.initialize()
+
+    const disabled = await engine.getStatus()
+    await engine.updateConfig({ modules: { AnalyticsModule: { ...module.config, enabled: true, priority: 5 } } })
+    await new Promise(resolve => setTimeout(resolve, 0))
+    const enabled = await engine.getStatus()
+
+    expect(disabled.modules[0]).toMatchObject({ enabled: false, initialized: false })
+    expect(enabled.modules[0]).toMatchObject({ enabled: true, priority: 5, initialized: true })
+    expect(engine.getConfig().modules.AnalyticsModule.priority).toBe(5)
+  })
+
+  it('should count attempts even when telemetry drops them', async () => {
+    await engine.shutdown()
+    engine = createPipelineEngine(createTestConfig({
+      telemetry: { sampling: { eventTypes: { module_attempt: 0 } } }
+    }))
+    await engine.registerModule(createModule('AnalyticsModule', {
+      process: async () => {
+        throw new Error('Analytics backend unavailable')
+      }
+    }))
+    await engine.initialize()
+
+    await engine.process({ id: 'video-1' }, 'session-1')
+    const status = await engine.getStatus(60 * 1000)
+
+    expect(status.modules[0]).toMatchObject({ attempts: 1, failures: 1, errorRate: 1 })
+  })
+
+  it('should reject a config that breaks a dependent module', async () => {
+    await engine.registerModule(createModule('VideoUploadModule'))
+    await engine.registerModule(createModule('VideoProcessingModule', { dependencies: ['VideoUploadModule'] }))
+    await engine.initialize()
+
+    const upload = engine.getModule('VideoUploadModule')!
+    await expect(
+      engine.updateConfig({ modules: { VideoUploadModule: { ...upload.config, enabled: false } } })
+    ).rejects.toThrow('DISABLED_DEPENDENCY')
+
+    expect(engine.getModule('VideoUploadModule')!.config.enabled).toBe(true)
+    expect(engine.getConfig().modules.VideoUploadModule).toBe(undefined)
+  })
+
+  it('should keep the previous config for runs already in progress', async () => {
+    let release: () => void = () => {}
+    let unblock: () => void = () => {}
+    const started = new Promise<void>(resolve => {
+      release = resolve
+    })
+    const gate = new Promise<void>(resolve => {
+      unblock = resolve
+    })
+
+    const module = createModule('ContentAnalysisModule', {
+      config: { metadata: { model: 'v1' } },
+      async process(this: PipelineModule) {
+        release()
+        await gate
+        return { model: this.config.metadata.model }
+      }
+    })
+    await engine.registerModule(module)
+    await engine.initialize()
+
+    const running = engine.process({ id: 'video-1' }, 'session-1')
+    await started
+    await engine.updateConfig({ modules: { ContentAnalysisModule: { ...module.config, metadata: { model: 'v2' } } } })
+    unblock()
+
+    expect((await running).results.ContentAnalysisModule.output).toEqual({ model: 'v1' })
+    expect(module.config.metadata.model).toBe('v1')
+    const next = await engine.process({ id: 'video-2' }, 'session-2')
+    expect(next.results.ContentAnalysisModule.output).toEqual({ model: 'v2' })
+  })
+})
@@ -0,0 +1,79 @@
+// Resource Metrics Tests
+// Covers per-invocation byte, CPU and throughput accounting and its flow into results and telemetry
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { measureBytes, startResourceMeasurement } from '../src/lib/directorstudio/core/metrics'
+import { PipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { Telemetry } from '../src/lib/directorstudio/core/telemetry'
+import { createModule, createTestConfig } from './helpers/pipeline'
+
+// Keep the CPU busy for at least the given number of milliseconds
+function spin(ms: number): number {
+  const end = Date.now() + ms
+  let count = 0
+  while (Date.now() < end) count++
+  return count
+}
+
+// ==============================================
+// MEASUREMENT TESTS
+// ==============================================
+
+describe('resource measurement', () => {
+  it('should measure serialized sizes in bytes', () => {
+    const circular: Record<string, any> = {}
+    circular.self = circular
+
+    expect(measureBytes({ title: 'Intro' })).toBe(17)
+    expect(measureBytes('é')).toBe(4)
+    expect(measureBytes(undefined)).toBe(0)
+    expect(measureBytes(circular)).toBe(0)
+  })
+
+  it('should report bytes, CPU time and throughput for an invocation', () => {
+    const measurement = startResourceMeasurement()
+    spin(20)
+    const metrics = measurement.stop({ title: 'Intro' }, { ok: true })
+
+    expect(metrics.bytesIn).toBe(17)
+    expect(metrics.bytesOut).toBe(11)
+    expect(metrics.executionTime >= 20).toBe(true)
+    expect(metrics.cpuUsage > 0).toBe(true)
+    expect(metrics.throughput).toBe(Math.round(28 * 1000 / metrics.executionTime))
+  })
+})
+
+// ==============================================
+// PIPELINE METRICS TESTS
+// ==============================================
+
+describe('pipeline module metrics', () => {
+  let telemetry: Telemetry
+  let engine: PipelineEngine
+
+  beforeEach(async () => {
+    const config = createTestConfig()
+    telemetry = Telemetry.create(config.telemetry)
+    engine = PipelineEngine.create(config, { telemetry })
+
+    await engine.registerModule(createModule('VideoProcessingModule', {
+      process: async () => ({ frames: spin(20) > 0 })
+    }))
+    await engine.initialize()
+  })
+
+  afterEach(async () => {
+    await engine.shutdown()
+    telemetry.destroy()
+  })
+
+  it('should attach measured metrics to the module result and telemetry', async () => {
+    const result = await engine.process({ title: 'Intro' }, 'session-1')
+    const metrics = result.results.VideoProcessingModule.metrics!
+
+    expect(metrics).toMatchObject({ bytesIn: 17, bytesOut: 15 })
+    expect(metrics.cpuUsage > 0).toBe(true)
+    expect(metrics.throughput > 0).toBe(true)
+    expect(telemetry.getEvents({ type: 'module_metrics', module: 'VideoProcessingModule' })[0].data).toEqual(metrics)
+  })
+})
@@ -0,0 +1,79 @@
+// Telemetry Event Store Tests
+// Covers persisting flushed events, queries, aggregation and retention
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { Telemetry } from '../src/lib/directorstudio/core/telemetry'
+import { MemoryTelemetryEventStore } from '../src/lib/directorstudio/core/eventstore'
+import { TelemetryEvent } from '../src/lib/directorstudio/core/types'
+
+const DAY = 24 * 60 * 60 * 1000
+
+function createEvent(index: number, module: string, executionTime: number, age: number = 0): TelemetryEvent {
+  return {
+    id: `evt_test_${index}`,
+    type: 'module_metrics',
+    module,
+    data: { executionTime },
+    timestamp: new Date(Date.now() - age),
+    sessionId: `session-${index % 2}`
+  }
+}
+
+// ==============================================
+// EVENT STORE TESTS
+// ==============================================
+
+describe('telemetry event store', () => {
+  let telemetry: Telemetry
+  let store: MemoryTelemetryEventStore
+
+  beforeEach(() => {
+    telemetry = Telemetry.create({
+      enabled: true,
+      endpoint: '',
+      batchSize: 1000,
+      flushInterval: 0,
+      retentionDays: 7
+    })
+    store = new MemoryTelemetryEventStore()
+    telemetry.setEventStore(store)
+  })
+
+  it('should query flushed and pending events together', async () => {
+    telemetry.logEvent('video_upload_started', 'VideoUploadModule', {}, 'user-1', 'session-1')
+    await telemetry.flush()
+    telemetry.logEvent('video_upload_completed', 'VideoUploadModule', {}, 'user-1', 'session-1')
+    telemetry.logEvent('video_upload_started', 'VideoUploadModule', {}, 'user-2', 'session-2')
+
+    const events = await telemetry.queryEvents({ userId: 'user-1' })
+
+    expect(events.map(event => event.type)).toEqual(['video_upload_completed', 'video_upload_started'])
+    expect(await store.query()).toHaveLength(1)
+  })
+
+  it('should count events with p50/p95 durations per group', async () => {
+    const durations = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]
+    await store.append(durations.map((duration, index) => createEvent(index, 'VideoProcessingModule', duration)))
+    await store.append([createEvent(10, 'ContinuityEngine', 5)])
+
+    const stats = await telemetry.aggregateEvents({}, 'module')
+
+    expect(stats[0]).toMatchObject({ key: 'VideoProcessingModule', count: 10, p50: 55 })
+    expect(stats[0].p95).toBeCloseTo(95.5)
+    expect(stats[1]).toEqual({ key: 'ContinuityEngine', count: 1, p50: 5, p95: 5 })
+    expect(await telemetry.aggregateEvents({ sessionId: 'session-0' })).toEqual([
+      { key: 'all', count: 6, p50: 40, p95: 85 }
+    ])
+  })
+
+  it('should purge stored events older than retentionDays', async () => {
+    await store.append([
+      createEvent(1, 'VideoProcessingModule', 10, 8 * DAY),
+      createEvent(2, 'VideoProcessingModule', 10, 6 * DAY)
+    ])
+
+    expect(await telemetry.enforceRetention()).toBe(1)
+    expect((await store.query()).map(event => event.id)).toEqual(['evt_test_2'])
+    expect(telemetry.getEvents({ type: 'telemetry_retention_enforced' })[0].data.purged).toBe(1)
+  })
+})
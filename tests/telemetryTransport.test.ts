@@ -0,0 +1,222 @@
+// Telemetry Transport Tests
+// Exercises buffering, retries and the OTLP/NDJSON exporters against a local stub collector
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  TelemetryTransport,
+  TelemetryExporter,
+  OtlpHttpExporter,
+  NdjsonFileExporter,
+  FileTelemetryBuffer,
+  MemoryTelemetryBuffer
+} from '../src/lib/directorstudio/core/transport'
+import { Telemetry } from '../src/lib/directorstudio/core/telemetry'
+import { TelemetryEvent } from '../src/lib/directorstudio/core/types'
+
+// ==============================================
+// STUB COLLECTOR
+// ==============================================
+
+class StubCollector {
+  requests: any[] = []
+  // Status codes to answer with, in order; 200 once exhausted
+  statuses: number[] = []
+  private server: Server
+
+  constructor() {
+    this.server = createServer((request, response) => {
+      let body = ''
+      request.on('data', chunk => { body += chunk })
+      request.on('end', () => {
+        this.requests.push(JSON.parse(body))
+        response.statusCode = this.statuses.shift() ?? 200
+        response.end('{}')
+      })
+    })
+  }
+
+  start(): Promise<string> {
+    return new Promise(resolve => {
+      this.server.listen(0, '127.0.0.1', () => {
+        const { port } = this.server.address() as AddressInfo
+        resolve(`http://127.0.0.1:${port}/v1/logs`)
+      })
+    })
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()))
+  }
+
+  logRecords(): any[] {
+    return this.requests.reduce<any[]>(
+      (records, request) => records.concat(request.resourceLogs[0].scopeLogs[0].logRecords),
+      []
+    )
+  }
+}
+
+function createEvent(index: number, type: string = 'module_metrics'): TelemetryEvent {
+  return {
+    id: `evt_test_${index}`,
+    type,
+    module: 'VideoUploadModule',
+    data: { executionTime: 12, cached: false },
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, index)),
+    sessionId: 'session-1'
+  }
+}
+
+function waitFor(condition: () => boolean, timeout: number = 2000): Promise<void> {
+  const started = Date.now()
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) return resolve()
+      if (Date.now() - started > timeout) return reject(new Error('Timed out waiting for condition'))
+      setTimeout(check, 5)
+    }
+    check()
+  })
+}
+
+// ==============================================
+// TRANSPORT TESTS
+// ==============================================
+
+describe('TelemetryTransport', () => {
+  let collector: StubCollector
+  let endpoint: string
+  let directory: string
+
+  beforeEach(async () => {
+    collector = new StubCollector()
+    endpoint = await collector.start()
+    directory = mkdtempSync(join(tmpdir(), 'telemetry-'))
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should export events as OTLP JSON log records', async () => {
+    const transport = new TelemetryTransport(new OtlpHttpExporter(endpoint))
+
+    await transport.enqueue([createEvent(1), createEvent(2, 'error')])
+    await transport.drain()
+
+    const records = collector.logRecords()
+    expect(records).toHaveLength(2)
+    expect(records[0].timeUnixNano).toBe('1704067201000000000')
+    expect(records[0].body).toEqual({ stringValue: 'module_metrics' })
+    expect(records[0].attributes).toContainEqual({ key: 'session.id', value: { stringValue: 'session-1' } })
+    expect(records[0].attributes).toContainEqual({ key: 'data.executionTime', value: { intValue: '12' } })
+    expect(records[1].severityText).toBe('ERROR')
+    expect(await transport.pending()).toBe(0)
+  })
+
+  it('should retry with backoff until the collector accepts the batch', async () => {
+    collector.statuses = [503, 503]
+    const transport = new TelemetryTransport(new OtlpHttpExporter(endpoint), new MemoryTelemetryBuffer(), {
+      retryBackoff: { initialDelay: 10, multiplier: 2, maxDelay: 50 }
+    })
+
+    await transport.enqueue([createEvent(1)])
+    await transport.drain()
+    expect(await transport.pending()).toBe(1)
+
+    await waitFor(() => collector.requests.length === 3)
+    await transport.shutdown()
+
+    expect(await transport.pending()).toBe(0)
+  })
+
+  it('should retry only the signal whose request failed', async () => {
+    // The logs request succeeds and the traces request is unavailable once
+    collector.statuses = [200, 503]
+    const transport = new TelemetryTransport(new OtlpHttpExporter(endpoint), new MemoryTelemetryBuffer(), {
+      retryBackoff: { initialDelay: 10, multiplier: 2, maxDelay: 50 }
+    })
+    const span: TelemetryEvent = {
+      ...createEvent(2, 'span'),
+      traceId: '0af7651916cd43dd8448eb211c80319c',
+      spanId: 'b7ad6b7169203331',
+      data: { name: 'pipeline default', kind: 'internal', startTime: new Date(), endTime: new Date() }
+    }
+
+    await transport.enqueue([createEvent(1), span])
+    await transport.drain()
+    expect(await transport.pending()).toBe(1)
+
+    await waitFor(() => collector.requests.length === 3)
+    await transport.shutdown()
+
+    expect(collector.requests.map(request => (request.resourceLogs ? 'logs' : 'traces'))).toEqual(['logs', 'traces', 'traces'])
+    expect(await transport.pending()).toBe(0)
+  })
+
+  it('should drop batches the collector rejects as invalid', async () => {
+    collector.statuses = [400]
+    const transport = new TelemetryTransport(new OtlpHttpExporter(endpoint))
+
+    await transport.enqueue([createEvent(1)])
+    await transport.drain()
+
+    expect(collector.requests).toHaveLength(1)
+    expect(await transport.pending()).toBe(0)
+  })
+
+  it('should keep undelivered events on disk for the next process', async () => {
+    const bufferPath = join(directory, 'buffer.ndjson')
+    const failing: TelemetryExporter = {
+      name: 'failing',
+      export: async () => { throw new Error('collector unreachable') }
+    }
+
+    const first = new TelemetryTransport(failing, new FileTelemetryBuffer(bufferPath))
+    await first.enqueue([createEvent(1), createEvent(2)])
+    await first.shutdown()
+
+    const second = new TelemetryTransport(new OtlpHttpExporter(endpoint), new FileTelemetryBuffer(bufferPath))
+    await second.drain()
+
+    expect(collector.logRecords()).toHaveLength(2)
+    expect(await second.pending()).toBe(0)
+  })
+
+  it('should append events to an NDJSON file', async () => {
+    const filePath = join(directory, 'events.ndjson')
+    const transport = new TelemetryTransport(new NdjsonFileExporter(filePath))
+
+    await transport.enqueue([createEvent(1), createEvent(2)])
+    await transport.drain()
+
+    const lines = readFileSync(filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line))
+    expect(lines.map(line => line.id)).toEqual(['evt_test_1', 'evt_test_2'])
+  })
+})
+
+describe('Telemetry shutdown', () => {
+  it('should flush pending events to the collector', async () => {
+    const collector = new StubCollector()
+    const endpoint = await collector.start()
+    const telemetry = Telemetry.create({
+      enabled: true,
+      endpoint,
+      batchSize: 100,
+      flushInterval: 60000,
+      retentionDays: 1
+    })
+
+    telemetry.logEvent('pipeline_shutdown_started', 'PipelineEngine', {})
+    await telemetry.shutdown()
+    await collector.stop()
+
+    expect(collector.logRecords().map(record => record.body.stringValue)).toEqual(['pipeline_shutdown_started'])
+  })
+})
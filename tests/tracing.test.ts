@@ -0,0 +1,102 @@
+// Tracing Tests
+// Covers traceparent handling, span nesting and trace IDs on telemetry events
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import {
+  parseTraceparent,
+  formatTraceparent,
+  traceRoute,
+  withSpan,
+  getActiveSpan
+} from '../src/lib/directorstudio/core/tracing'
+import { Telemetry } from '../src/lib/directorstudio/core/telemetry'
+
+// ==============================================
+// TRACEPARENT TESTS
+// ==============================================
+
+describe('traceparent', () => {
+  const header = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+
+  it('should round-trip a valid header', () => {
+    const context = parseTraceparent(header)
+
+    expect(context).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      sampled: true
+    })
+    expect(formatTraceparent(context!)).toBe(header)
+  })
+
+  it('should ignore malformed and all-zero headers', () => {
+    expect(parseTraceparent('not-a-traceparent')).toBeUndefined()
+    expect(parseTraceparent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toBeUndefined()
+    expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeUndefined()
+    expect(parseTraceparent(null)).toBeUndefined()
+  })
+})
+
+// ==============================================
+// SPAN TESTS
+// ==============================================
+
+describe('spans', () => {
+  let telemetry: Telemetry
+
+  beforeEach(() => {
+    telemetry = Telemetry.create({
+      enabled: true,
+      endpoint: '',
+      batchSize: 100,
+      flushInterval: 0,
+      retentionDays: 1
+    })
+  })
+
+  it('should nest spans and stamp events with the active span', async () => {
+    await withSpan('pipeline', async parent => {
+      telemetry.logEvent('pipeline_processing_started', 'PipelineEngine', {})
+
+      await Promise.all(['A', 'B'].map(name => withSpan(`module ${name}`, async child => {
+        expect(getActiveSpan()).toBe(child)
+        expect(child.traceId).toBe(parent.traceId)
+        expect(child.parentSpanId).toBe(parent.spanId)
+      })))
+    }, { telemetry })
+
+    const spans = telemetry.getEvents({ type: 'span' })
+    const started = telemetry.getEvents({ type: 'pipeline_processing_started' })[0]
+    const root = spans.find(span => span.data.name === 'pipeline')!
+
+    expect(spans).toHaveLength(3)
+    expect(started.spanId).toBe(root.spanId)
+    expect(spans.filter(span => span.parentSpanId === root.spanId)).toHaveLength(2)
+    expect(getActiveSpan()).toBeUndefined()
+  })
+
+  it('should record a thrown error on the span', async () => {
+    await expect(withSpan('failing', async () => {
+      throw new Error('boom')
+    }, { telemetry })).rejects.toThrow('boom')
+
+    const span = telemetry.getEvents({ type: 'span' })[0]
+    expect(span.data.status).toBe('error')
+    expect(span.data.error).toBe('boom')
+  })
+
+  it('should continue an incoming trace and return its traceparent', async () => {
+    const incoming = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+    const handler = traceRoute('GET /test', async () => {
+      return withSpan('inner', async () => new Response('ok'), { telemetry })
+    })
+
+    const response = await handler(new Request('http://localhost/test', { headers: { traceparent: incoming } }))
+    const outgoing = parseTraceparent(response.headers.get('traceparent'))!
+    const inner = telemetry.getEvents({ type: 'span' })[0]
+
+    expect(outgoing.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736')
+    expect(outgoing.spanId).not.toBe('00f067aa0ba902b7')
+    expect(inner.parentSpanId).toBe(outgoing.spanId)
+  })
+})
@@ -0,0 +1,193 @@
+// Validation Cache Tests
+// Covers caching module validation per version and config, invalidation and hit ratio reporting
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { PipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { Telemetry } from '../src/lib/directorstudio/core/telemetry'
+import { PipelineModule } from '../src/lib/directorstudio/core/types'
+import { DirectorStudioValidator } from '../src/lib/directorstudio/core/validator'
+import { createModule as createTestModule, createTestConfig, createValidationResult } from './helpers/pipeline'
+
+const config = createTestConfig()
+
+// Module that counts how often it is validated
+function createModule(version: string = '1.0.0', isValid: boolean = true): PipelineModule & { validations: number } {
+  const module = Object.assign(createTestModule('VideoProcessingModule', {
+    version,
+    validate: async () => {
+      module.validations++
+      return createValidationResult({
+        isValid,
+        errors: isValid ? [] : [{
+          code: 'MISSING_CODEC',
+          message: 'No codec configured',
+          severity: 'error',
+          module: 'VideoProcessingModule',
+          timestamp: new Date()
+        }]
+      })
+    }
+  }), { validations: 0 })
+  return module
+}
+
+// ==============================================
+// CACHE TESTS
+// ==============================================
+
+describe('validation cache', () => {
+  let telemetry: Telemetry
+  let validator: DirectorStudioValidator
+
+  beforeEach(() => {
+    telemetry = Telemetry.create(config.telemetry)
+    validator = DirectorStudioValidator.create(config.validation, telemetry)
+  })
+
+  afterEach(() => {
+    telemetry.destroy()
+  })
+
+  it('should reuse a passing result for the same version and config', async () => {
+    const module = createModule()
+
+    const first = await validator.validateModule(module)
+    const second = await validator.validateModule(module)
+
+    expect(second).toBe(first)
+    expect(module.validations).toBe(1)
+    expect(validator.getCacheStats()).toEqual({ hits: 1, misses: 1, size: 1, hitRatio: 0.5 })
+    expect(validator.getCachedResult('VideoProcessingModule', '1.0.0')).toBe(first)
+  })
+
+  it('should report cache hits and the hit ratio in telemetry', async () => {
+    const module = createModule()
+
+    await validator.validateModule(module)
+    await validator.validateModule(module)
+    await validator.validateModule(module)
+
+    const results = telemetry.getEvents({ type: 'validation_result', module: 'VideoProcessingModule' })
+      .map(event => [event.data.cached, event.data.cacheHitRatio])
+    expect(results).toEqual([[false, 0], [true, 1 / 2], [true, 2 / 3]])
+  })
+
+  it('should validate again when the module config changes', async () => {
+    const module = createModule()
+    await validator.validateModule(module)
+
+    module.config.timeout = 5000
+    await validator.validateModule(module)
+
+    expect(module.validations).toBe(2)
+    expect(validator.getCacheStats()).toMatchObject({ hits: 0, misses: 2, size: 1 })
+  })
+
+  it('should not cache failing results', async () => {
+    const module = createModule('1.0.0', false)
+
+    await validator.validateModule(module)
+    await validator.validateModule(module)
+
+    expect(module.validations).toBe(2)
+    expect(validator.getCachedResult('VideoProcessingModule')).toBe(undefined)
+  })
+
+  it('should keep the last result, passing or not, apart from the cache', async () => {
+    const passing = await validator.validateModule(createModule('1.0.0'))
+    const failing = await validator.validateModule(createModule('2.0.0', false))
+
+    validator.invalidateModule('VideoProcessingModule')
+
+    expect(validator.getLastResult('VideoProcessingModule', '1.0.0')).toBe(passing)
+    expect(validator.getLastResult('VideoProcessingModule', '2.0.0')).toBe(failing)
+    expect(failing.isValid).toBe(false)
+  })
+
+  it('should drop cached results for one version or every version', async () => {
+    await validator.validateModule(createModule('1.0.0'))
+    const newest = await validator.validateModule(createModule('2.0.0'))
+
+    expect(validator.getCachedResult('VideoProcessingModule')).toBe(newest)
+
+    validator.invalidateModule('VideoProcessingModule', '2.0.0')
+    expect(validator.getCachedResult('VideoProcessingModule', '2.0.0')).toBe(undefined)
+    expect(validator.getCachedResult('VideoProcessingModule', '1.0.0') !== undefined).toBe(true)
+
+    validator.invalidateModule('VideoProcessingModule')
+    expect(validator.getCacheStats().size).toBe(0)
+  })
+
+  it('should clear the cache when the validator config changes', async () => {
+    await validator.validateModule(createModule())
+
+    validator.updateConfig({ timeout: 1000 })
+    expect(validator.getCacheStats().size).toBe(1)
+
+    validator.updateConfig({ strictMode: true })
+    expect(validator.getCacheStats().size).toBe(0)
+  })
+})
+
+// ==============================================
+// ENGINE INVALIDATION TESTS
+// ==============================================
+
+describe('validation cache in the pipeline engine', () => {
+  let telemetry: Telemetry
+  let validator: DirectorStudioValidator
+  let engine: PipelineEngine
+
+  beforeEach(() => {
+    telemetry = Telemetry.create(config.telemetry)
+    validator = DirectorStudioValidator.create(config.validation, telemetry)
+    engine = PipelineEngine.create(config, { telemetry, validator })
+  })
+
+  afterEach(async () => {
+    await engine.shutdown()
+    telemetry.destroy()
+  })
+
+  it('should validate a re-registered module again', async () => {
+    const module = createModule()
+
+    await engine.registerModule(module)
+    await engine.registerModule(module)
+
+    expect(module.validations).toBe(2)
+  })
+
+  it('should drop cached results when the module config is updated', async () => {
+    await engine.registerModule(createModule())
+    await engine.initialize()
+    expect(validator.getCachedResult('VideoProcessingModule') !== undefined).toBe(true)
+
+    await engine.updateConfig({
+      modules: {
+        VideoProcessingModule: { enabled: true, priority: 1, timeout: 5000, retries: 0, metadata: {} }
+      }
+    })
+
+    expect(validator.getCachedResult('VideoProcessingModule')).toBe(undefined)
+  })
+
+  it('should report a failed revalidation in the module status', async () => {
+    const module = createModule()
+    await engine.registerModule(module)
+    const [registered] = (await engine.getStatus()).modules
+
+    // Once the passing result is dropped from the cache, the next validation fails
+    module.validate = createModule('1.0.0', false).validate
+    validator.invalidateModule('VideoProcessingModule')
+    await engine.validateAllModules()
+    const [revalidated] = (await engine.getStatus()).modules
+
+    expect(registered.lastValidation?.isValid).toBe(true)
+    expect(revalidated.lastValidation).toMatchObject({
+      isValid: false,
+      errors: [expect.objectContaining({ code: 'MISSING_CODEC' })]
+    })
+    expect(validator.getCachedResult('VideoProcessingModule')).toBe(undefined)
+  })
+})
@@ -0,0 +1,91 @@
+// Validation Rule Tests
+// Covers the validator's rule registry, per-environment toggles and strict-mode escalation
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { Telemetry } from '../src/lib/directorstudio/core/telemetry'
+import { DirectorStudioValidator } from '../src/lib/directorstudio/core/validator'
+import { PipelineModule, ValidationConfig, ValidationRule } from '../src/lib/directorstudio/core/types'
+import { createModule, createTestConfig } from './helpers/pipeline'
+
+const maxDurationRule: ValidationRule = {
+  name: 'MAX_DURATION',
+  scope: 'data',
+  severity: 'warning',
+  check: ({ data }) => data && data.duration > 600 ? [{ message: `Duration ${data.duration}s exceeds 600s` }] : []
+}
+
+// ==============================================
+// RULE REGISTRY TESTS
+// ==============================================
+
+describe('validation rule registry', () => {
+  let telemetry: Telemetry
+
+  const createValidator = (validation: Partial<ValidationConfig> = {}) => DirectorStudioValidator.create(
+    createTestConfig({ validation }).validation,
+    telemetry
+  )
+
+  beforeEach(() => {
+    telemetry = Telemetry.create(createTestConfig().telemetry)
+  })
+
+  it('should report which rules ran', async () => {
+    const validator = createValidator()
+    validator.addRule(maxDurationRule)
+
+    const result = await validator.validateData(createModule('VideoProcessingModule'), { duration: 900 })
+
+    expect(result.rules).toEqual(['NULL_DATA', 'SCHEMA_MISMATCH', 'MAX_DURATION'])
+    expect(result.warnings[0]).toMatchObject({ code: 'MAX_DURATION', module: 'VideoProcessingModule' })
+    expect(() => validator.addRule(maxDurationRule)).toThrow('Validation rule MAX_DURATION is already registered')
+  })
+
+  it('should run rules contributed by the module', async () => {
+    const validator = createValidator()
+
+    const result = await validator.validateData(createModule('VideoProcessingModule', { rules: [maxDurationRule] }), { duration: 900 })
+
+    expect(result.rules).toContain('MAX_DURATION')
+    expect(result.warnings.map(warning => warning.code)).toEqual(['MAX_DURATION'])
+  })
+
+  it('should toggle rules by name and per environment', async () => {
+    const config = {
+      rules: { INVALID_VERSION_FORMAT: false },
+      environmentRules: { development: { MISSING_CLEANUP: false } }
+    }
+    const module: Partial<PipelineModule> = createModule('AnalyticsModule', { version: '1.0' })
+    delete module.cleanup
+
+    const development = await createValidator({ ...config, environment: 'development' }).validateStructure(module as PipelineModule)
+    const production = await createValidator({ ...config, environment: 'production' }).validateStructure(module as PipelineModule)
+
+    expect(development.isValid).toBe(true)
+    expect(development.rules).not.toContain('MISSING_CLEANUP')
+    expect(development.warnings).toHaveLength(0)
+    expect(production.errors.map(error => error.code)).toEqual(['MISSING_CLEANUP'])
+  })
+
+  it('should escalate chosen warnings to errors only in strict mode', async () => {
+    const module = createModule('AnalyticsModule', { version: '1.0' })
+
+    const lenient = await createValidator({ escalate: ['INVALID_VERSION_FORMAT'] }).validateStructure(module)
+    const strict = await createValidator({ strictMode: true, escalate: ['INVALID_VERSION_FORMAT'] }).validateStructure(module)
+
+    expect(lenient.isValid).toBe(true)
+    expect(strict.isValid).toBe(false)
+    expect(strict.errors[0]).toMatchObject({ code: 'INVALID_VERSION_FORMAT', severity: 'error' })
+  })
+
+  it('should report a failing rule instead of throwing', async () => {
+    const validator = createValidator()
+    validator.addRule({ name: 'BROKEN', scope: 'structure', severity: 'error', check: () => { throw new Error('boom') } })
+
+    const result = await validator.validateStructure(createModule('AnalyticsModule'))
+
+    expect(result.errors[0]).toMatchObject({ code: 'RULE_FAILED', message: 'Rule BROKEN failed: boom' })
+    expect(validator.removeRule('BROKEN')).toBe(true)
+    expect(validator.removeRule('BROKEN')).toBe(false)
+  })
+})
@@ -0,0 +1,113 @@
+// Validator Integration Tests
+// Checks validateIntegration against a module registry and the engine's use of it
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { Telemetry } from '../src/lib/directorstudio/core/telemetry'
+import { DirectorStudioValidator } from '../src/lib/directorstudio/core/validator'
+import { createPipelineEngine } from '../src/lib/directorstudio/core/pipeline'
+import { ModuleRegistry, PipelineModule } from '../src/lib/directorstudio/core/types'
+import { createModule, createTestConfig } from './helpers/pipeline'
+
+function createRegistry(modules: PipelineModule[]): ModuleRegistry {
+  return {
+    getModules: () => modules,
+    getModuleVersions: name => modules.filter(module => module.name === name)
+  }
+}
+
+// ==============================================
+// REGISTRY-AWARE VALIDATION TESTS
+// ==============================================
+
+describe('validateIntegration with a registry', () => {
+  let telemetry: Telemetry
+  let validator: DirectorStudioValidator
+
+  beforeEach(() => {
+    const config = createTestConfig()
+    telemetry = Telemetry.create(config.telemetry)
+    validator = DirectorStudioValidator.create(config.validation, telemetry)
+  })
+
+  it('should report missing, incompatible and disabled dependencies', async () => {
+    const registry = createRegistry([
+      createModule('VideoUploadModule', { version: '1.4.0' }),
+      createModule('UserManagementModule', { config: { enabled: false } })
+    ])
+    const module = createModule('AnalyticsModule', {
+      dependencies: ['VideoUploadModule@^2.0.0', 'UserManagementModule', 'ContentManagementModule']
+    })
+
+    const result = await validator.validateIntegration(module, registry)
+
+    expect(result.isValid).toBe(false)
+    expect(result.errors.map(error => error.code)).toEqual([
+      'INCOMPATIBLE_DEPENDENCY',
+      'DISABLED_DEPENDENCY',
+      'MISSING_DEPENDENCY'
+    ])
+  })
+
+  it('should report cycles through the module with their path', async () => {
+    const registry = createRegistry([
+      createModule('B', { dependencies: ['C'] }),
+      createModule('C', { dependencies: ['A'] })
+    ])
+
+    const result = await validator.validateIntegration(createModule('A', { dependencies: ['B'] }), registry)
+
+    expect(result.errors).toHaveLength(1)
+    expect(result.errors[0]).toMatchObject({
+      code: 'CIRCULAR_DEPENDENCY',
+      message: 'Circular dependency: A -> B -> C -> A',
+      severity: 'critical'
+    })
+  })
+
+  it('should report priorities that run a module before its dependency', async () => {
+    const registry = createRegistry([createModule('VideoUploadModule', { config: { priority: 3 } })])
+
+    const result = await validator.validateIntegration(
+      createModule('VideoProcessingModule', { dependencies: ['VideoUploadModule'], config: { priority: 2 } }),
+      registry
+    )
+
+    expect(result.isValid).toBe(true)
+    expect(result.warnings.map(warning => warning.code)).toEqual(['PRIORITY_ORDER_CONFLICT'])
+  })
+
+  it('should only check declarations without a registry', async () => {
+    const result = await validator.validateIntegration(createModule('AnalyticsModule', { dependencies: ['ContentManagementModule'] }))
+
+    expect(result.isValid).toBe(true)
+  })
+})
+
+// ==============================================
+// ENGINE TESTS
+// ==============================================
+
+describe('PipelineEngine integration checks', () => {
+  const createEngine = (strictMode: boolean) => createPipelineEngine(createTestConfig({ validation: { strictMode } }))
+
+  it('should refuse to start in strict mode with a missing dependency', async () => {
+    const engine = createEngine(true)
+    await engine.registerModule(createModule('VideoProcessingModule', { dependencies: ['VideoUploadModule'] }))
+
+    await expect(engine.initialize()).rejects.toThrow('MISSING_DEPENDENCY')
+  })
+
+  it('should return registry problems as warnings for late registrations outside strict mode', async () => {
+    const engine = createEngine(false)
+    await engine.registerModule(createModule('VideoUploadModule'))
+    await engine.initialize()
+
+    const result = await engine.registerModule(createModule('ContentAnalysisModule', {
+      dependencies: ['VideoUploadModule', 'UserManagementModule']
+    }))
+
+    expect(result.isValid).toBe(true)
+    expect(result.warnings.map(warning => warning.code)).toContain('MISSING_DEPENDENCY')
+    await engine.shutdown()
+  })
+})
@@ -0,0 +1,43 @@
+// Video Processing Module Tests
+// Covers partial artifact cleanup on failure and options passed through after an upload
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { Telemetry } from '../src/lib/directorstudio/core/telemetry'
+import { VideoProcessingModule } from '../src/lib/directorstudio/modules/video/VideoProcessingModule'
+
+// ==============================================
+// VIDEO PROCESSING TESTS
+// ==============================================
+
+describe('VideoProcessingModule', () => {
+  let telemetry: Telemetry
+
+  beforeEach(() => {
+    telemetry = Telemetry.getInstance({ enabled: true, endpoint: '', batchSize: 1000, flushInterval: 0, retentionDays: 1 })
+  })
+
+  it('should remove partial artifacts when processing fails', async () => {
+    const module = new VideoProcessingModule()
+    const data = { videoId: 'video-1', fileUrl: '', userId: 'user-1', sessionId: 'session-1' }
+
+    const removed = () => telemetry.getEvents({ type: 'partial_artifacts_removed' })
+      .filter(event => event.data.videoId === 'video-1')
+
+    await expect(module.process(data)).rejects.toThrow('File URL is required')
+    expect(removed()).toHaveLength(1)
+
+    await module.cleanupPartial(data)
+    expect(removed()).toHaveLength(1)
+  })
+
+  it('should apply pipeline input options when running after the upload module', async () => {
+    const module = new VideoProcessingModule({ metadata: { supportedQualities: ['low'], supportedFormats: ['mp4'] } })
+
+    await expect(module.process({
+      input: { userId: 'user-1', sessionId: 'session-1', options: { quality: 'high' } },
+      dependencies: {
+        VideoUploadModule: { videoId: 'video-1', fileUrl: 'https://storage.example.com/videos/video-1.mp4' }
+      }
+    })).rejects.toThrow('Unsupported quality: high')
+  })
+})
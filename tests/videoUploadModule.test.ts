@@ -0,0 +1,45 @@
+// Video Upload Module Tests
+// Covers removing stored files when an upload is cancelled part way through
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { PipelineCancelledError } from '../src/lib/directorstudio/core/cancellation'
+import { Telemetry } from '../src/lib/directorstudio/core/telemetry'
+import { VideoUploadModule } from '../src/lib/directorstudio/modules/video/VideoUploadModule'
+
+// ==============================================
+// VIDEO UPLOAD TESTS
+// ==============================================
+
+describe('VideoUploadModule', () => {
+  let telemetry: Telemetry
+
+  beforeEach(() => {
+    telemetry = Telemetry.getInstance({ enabled: true, endpoint: '', batchSize: 1000, flushInterval: 0, retentionDays: 1 })
+  })
+
+  it('should remove the stored file when the upload is cancelled mid-run', async () => {
+    const module = new VideoUploadModule()
+    const data = {
+      file: new File(['frames'], 'clip.mp4'),
+      title: 'Launch trailer',
+      isPublic: false,
+      userId: 'user-1',
+      sessionId: 'session-upload'
+    }
+    const removed = () => telemetry.getEvents({ type: 'partial_upload_removed' })
+      .filter(event => event.sessionId === 'session-upload')
+
+    // Cancel while the file is being stored, so the next step sees the abort
+    const controller = new AbortController()
+    const upload = module.process(data, controller.signal)
+    await new Promise(resolve => setTimeout(resolve, 50))
+    controller.abort()
+
+    await expect(upload).rejects.toBeInstanceOf(PipelineCancelledError)
+    expect(removed()).toHaveLength(1)
+    expect(removed()[0].data.files).toEqual([expect.stringMatching(/^https:\/\/storage\.example\.com\/videos\/user-1_/)])
+
+    await module.cleanupPartial(data)
+    expect(removed()).toHaveLength(1)
+  })
+})